@@ -4,33 +4,88 @@ import { Dose, ESTRADIOL_ESTERS } from './data/estradiolEsters';
 import {
   calculateTotalConcentration,
   generateTimePoints,
+  expandRepeatedDoses,
   ConcentrationPoint
 } from './utils/pharmacokinetics';
-import { ReferenceCycleType } from './data/referenceData';
-import { encodeSchedule, decodeSchedule, decodeLegacySchedule } from './utils/urlEncoding';
+import {
+  findReferenceCycle,
+  ReferenceCycleInfo,
+  ReferenceCycleType,
+  ReferenceTarget,
+  DEFAULT_FLAT_TARGET,
+  FlatTarget,
+  parseFlatTarget
+} from './data/referenceData';
+import { encodeSchedule, decodeSchedule, decodeLegacySchedule, ScheduleData } from './utils/urlEncoding';
 import { PHARMACOKINETICS, DEFAULTS } from './constants/pharmacokinetics';
-import { DEFAULT_ESTER_CONCENTRATIONS, Z_INDEX } from './constants/defaults';
+import { DEFAULT_ESTER_CONCENTRATIONS, STORAGE_KEYS, Z_INDEX } from './constants/defaults';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from './constants/styles';
 import VisualTimeline from './components/VisualTimeline';
 import ConcentrationGraph from './components/ConcentrationGraph';
 import OptimizerModal from './components/OptimizerModal';
-import { optimizeSchedule } from './utils/scheduleOptimizer';
-import { AnyMedication, isProgesteroneMedication } from './types/medication';
+import BloodworkModal from './components/BloodworkModal';
+import LabResultsModal from './components/LabResultsModal';
+import PKMetricsPanel from './components/PKMetricsPanel';
+import CustomMedicationsModal from './components/CustomMedicationsModal';
+import DoseLogModal from './components/DoseLogModal';
+import WhatIfPanel from './components/WhatIfPanel';
+import ScheduleComparisonPanel from './components/ScheduleComparisonPanel';
+import ScheduleLibraryModal from './components/ScheduleLibraryModal';
+import { useHistory } from './hooks/useHistory';
+import { ScheduleSnapshot, diffSchedules, getScheduleEditKey, isSameSnapshot } from './utils/scheduleDiff';
+import { isAbortError } from './utils/scheduleOptimizer';
+import { runOptimizer } from './utils/optimizerClient';
+import { AnyMedication, EstradiolMedication, isEstradiolMedication } from './types/medication';
 import { PROGESTERONE_ROUTES } from './data/progesteroneRoutes';
+import { getPersonalisedName, PERSONALISED_SUFFIX } from './utils/pkFitting';
+import { LabComparison, LabResult, compareLabResults } from './utils/labResults';
+import { PercentileBand, simulatePopulationBands } from './utils/variability';
+import { HistoryPoint, LoggedDose, buildHistorySchedule, splitHistorySeries } from './utils/doseLog';
+import { dayOfDateTime, daysBetween, todayISODate } from './utils/dates';
+import { SavedSchedule } from './utils/scheduleLibrary';
+import { Preset } from './data/presets';
+import {
+  ComparisonSeries,
+  PinnedSchedule,
+  calculateScheduleConcentrations,
+  createPinnedSchedule,
+  isSameSchedule
+} from './utils/scheduleComparison';
+import { WhatIfPoint, WhatIfResult, WhatIfScenario, buildWhatIfSeries, simulateWhatIf } from './utils/whatIf';
+import {
+  loadCustomMedications,
+  saveCustomMedications,
+  loadLabResults,
+  saveLabResults,
+  loadDoseLog,
+  saveDoseLog,
+  loadPinnedSchedules,
+  savePinnedSchedules,
+  loadScheduleLibrary,
+  saveScheduleLibrary,
+  loadCustomPresets,
+  saveCustomPresets,
+  loadDoseDisplaySettings,
+  saveDoseDisplaySettings,
+  loadVialInventory,
+  saveVialInventory,
+  loadCustomReferences,
+  saveCustomReferences
+} from './utils/storage';
+import { Vial } from './utils/inventory';
+import InventoryModal from './components/InventoryModal';
+import ReferenceImportModal from './components/ReferenceImportModal';
+import { DoseDisplaySettings, DoseDisplayUnit, DOSE_DISPLAY_UNIT_NAMES, SYRINGE_RESOLUTIONS_ML, U100_UNITS_PER_ML } from './utils/doseUnits';
+import { mergeCustomMedications } from './utils/customMedications';
 
-const STORAGE_KEYS = {
-  OPTIMIZER_SETTINGS: 'optimizerSettings',
-  ESTER_CONCENTRATIONS: 'esterConcentrations'
-};
-
-function loadOptimizerSettings() {
+function loadOptimizerSettings(customMedications: AnyMedication[]) {
   try {
     const stored = localStorage.getItem(STORAGE_KEYS.OPTIMIZER_SETTINGS);
     if (!stored) return null;
 
     const parsed = JSON.parse(stored);
 
-    const allMedications = [...ESTRADIOL_ESTERS, ...PROGESTERONE_ROUTES];
+    const allMedications = [...ESTRADIOL_ESTERS, ...PROGESTERONE_ROUTES, ...customMedications];
     const selectedEsters = (parsed.selectedMedicationNames || [])
       .map((name: string) => allMedications.find(m => m.name === name))
       .filter(Boolean) as AnyMedication[];
@@ -39,7 +94,9 @@ function loadOptimizerSettings() {
       selectedEsters: selectedEsters.length > 0 ? selectedEsters : [ESTRADIOL_ESTERS[1] || ESTRADIOL_ESTERS[0]!],
       maxInjections: parsed.maxInjections || 4,
       granularity: parsed.granularity || 0.05,
-      progesteroneDoses: parsed.progesteroneDoses || [100, 200]
+      progesteroneDoses: parsed.progesteroneDoses || [100, 200],
+      preferStock: parsed.preferStock === true,
+      flatTarget: parseFlatTarget(parsed.flatTarget)
     };
   } catch (e) {
     console.error('Failed to load optimizer settings from localStorage:', e);
@@ -52,13 +109,17 @@ function saveOptimizerSettings(settings: {
   maxInjections: number;
   granularity: number;
   progesteroneDoses: number[];
+  preferStock: boolean;
+  flatTarget: FlatTarget;
 }) {
   try {
     const toStore = {
       selectedMedicationNames: settings.selectedEsters.map(m => m.name),
       maxInjections: settings.maxInjections,
       granularity: settings.granularity,
-      progesteroneDoses: settings.progesteroneDoses
+      progesteroneDoses: settings.progesteroneDoses,
+      preferStock: settings.preferStock,
+      flatTarget: settings.flatTarget
     };
     localStorage.setItem(STORAGE_KEYS.OPTIMIZER_SETTINGS, JSON.stringify(toStore));
   } catch (e) {
@@ -87,13 +148,42 @@ function saveEsterConcentrations(concentrations: Record<string, number>) {
   }
 }
 
+const HEADER_ICON_BUTTON_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  top: SPACING['3xl'],
+  padding: SPACING.md,
+  fontSize: TYPOGRAPHY.fontSize['2xl'],
+  backgroundColor: 'transparent',
+  color: COLORS.gray600,
+  border: 'none',
+  borderRadius: BORDER_RADIUS.sm,
+  cursor: 'pointer',
+  transition: 'all 0.15s ease',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: Z_INDEX.SETTINGS_BUTTON
+};
+
+const highlightIconButton = (e: React.MouseEvent<HTMLButtonElement>) => {
+  e.currentTarget.style.color = COLORS.gray700;
+  e.currentTarget.style.backgroundColor = COLORS.gray50;
+};
+
+const unhighlightIconButton = (e: React.MouseEvent<HTMLButtonElement>) => {
+  e.currentTarget.style.color = COLORS.gray600;
+  e.currentTarget.style.backgroundColor = 'transparent';
+};
+
 function App() {
   const loadFromURL = (): {
     doses: Dose[],
     scheduleLength: number,
     graphDays: number,
     repeat: boolean,
-    cycleType: ReferenceCycleType
+    steadyState: boolean,
+    cycleType: ReferenceCycleType,
+    startDate: string | null
   } => {
     const params = new URLSearchParams(window.location.search);
     const scheduleData = params.get('s');
@@ -106,7 +196,7 @@ function App() {
       }
 
       if (decoded) {
-        return decoded;
+        return { ...decoded, steadyState: decoded.steadyState ?? false, startDate: decoded.startDate ?? null };
       }
     }
 
@@ -115,7 +205,9 @@ function App() {
       scheduleLength: DEFAULTS.DEFAULT_SCHEDULE_LENGTH,
       graphDays: DEFAULTS.DEFAULT_GRAPH_DAYS,
       repeat: DEFAULTS.DEFAULT_REPEAT,
-      cycleType: DEFAULTS.DEFAULT_CYCLE_TYPE
+      steadyState: false,
+      cycleType: DEFAULTS.DEFAULT_CYCLE_TYPE,
+      startDate: null
     };
   };
 
@@ -125,30 +217,63 @@ function App() {
   const [scheduleLength, setScheduleLength] = useState(initial.scheduleLength);
   const [graphDisplayDays, setGraphDisplayDays] = useState(initial.graphDays);
   const [repeatSchedule, setRepeatSchedule] = useState(initial.repeat);
-  const [steadyState, setSteadyState] = useState(false);
+  const [steadyState, setSteadyState] = useState(initial.steadyState);
   const [referenceCycleType, setReferenceCycleType] = useState<ReferenceCycleType>(initial.cycleType);
+  const [customReferences, setCustomReferences] = useState<ReferenceCycleInfo[]>(() => loadCustomReferences());
+  const [showReferenceImportModal, setShowReferenceImportModal] = useState(false);
+  const [referenceMode, setReferenceMode] = useState<ReferenceTarget>('curve');
+  const [startDate, setStartDate] = useState<string | null>(initial.startDate);
   const [esterConcentrations, setEsterConcentrations] = useState<Record<string, number>>(() => loadEsterConcentrations());
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [tempEsterConcentrations, setTempEsterConcentrations] = useState(esterConcentrations);
   const [concentrationInputs, setConcentrationInputs] = useState<Record<string, string>>({});
+  const [doseDisplay, setDoseDisplay] = useState<DoseDisplaySettings>(() => loadDoseDisplaySettings());
+  const [tempDoseDisplay, setTempDoseDisplay] = useState(doseDisplay);
+  const [showInventoryModal, setShowInventoryModal] = useState(false);
+  const [vials, setVials] = useState<Vial[]>(() => loadVialInventory());
   const [optimizeMode, setOptimizeMode] = useState(false);
   const [showOptimizerSettingsModal, setShowOptimizerSettingsModal] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizeProgress, setOptimizeProgress] = useState(0);
   const [isFindingBestFit, setIsFindingBestFit] = useState(false);
   const [bestFitProgress, setBestFitProgress] = useState({ current: 0, total: 0, injectionCount: 0 });
+  const [showBloodworkModal, setShowBloodworkModal] = useState(false);
+  // Custom medications arriving in a shared link become selectable alongside saved ones
+  const [customMedications, setCustomMedications] = useState<AnyMedication[]>(() =>
+    mergeCustomMedications(loadCustomMedications(), initial.doses.map(d => d.medication))
+  );
+  const [showCustomMedicationsModal, setShowCustomMedicationsModal] = useState(false);
+  const [showDoseLogModal, setShowDoseLogModal] = useState(false);
+  const [doseLog, setDoseLog] = useState<LoggedDose[]>(() => loadDoseLog());
+  const [history, setHistory] = useState<{ series: HistoryPoint[]; nowDay: number | null }>({ series: [], nowDay: null });
+  const [showScheduleLibraryModal, setShowScheduleLibraryModal] = useState(false);
+  const [scheduleLibrary, setScheduleLibrary] = useState<SavedSchedule[]>(() => loadScheduleLibrary());
+  const [customPresets, setCustomPresets] = useState<Preset[]>(() => loadCustomPresets());
+  const [pinnedSchedules, setPinnedSchedules] = useState<PinnedSchedule[]>(() => loadPinnedSchedules());
+  const [comparisonSeries, setComparisonSeries] = useState<ComparisonSeries[]>([]);
+  const [whatIfScenario, setWhatIfScenario] = useState<WhatIfScenario | null>(null);
+  const [whatIf, setWhatIf] = useState<{ result: WhatIfResult; series: WhatIfPoint[] } | null>(null);
+  const [showLabResultsModal, setShowLabResultsModal] = useState(false);
+  const [labResults, setLabResults] = useState<LabResult[]>(() => loadLabResults());
+  const [labComparisons, setLabComparisons] = useState<LabComparison[]>([]);
+  const [showVariability, setShowVariability] = useState(false);
+  const [variabilityBands, setVariabilityBands] = useState<PercentileBand[]>([]);
   const [optimizerSettings, setOptimizerSettings] = useState<{
     selectedEsters: AnyMedication[];
     maxInjections: number;
     granularity: number;
     progesteroneDoses: number[];
+    preferStock: boolean; // Penalise esters with no vials in the inventory
+    flatTarget: FlatTarget; // Goal for the steady-level reference mode
   }>(() => {
-    const loaded = loadOptimizerSettings();
+    const loaded = loadOptimizerSettings(customMedications);
     return loaded || {
       selectedEsters: [ESTRADIOL_ESTERS[1] || ESTRADIOL_ESTERS[0]!],
       maxInjections: 4,
       granularity: 0.05,
-      progesteroneDoses: [100, 200]
+      progesteroneDoses: [100, 200],
+      preferStock: false,
+      flatTarget: DEFAULT_FLAT_TARGET
     };
   });
 
@@ -158,12 +283,14 @@ function App() {
       scheduleLength,
       graphDays: graphDisplayDays,
       repeat: repeatSchedule,
-      cycleType: referenceCycleType
+      steadyState,
+      cycleType: referenceCycleType,
+      startDate: startDate ?? undefined
     });
 
     const newURL = `${window.location.pathname}?s=${encoded}`;
     window.history.replaceState({}, '', newURL);
-  }, [doses, scheduleLength, graphDisplayDays, repeatSchedule, referenceCycleType]);
+  }, [doses, scheduleLength, graphDisplayDays, repeatSchedule, steadyState, referenceCycleType, startDate]);
 
   useEffect(() => {
     saveOptimizerSettings(optimizerSettings);
@@ -174,26 +301,64 @@ function App() {
   }, [esterConcentrations]);
 
   useEffect(() => {
-    let dosesForCalculation = doses;
+    saveCustomMedications(customMedications);
+  }, [customMedications]);
 
-    if (repeatSchedule && doses.length > 0) {
-      const repeatedDoses: Dose[] = [];
-      const cycleLength = scheduleLength;
+  useEffect(() => {
+    saveLabResults(labResults);
+  }, [labResults]);
 
-      const startCycle = steadyState ? PHARMACOKINETICS.STEADY_STATE_START_CYCLE : 0;
-      const numCycles = Math.ceil(graphDisplayDays / cycleLength) + (steadyState ? PHARMACOKINETICS.STEADY_STATE_CYCLES : 0);
+  useEffect(() => {
+    saveDoseLog(doseLog);
+  }, [doseLog]);
 
-      for (let cycle = startCycle; cycle < numCycles; cycle++) {
-        doses.forEach(dose => {
-          repeatedDoses.push({
-            ...dose,
-            day: dose.day + (cycle * cycleLength)
-          });
-        });
-      }
+  useEffect(() => {
+    savePinnedSchedules(pinnedSchedules);
+  }, [pinnedSchedules]);
 
-      dosesForCalculation = repeatedDoses.filter(d => d.day <= graphDisplayDays);
-    }
+  useEffect(() => {
+    saveScheduleLibrary(scheduleLibrary);
+  }, [scheduleLibrary]);
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  useEffect(() => {
+    saveDoseDisplaySettings(doseDisplay);
+  }, [doseDisplay]);
+
+  useEffect(() => {
+    saveVialInventory(vials);
+  }, [vials]);
+
+  useEffect(() => {
+    saveCustomReferences(customReferences);
+  }, [customReferences]);
+
+  // A schedule or link can name an imported curve that has since been removed
+  const currentReference = findReferenceCycle(referenceCycleType, customReferences);
+  useEffect(() => {
+    if (!currentReference) setReferenceCycleType(DEFAULTS.DEFAULT_CYCLE_TYPE);
+  }, [currentReference]);
+
+  useEffect(() => {
+    setComparisonSeries(pinnedSchedules.map(schedule => ({
+      id: schedule.id,
+      name: schedule.name,
+      color: schedule.color,
+      points: calculateScheduleConcentrations(schedule, graphDisplayDays)
+    })));
+  }, [pinnedSchedules, graphDisplayDays]);
+
+  useEffect(() => {
+    const dosesForCalculation = expandRepeatedDoses(
+      doses,
+      scheduleLength,
+      graphDisplayDays,
+      repeatSchedule,
+      steadyState
+    );
 
     const timePoints = generateTimePoints(
       graphDisplayDays + PHARMACOKINETICS.ESTER_EFFECT_DURATION_DAYS,
@@ -203,27 +368,234 @@ function App() {
 
     const filteredData = data.filter(point => point.time >= 0);
     setConcentrationData(filteredData);
-  }, [doses, scheduleLength, graphDisplayDays, repeatSchedule, steadyState]);
+    setLabComparisons(compareLabResults(labResults, dosesForCalculation));
+
+    // Levels from the dose log up to now, continuing with the plan
+    const nowDay = startDate ? dayOfDateTime(startDate, new Date()) : null;
+    if (startDate && nowDay !== null && doseLog.length > 0) {
+      const historyDoses = buildHistorySchedule(dosesForCalculation, doseLog, startDate, nowDay);
+      const points = calculateTotalConcentration(historyDoses, timePoints).filter(point => point.time >= 0);
+      setHistory({ series: splitHistorySeries(points, nowDay), nowDay });
+    } else {
+      setHistory({ series: [], nowDay: null });
+    }
+  }, [doses, scheduleLength, graphDisplayDays, repeatSchedule, steadyState, labResults, startDate, doseLog]);
+
+  // A what-if scenario refers to a dose by index, so it no longer applies once the schedule changes
+  useEffect(() => {
+    setWhatIfScenario(null);
+  }, [doses, scheduleLength, repeatSchedule, steadyState]);
+
+  useEffect(() => {
+    if (!whatIfScenario) {
+      setWhatIf(null);
+      return;
+    }
+
+    const result = simulateWhatIf(doses, whatIfScenario, {
+      scheduleLength,
+      displayDays: graphDisplayDays,
+      esterConcentrations,
+      granularity: optimizerSettings.granularity
+    });
+    const timePoints = generateTimePoints(graphDisplayDays, PHARMACOKINETICS.TIME_POINT_STEP);
+    setWhatIf(result ? { result, series: buildWhatIfSeries(result, timePoints) } : null);
+  }, [whatIfScenario, doses, scheduleLength, graphDisplayDays, esterConcentrations, optimizerSettings.granularity]);
+
+  useEffect(() => {
+    if (!showVariability) {
+      setVariabilityBands([]);
+      return;
+    }
+
+    const dosesForCalculation = expandRepeatedDoses(
+      doses,
+      scheduleLength,
+      graphDisplayDays,
+      repeatSchedule,
+      steadyState
+    );
+    const timePoints = generateTimePoints(graphDisplayDays, PHARMACOKINETICS.TIME_POINT_STEP);
+    setVariabilityBands(simulatePopulationBands(dosesForCalculation, timePoints));
+  }, [showVariability, doses, scheduleLength, graphDisplayDays, repeatSchedule, steadyState]);
+
+  const injectableMedications: EstradiolMedication[] = [
+    ...ESTRADIOL_ESTERS,
+    ...customMedications.filter(isEstradiolMedication)
+  ];
+
+  const handleSavePersonalised = (medications: EstradiolMedication[], applyToSchedule: boolean) => {
+    const names = new Set(medications.map(m => m.name));
+    setCustomMedications([...customMedications.filter(m => !names.has(m.name)), ...medications]);
+
+    // Personalised esters come from the same vial as the ester they were fitted from
+    const concentrations = { ...esterConcentrations };
+    medications.forEach(m => {
+      const baseName = m.name.slice(0, -PERSONALISED_SUFFIX.length);
+      concentrations[m.name] = esterConcentrations[m.name] ?? esterConcentrations[baseName] ?? DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML;
+    });
+    setEsterConcentrations(concentrations);
+
+    if (applyToSchedule) {
+      const personalise = (medication: AnyMedication): AnyMedication => {
+        if (!isEstradiolMedication(medication)) return medication;
+        return medications.find(m => m.name === getPersonalisedName(medication.name)) || medication;
+      };
+      setDoses(doses.map(d => ({ ...d, medication: personalise(d.medication) })));
+      setOptimizerSettings({
+        ...optimizerSettings,
+        selectedEsters: optimizerSettings.selectedEsters.map(personalise)
+      });
+    }
+    setShowBloodworkModal(false);
+  };
+
+  const handleSaveCustomMedication = (medication: AnyMedication, previousName: string | null, concentration: number | null) => {
+    const replaced = customMedications.some(m => m.name === previousName);
+    setCustomMedications(replaced
+      ? customMedications.map(m => (m.name === previousName ? medication : m))
+      : [...customMedications, medication]);
+
+    if (concentration !== null || previousName !== null) {
+      const concentrations = { ...esterConcentrations };
+      if (previousName !== null) delete concentrations[previousName];
+      if (concentration !== null) concentrations[medication.name] = concentration;
+      setEsterConcentrations(concentrations);
+    }
+
+    // Edits apply to doses already using the medication
+    if (previousName !== null) {
+      const update = (m: AnyMedication) => (m.name === previousName ? medication : m);
+      setDoses(doses.map(d => ({ ...d, medication: update(d.medication) })));
+      setPinnedSchedules(pinnedSchedules.map(p => ({
+        ...p,
+        doses: p.doses.map(d => ({ ...d, medication: update(d.medication) }))
+      })));
+      setOptimizerSettings({
+        ...optimizerSettings,
+        selectedEsters: optimizerSettings.selectedEsters.map(update)
+      });
+      setVials(vials.map(v => (v.medicationName === previousName ? { ...v, medicationName: medication.name } : v)));
+    }
+  };
+
+  // Planned doses falling on today's date, offered for quick logging
+  const getPlannedDosesForToday = (): Dose[] => {
+    const today = startDate ? daysBetween(startDate, todayISODate()) : null;
+    if (today === null || today < 0) return [];
+    return expandRepeatedDoses(doses, scheduleLength, today + 1, repeatSchedule, false)
+      .filter(d => Math.floor(d.day) === today);
+  };
+
+  const handleDeleteCustomMedication = (name: string) => {
+    setCustomMedications(customMedications.filter(m => m.name !== name));
+    setOptimizerSettings({
+      ...optimizerSettings,
+      selectedEsters: optimizerSettings.selectedEsters.filter(m => m.name !== name)
+    });
+  };
+
+  const activeSchedule = { doses, scheduleLength, repeat: repeatSchedule, steadyState };
+
+  // Undo/redo covers every way the schedule changes: edits, presets, the optimizer, loads and resets
+  const restoreSnapshot = (snapshot: ScheduleSnapshot) => {
+    setDoses(snapshot.doses);
+    setScheduleLength(snapshot.scheduleLength);
+    setRepeatSchedule(snapshot.repeat);
+    setSteadyState(snapshot.steadyState);
+    setReferenceCycleType(snapshot.cycleType);
+  };
+  const scheduleSnapshot: ScheduleSnapshot = { ...activeSchedule, cycleType: referenceCycleType };
+  const scheduleHistory = useHistory(scheduleSnapshot, restoreSnapshot, {
+    isEqual: isSameSnapshot,
+    getEditKey: getScheduleEditKey,
+    paused: isOptimizing
+  });
+  const previousSnapshot = scheduleHistory.past[scheduleHistory.past.length - 1];
+
+  // Imported presets may use custom medications, which become selectable like those in shared links
+  const handleCustomPresetsChange = (presets: Preset[]) => {
+    setCustomPresets(presets);
+    setCustomMedications(mergeCustomMedications(customMedications, presets.flatMap(p => p.doses.map(d => d.medication))));
+  };
+
+  const handleLoadSavedSchedule = (schedule: ScheduleData) => {
+    setCustomMedications(mergeCustomMedications(customMedications, schedule.doses.map(d => d.medication)));
+    setDoses(schedule.doses.map(d => ({ ...d })));
+    setScheduleLength(schedule.scheduleLength);
+    setGraphDisplayDays(schedule.graphDays);
+    setRepeatSchedule(schedule.repeat);
+    setSteadyState(schedule.steadyState ?? false);
+    setReferenceCycleType(schedule.cycleType);
+    setStartDate(schedule.startDate ?? null);
+  };
+
+  const handlePinSchedule = (name: string) => {
+    setPinnedSchedules([...pinnedSchedules, createPinnedSchedule(name, activeSchedule, pinnedSchedules)]);
+  };
+
+  const handleUpdatePinnedSchedule = (schedule: PinnedSchedule) => {
+    setPinnedSchedules(pinnedSchedules.map(p => (p.id === schedule.id ? schedule : p)));
+  };
+
+  const handlePromotePinnedSchedule = (id: string) => {
+    const schedule = pinnedSchedules.find(p => p.id === id);
+    if (!schedule) return;
+
+    // Keep the schedule being replaced unless it is already pinned
+    if (!pinnedSchedules.some(p => isSameSchedule(p, activeSchedule))) {
+      setPinnedSchedules([...pinnedSchedules, createPinnedSchedule('Previous schedule', activeSchedule, pinnedSchedules)]);
+    }
+    setDoses(schedule.doses.map(d => ({ ...d })));
+    setScheduleLength(schedule.scheduleLength);
+    setRepeatSchedule(schedule.repeat);
+    setSteadyState(schedule.steadyState);
+  };
+
+  const optimizerAbortRef = useRef<AbortController | null>(null);
+
+  const getStockedMedications = () => optimizerSettings.preferStock
+    ? Array.from(new Set(vials.filter(v => v.volumeMl > 0).map(v => v.medicationName)))
+    : [];
 
   const handleRunOptimization = async () => {
+    // A newer request supersedes any run still in progress
+    optimizerAbortRef.current?.abort();
+    const controller = new AbortController();
+    optimizerAbortRef.current = controller;
+
+    setIsFindingBestFit(false);
     setIsOptimizing(true);
     setOptimizeProgress(0);
     try {
-      const result = await optimizeSchedule(
+      const result = await runOptimizer(
         {
           availableEsters: optimizerSettings.selectedEsters,
           scheduleLength,
           referenceCycleType,
+          customReferenceCycles: customReferences,
+          referenceTarget: referenceMode,
+          flatTarget: optimizerSettings.flatTarget,
           steadyState: true,
           granularity: optimizerSettings.granularity,
           maxDosePerInjection: 10,
           minDosePerInjection: 0.1,
           maxInjectionsPerCycle: optimizerSettings.maxInjections,
           esterConcentrations,
-          progesteroneDoses: optimizerSettings.progesteroneDoses
+          progesteroneDoses: optimizerSettings.progesteroneDoses,
+          stockedMedications: getStockedMedications()
         },
-        (progress) => {
-          setOptimizeProgress(progress);
+        {
+          signal: controller.signal,
+          onProgress: (progress) => {
+            setOptimizeProgress(progress);
+          },
+          onIntermediate: (intermediateDoses) => {
+            // Preview the best schedule so far while the search continues
+            setDoses(intermediateDoses);
+            setRepeatSchedule(true);
+            setSteadyState(true);
+          }
         }
       );
 
@@ -231,22 +603,27 @@ function App() {
       setRepeatSchedule(true);
       setSteadyState(true);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Optimization failed:', error);
       alert('Optimization failed. Please try again.');
     } finally {
-      setIsOptimizing(false);
-      setOptimizeProgress(0);
+      if (optimizerAbortRef.current === controller) {
+        optimizerAbortRef.current = null;
+        setIsOptimizing(false);
+        setOptimizeProgress(0);
+      }
     }
   };
 
-  const bestFitCancelRef = useRef(false);
-
   const handleStopBestFit = () => {
-    bestFitCancelRef.current = true;
+    optimizerAbortRef.current?.abort();
   };
 
   const handleBestFit = async () => {
-    bestFitCancelRef.current = false;
+    optimizerAbortRef.current?.abort();
+    const controller = new AbortController();
+    optimizerAbortRef.current = controller;
+
     setIsFindingBestFit(true);
     setIsOptimizing(true);
 
@@ -263,7 +640,7 @@ function App() {
       setBestFitProgress({ current: 0, total: 100, injectionCount: 0 });
 
       for (let injections = 1; injections <= scheduleLength; injections++) {
-        if (bestFitCancelRef.current) {
+        if (controller.signal.aborted) {
           break;
         }
 
@@ -282,30 +659,43 @@ function App() {
         const currentCompleted = completedInjectionCounts;
         const lockedEstimate = maxEstimatedTotal;
 
-        const result = await optimizeSchedule(
-          {
-            availableEsters: optimizerSettings.selectedEsters,
-            scheduleLength,
-            referenceCycleType,
-            steadyState: true,
-            granularity: optimizerSettings.granularity,
-            maxDosePerInjection: 10,
-            minDosePerInjection: 0.1,
-            maxInjectionsPerCycle: injections,
-            esterConcentrations,
-            progesteroneDoses: optimizerSettings.progesteroneDoses,
-            optimizeForAccuracyOnly: true
-          },
-          (progress) => {
-            const currentProgress = currentCompleted + (progress / 100);
-            const percentComplete = Math.min(95, (currentProgress / lockedEstimate) * 100);
-            setBestFitProgress({
-              current: Math.round(percentComplete),
-              total: 100,
-              injectionCount: injections
-            });
-          }
-        );
+        let result;
+        try {
+          result = await runOptimizer(
+            {
+              availableEsters: optimizerSettings.selectedEsters,
+              scheduleLength,
+              referenceCycleType,
+              customReferenceCycles: customReferences,
+              referenceTarget: referenceMode,
+              flatTarget: optimizerSettings.flatTarget,
+              steadyState: true,
+              granularity: optimizerSettings.granularity,
+              maxDosePerInjection: 10,
+              minDosePerInjection: 0.1,
+              maxInjectionsPerCycle: injections,
+              esterConcentrations,
+              progesteroneDoses: optimizerSettings.progesteroneDoses,
+              stockedMedications: getStockedMedications(),
+              optimizeForAccuracyOnly: true
+            },
+            {
+              signal: controller.signal,
+              onProgress: (progress) => {
+                const currentProgress = currentCompleted + (progress / 100);
+                const percentComplete = Math.min(95, (currentProgress / lockedEstimate) * 100);
+                setBestFitProgress({
+                  current: Math.round(percentComplete),
+                  total: 100,
+                  injectionCount: injections
+                });
+              }
+            }
+          );
+        } catch (error) {
+          if (isAbortError(error)) break;
+          throw error;
+        }
 
         completedInjectionCounts++;
 
@@ -326,13 +716,16 @@ function App() {
         }
       }
 
-      setOptimizerSettings({
-        ...optimizerSettings,
-        maxInjections: bestInjectionCount
-      });
-      setDoses(bestDoses);
-      setRepeatSchedule(true);
-      setSteadyState(true);
+      // A stopped or superseded run leaves the current schedule alone
+      if (!controller.signal.aborted && bestDoses.length > 0) {
+        setOptimizerSettings({
+          ...optimizerSettings,
+          maxInjections: bestInjectionCount
+        });
+        setDoses(bestDoses);
+        setRepeatSchedule(true);
+        setSteadyState(true);
+      }
 
       setBestFitProgress({ current: 100, total: 100, injectionCount: bestInjectionCount });
     } catch (error) {
@@ -340,9 +733,12 @@ function App() {
       alert('Best fit failed. Please try again.');
     } finally {
       await new Promise(resolve => setTimeout(resolve, 500));
-      setIsFindingBestFit(false);
-      setIsOptimizing(false);
-      setBestFitProgress({ current: 0, total: 0, injectionCount: 0 });
+      if (optimizerAbortRef.current === controller) {
+        optimizerAbortRef.current = null;
+        setIsFindingBestFit(false);
+        setIsOptimizing(false);
+        setBestFitProgress({ current: 0, total: 0, injectionCount: 0 });
+      }
     }
   };
 
@@ -380,44 +776,78 @@ function App() {
       <button
         onClick={() => {
           setTempEsterConcentrations(esterConcentrations);
+          setTempDoseDisplay(doseDisplay);
           // Initialize input strings
           const inputs: Record<string, string> = {};
-          ESTRADIOL_ESTERS.forEach(ester => {
+          injectableMedications.forEach(ester => {
             inputs[ester.name] = (esterConcentrations[ester.name] || 40).toString();
           });
           setConcentrationInputs(inputs);
           setShowSettingsModal(true);
         }}
-        style={{
-          position: 'absolute',
-          top: SPACING['3xl'],
-          right: SPACING['3xl'],
-          padding: SPACING.md,
-          fontSize: TYPOGRAPHY.fontSize['2xl'],
-          backgroundColor: 'transparent',
-          color: COLORS.gray600,
-          border: 'none',
-          borderRadius: BORDER_RADIUS.sm,
-          cursor: 'pointer',
-          transition: 'all 0.15s ease',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          zIndex: Z_INDEX.SETTINGS_BUTTON
-        }}
-        onMouseEnter={(e) => {
-          e.currentTarget.style.color = COLORS.gray700;
-          e.currentTarget.style.backgroundColor = COLORS.gray50;
-        }}
-        onMouseLeave={(e) => {
-          e.currentTarget.style.color = COLORS.gray600;
-          e.currentTarget.style.backgroundColor = 'transparent';
-        }}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: SPACING['3xl'] })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
         title="Settings"
       >
         ⚙️
       </button>
 
+      {/* Bloodwork Icon - next to settings */}
+      <button
+        onClick={() => setShowBloodworkModal(true)}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: '64px' })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
+        title="Bloodwork & personal fit"
+      >
+        🩸
+      </button>
+
+      {/* Custom Medications Icon */}
+      <button
+        onClick={() => setShowCustomMedicationsModal(true)}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: '104px' })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
+        title="Custom medications"
+      >
+        💊
+      </button>
+
+      {/* Dose Log Icon */}
+      <button
+        onClick={() => setShowDoseLogModal(true)}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: '144px' })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
+        title="Dose log"
+      >
+        📝
+      </button>
+
+      {/* Schedule Library Icon */}
+      <button
+        onClick={() => setShowScheduleLibraryModal(true)}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: '184px' })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
+        title="Schedule library"
+      >
+        📚
+      </button>
+
+      {/* Vial Inventory Icon */}
+      <button
+        onClick={() => setShowInventoryModal(true)}
+        style={mergeStyles(HEADER_ICON_BUTTON_STYLE, { right: '224px' })}
+        onMouseEnter={highlightIconButton}
+        onMouseLeave={unhighlightIconButton}
+        title="Vial inventory"
+      >
+        📦
+      </button>
+
       <header style={{ marginBottom: '30px', textAlign: 'center' }}>
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '15px' }}>
           <a href="https://github.com/jessibug-os" target="_blank" rel="noopener noreferrer" title="Visit jessibug-os on GitHub">
@@ -439,13 +869,35 @@ function App() {
         onSteadyStateChange={setSteadyState}
         esterConcentrations={esterConcentrations}
         onOptimizeModeChange={setOptimizeMode}
+        customMedications={customMedications}
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        whatIfScenario={whatIfScenario}
+        onWhatIfScenarioChange={setWhatIfScenario}
+        customPresets={customPresets}
+        onCustomPresetsChange={handleCustomPresetsChange}
+        doseDisplay={doseDisplay}
+        history={{
+          canUndo: scheduleHistory.canUndo,
+          canRedo: scheduleHistory.canRedo,
+          onUndo: scheduleHistory.undo,
+          onRedo: scheduleHistory.redo,
+          lastChanges: previousSnapshot ? diffSchedules(previousSnapshot, scheduleSnapshot, customReferences) : []
+        }}
       />
       <ConcentrationGraph
         data={concentrationData}
         viewDays={graphDisplayDays}
         onViewDaysChange={setGraphDisplayDays}
         referenceCycleType={referenceCycleType}
+        referenceCycleLength={scheduleLength}
+        customReferenceCycles={customReferences}
         onReferenceCycleTypeChange={setReferenceCycleType}
+        onOpenReferenceImport={() => setShowReferenceImportModal(true)}
+        referenceMode={referenceMode}
+        onReferenceModeChange={setReferenceMode}
+        flatTarget={optimizerSettings.flatTarget}
+        onFlatTargetChange={(flatTarget) => setOptimizerSettings({ ...optimizerSettings, flatTarget })}
         optimizeMode={optimizeMode}
         onOptimizeModeChange={setOptimizeMode}
         optimizerSettings={optimizerSettings}
@@ -457,7 +909,48 @@ function App() {
         bestFitProgress={bestFitProgress}
         onBestFit={handleBestFit}
         onStopBestFit={handleStopBestFit}
-        actualInjectionCount={doses.filter(d => !isProgesteroneMedication(d.medication)).length}
+        actualInjectionCount={doses.filter(d => isEstradiolMedication(d.medication)).length}
+        labComparisons={labComparisons}
+        onOpenLabResults={() => setShowLabResultsModal(true)}
+        variabilityBands={variabilityBands}
+        showVariability={showVariability}
+        onShowVariabilityChange={setShowVariability}
+        startDate={startDate}
+        historySeries={history.series}
+        historyNowDay={history.nowDay}
+        whatIfSeries={whatIf?.series}
+        comparisonSeries={comparisonSeries.filter(series => pinnedSchedules.find(p => p.id === series.id)?.visible)}
+      />
+      {whatIfScenario && whatIf && doses[whatIfScenario.doseIndex] && (
+        <WhatIfPanel
+          scenario={whatIfScenario}
+          dose={doses[whatIfScenario.doseIndex]!}
+          result={whatIf.result}
+          startDate={startDate}
+          onClear={() => setWhatIfScenario(null)}
+        />
+      )}
+      <PKMetricsPanel
+        data={concentrationData}
+        cycleLength={scheduleLength}
+        viewDays={graphDisplayDays}
+        referenceCycleType={referenceCycleType}
+        customReferenceCycles={customReferences}
+        referenceMode={referenceMode}
+        referenceCycleLength={scheduleLength}
+        flatTarget={optimizerSettings.flatTarget}
+      />
+      <ScheduleComparisonPanel
+        activeSchedule={activeSchedule}
+        activeData={concentrationData}
+        pinned={pinnedSchedules}
+        series={comparisonSeries}
+        viewDays={graphDisplayDays}
+        onPin={handlePinSchedule}
+        onUpdate={handleUpdatePinnedSchedule}
+        onRemove={(id) => setPinnedSchedules(pinnedSchedules.filter(p => p.id !== id))}
+        onPromote={handlePromotePinnedSchedule}
+        customMedications={customMedications}
       />
 
       <OptimizerModal
@@ -470,6 +963,7 @@ function App() {
         maxInjections={optimizerSettings.maxInjections}
         granularity={optimizerSettings.granularity}
         progesteroneDoses={optimizerSettings.progesteroneDoses}
+        customMedications={customMedications}
         onSettingsChange={(selectedEsters, granularity, progesteroneDoses) => {
           setOptimizerSettings({
             ...optimizerSettings,
@@ -480,6 +974,83 @@ function App() {
         }}
       />
 
+      <DoseLogModal
+        isOpen={showDoseLogModal}
+        onClose={() => setShowDoseLogModal(false)}
+        log={doseLog}
+        onLogChange={setDoseLog}
+        startDate={startDate}
+        onStartDateChange={setStartDate}
+        plannedToday={showDoseLogModal ? getPlannedDosesForToday() : []}
+        customMedications={customMedications}
+      />
+
+      <ScheduleLibraryModal
+        isOpen={showScheduleLibraryModal}
+        onClose={() => setShowScheduleLibraryModal(false)}
+        library={scheduleLibrary}
+        onLibraryChange={setScheduleLibrary}
+        currentSchedule={{
+          doses,
+          scheduleLength,
+          graphDays: graphDisplayDays,
+          repeat: repeatSchedule,
+          steadyState,
+          cycleType: referenceCycleType,
+          ...(startDate ? { startDate } : {})
+        }}
+        onLoad={handleLoadSavedSchedule}
+      />
+
+      <ReferenceImportModal
+        isOpen={showReferenceImportModal}
+        onClose={() => setShowReferenceImportModal(false)}
+        customReferences={customReferences}
+        onCustomReferencesChange={setCustomReferences}
+        onSelect={setReferenceCycleType}
+      />
+
+      <InventoryModal
+        isOpen={showInventoryModal}
+        onClose={() => setShowInventoryModal(false)}
+        vials={vials}
+        onVialsChange={setVials}
+        injectableMedications={injectableMedications}
+        esterConcentrations={esterConcentrations}
+        schedule={{ doses, scheduleLength, repeat: repeatSchedule, startDate }}
+        preferStock={optimizerSettings.preferStock}
+        onPreferStockChange={(preferStock) => setOptimizerSettings({ ...optimizerSettings, preferStock })}
+      />
+
+      <CustomMedicationsModal
+        isOpen={showCustomMedicationsModal}
+        onClose={() => setShowCustomMedicationsModal(false)}
+        medications={customMedications}
+        esterConcentrations={esterConcentrations}
+        onSave={handleSaveCustomMedication}
+        onDelete={handleDeleteCustomMedication}
+      />
+
+      <BloodworkModal
+        isOpen={showBloodworkModal}
+        onClose={() => setShowBloodworkModal(false)}
+        results={labResults}
+        onResultsChange={setLabResults}
+        doses={doses}
+        scheduleLength={scheduleLength}
+        repeatSchedule={repeatSchedule}
+        steadyState={steadyState}
+        onSavePersonalised={handleSavePersonalised}
+      />
+
+      <LabResultsModal
+        isOpen={showLabResultsModal}
+        onClose={() => setShowLabResultsModal(false)}
+        results={labResults}
+        onResultsChange={setLabResults}
+        comparisons={labComparisons}
+      />
+
       <footer style={{ marginTop: '40px', textAlign: 'center', color: '#666', fontSize: '14px' }}>
         <p>
           This calculator implements the pharmacokinetic model:
@@ -512,7 +1083,7 @@ function App() {
               Set the concentration (mg/mL) for each estradiol ester.
             </p>
 
-            {ESTRADIOL_ESTERS.map((ester) => (
+            {injectableMedications.map((ester) => (
               <div key={ester.name} style={{
                 display: 'flex',
                 alignItems: 'center',
@@ -564,6 +1135,45 @@ function App() {
               </div>
             ))}
 
+            <h3 style={mergeStyles(MODAL_STYLES.title, { marginTop: SPACING['4xl'] })}>Dose Display</h3>
+            <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+              Show injections as the volume to draw up. Volumes are rounded to the syringe's markings,
+              with the mg actually delivered shown alongside.
+            </p>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+              <label style={{ fontSize: TYPOGRAPHY.fontSize.base, fontWeight: TYPOGRAPHY.fontWeight.medium, flex: '1' }}>
+                Show injections in:
+              </label>
+              <select
+                aria-label="Dose display unit"
+                value={tempDoseDisplay.unit}
+                onChange={(e) => setTempDoseDisplay({ ...tempDoseDisplay, unit: e.target.value as DoseDisplayUnit })}
+                style={INPUT_STYLES.base}
+              >
+                {(Object.keys(DOSE_DISPLAY_UNIT_NAMES) as DoseDisplayUnit[]).map(unit => (
+                  <option key={unit} value={unit}>{DOSE_DISPLAY_UNIT_NAMES[unit]}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+              <label style={{ fontSize: TYPOGRAPHY.fontSize.base, fontWeight: TYPOGRAPHY.fontWeight.medium, flex: '1' }}>
+                Syringe resolution:
+              </label>
+              <select
+                aria-label="Syringe resolution"
+                value={tempDoseDisplay.syringeResolutionMl}
+                onChange={(e) => setTempDoseDisplay({ ...tempDoseDisplay, syringeResolutionMl: parseFloat(e.target.value) })}
+                disabled={tempDoseDisplay.unit === 'mg'}
+                style={INPUT_STYLES.base}
+              >
+                {SYRINGE_RESOLUTIONS_ML.map(resolution => (
+                  <option key={resolution} value={resolution}>
+                    {resolution} mL ({resolution * U100_UNITS_PER_ML} U)
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div style={{ display: 'flex', gap: SPACING.lg, marginTop: SPACING['4xl'] }}>
               <button
                 onClick={() => {
@@ -576,6 +1186,7 @@ function App() {
               <button
                 onClick={() => {
                   setEsterConcentrations(tempEsterConcentrations);
+                  setDoseDisplay(tempDoseDisplay);
                   setShowSettingsModal(false);
                 }}
                 style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { flex: 1 })}
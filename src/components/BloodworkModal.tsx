@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Dose } from '../data/estradiolEsters';
+import { EstradiolMedication, isEstradiolMedication } from '../types/medication';
+import { PKFitResult, fitPersonalParameters } from '../utils/pkFitting';
+import { LabResult } from '../utils/labResults';
+import { ESTRADIOL_UNITS, EstradiolUnit } from '../utils/units';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface BloodworkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  results: LabResult[]; // Shared with the lab results dialog; only estradiol results are shown and fitted
+  onResultsChange: (results: LabResult[]) => void;
+  doses: Dose[];
+  scheduleLength: number;
+  repeatSchedule: boolean;
+  steadyState: boolean;
+  onSavePersonalised: (medications: EstradiolMedication[], applyToSchedule: boolean) => void;
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.sm,
+  textAlign: 'left' as const
+};
+
+const BloodworkModal: React.FC<BloodworkModalProps> = ({
+  isOpen,
+  onClose,
+  results,
+  onResultsChange,
+  doses,
+  scheduleLength,
+  repeatSchedule,
+  steadyState,
+  onSavePersonalised
+}) => {
+  const [note, setNote] = useState('');
+  const [injectionDay, setInjectionDay] = useState('0');
+  const [hours, setHours] = useState('24');
+  const [value, setValue] = useState('');
+  const [unit, setUnit] = useState<EstradiolUnit>('pg/mL');
+  const [fitResult, setFitResult] = useState<PKFitResult | null>(null);
+
+  if (!isOpen) return null;
+
+  const hasInjections = doses.some(d => isEstradiolMedication(d.medication));
+  const draws = results.filter(r => r.hormone === 'estradiol');
+
+  const parsedDay = parseInt(injectionDay);
+  const parsedHours = parseFloat(hours);
+  const parsedValue = parseFloat(value);
+  const canAdd = !isNaN(parsedDay) && parsedDay >= 0 && !isNaN(parsedHours) && parsedHours >= 0 && parsedValue > 0;
+
+  const addDraw = () => {
+    if (!canAdd) return;
+    const draw: LabResult = {
+      id: `${Date.now().toString(36)}-${results.length}`,
+      day: parsedDay + parsedHours / 24,
+      hormone: 'estradiol',
+      value: parsedValue,
+      unit,
+      ...(note.trim() ? { note: note.trim() } : {})
+    };
+    onResultsChange([...results, draw].sort((a, b) => a.day - b.day));
+    setValue('');
+    setNote('');
+    setFitResult(null);
+  };
+
+  const removeDraw = (id: string) => {
+    onResultsChange(results.filter(r => r.id !== id));
+    setFitResult(null);
+  };
+
+  const handleClose = () => {
+    setFitResult(null);
+    onClose();
+  };
+
+  const runFit = () => {
+    setFitResult(fitPersonalParameters({
+      doses,
+      scheduleLength,
+      repeat: repeatSchedule,
+      steadyState,
+      results
+    }));
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={handleClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '600px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Bloodwork & Personal Fit</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Enter estradiol results measured while following the current schedule; they also appear under lab results.
+          The fit scales D, k1, k2 and k3 of the injected esters so the model matches your levels.
+        </p>
+
+        {draws.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const, marginBottom: SPACING['2xl'] }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Day</th>
+                <th style={cellStyle}>Result</th>
+                <th style={cellStyle}>Note</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draws.map(draw => (
+                <tr key={draw.id}>
+                  <td style={cellStyle}>{formatNumber(draw.day, 1)}</td>
+                  <td style={cellStyle}>{formatNumber(draw.value)} {draw.unit}</td>
+                  <td style={cellStyle}>{draw.note}</td>
+                  <td style={cellStyle}>
+                    <button
+                      onClick={() => removeDraw(draw.id)}
+                      style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                      title="Remove result"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, alignItems: 'flex-end', marginBottom: SPACING['2xl'] }}>
+          <label style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+            Injection day
+            <input
+              type="number"
+              min="0"
+              max={scheduleLength - 1}
+              value={injectionDay}
+              onChange={(e) => setInjectionDay(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' })}
+            />
+          </label>
+          <label style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+            Hours after
+            <input
+              type="number"
+              min="0"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' })}
+            />
+          </label>
+          <label style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+            Result
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.numberLarge, { display: 'block' })}
+            />
+          </label>
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as EstradiolUnit)}
+            style={INPUT_STYLES.base}
+          >
+            {ESTRADIOL_UNITS.map(u => (
+              <option key={u} value={u}>{u}</option>
+            ))}
+          </select>
+          <label style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+            Note
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. date of the draw"
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            />
+          </label>
+          <button
+            onClick={addDraw}
+            disabled={!canAdd}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, {
+              cursor: canAdd ? 'pointer' : 'not-allowed'
+            })}
+          >
+            Add
+          </button>
+        </div>
+
+        {!hasInjections && (
+          <div style={{ padding: SPACING.lg, backgroundColor: COLORS.warning, borderRadius: BORDER_RADIUS.sm, marginBottom: SPACING['2xl'] }}>
+            <span style={{ fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.warningText }}>
+              The current schedule has no injections to fit
+            </span>
+          </div>
+        )}
+
+        {fitResult && (
+          <div style={{ padding: SPACING.xl, backgroundColor: COLORS.parameterBackground, borderRadius: BORDER_RADIUS.md, marginBottom: SPACING['2xl'] }}>
+            <div style={{ fontSize: TYPOGRAPHY.fontSize.md, fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.parameterText, marginBottom: SPACING.md }}>
+              Fitted scaling: D ×{formatNumber(fitResult.scales.D, 2)}, k1 ×{formatNumber(fitResult.scales.k1, 2)},
+              k2 ×{formatNumber(fitResult.scales.k2, 2)}, k3 ×{formatNumber(fitResult.scales.k3, 2)}
+            </div>
+            <div style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.parameterText }}>
+              RMSE {formatNumber(fitResult.rmse, 1)} pg/mL · Mean error {formatNumber(fitResult.meanAbsolutePercentError, 1)}%
+              {fitResult.rSquared !== null && <> · R² {formatNumber(fitResult.rSquared, 2)}</>}
+              {!fitResult.converged && <> · did not fully converge</>}
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' as const, marginTop: SPACING.md }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Day</th>
+                  <th style={cellStyle}>Measured</th>
+                  <th style={cellStyle}>Fitted model</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fitResult.residuals.map(r => (
+                  <tr key={r.resultId}>
+                    <td style={cellStyle}>{formatNumber(r.time, 1)}</td>
+                    <td style={cellStyle}>{formatNumber(r.observed, 0)} pg/mL</td>
+                    <td style={cellStyle}>{formatNumber(r.predicted, 0)} pg/mL</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {draws.length < 3 && (
+              <div style={{ fontSize: TYPOGRAPHY.fontSize.xs, color: COLORS.gray600, marginTop: SPACING.md }}>
+                With fewer than three results the fit mostly adjusts overall level; add peak and trough draws for better rate constants.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: SPACING.lg, flexWrap: 'wrap' as const }}>
+          <button
+            onClick={handleClose}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1 })}
+          >
+            Close
+          </button>
+          {fitResult ? (
+            <>
+              <button
+                onClick={() => onSavePersonalised(fitResult.personalisedMedications, false)}
+                style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1 })}
+              >
+                Save personalised
+              </button>
+              <button
+                onClick={() => onSavePersonalised(fitResult.personalisedMedications, true)}
+                style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { flex: 1 })}
+              >
+                Save & use in schedule
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={runFit}
+              disabled={draws.length === 0 || !hasInjections}
+              style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, {
+                flex: 1,
+                backgroundColor: draws.length === 0 || !hasInjections ? COLORS.gray300 : COLORS.primary,
+                cursor: draws.length === 0 || !hasInjections ? 'not-allowed' : 'pointer'
+              })}
+            >
+              Fit parameters
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default BloodworkModal;
@@ -347,6 +347,49 @@ describe('ConcentrationGraph', () => {
     });
   });
 
+  describe('lab results', () => {
+    it('should show the lab results button with the number of results', () => {
+      const mockOnOpenLabResults = jest.fn();
+      const labComparisons = [{
+        result: { id: 'a', day: 2, hormone: 'estradiol' as const, value: 130, unit: 'pg/mL' as const },
+        observed: 130,
+        predicted: 120,
+        residual: 10
+      }];
+
+      render(
+        <ConcentrationGraph
+          data={sampleData}
+          viewDays={5}
+          onViewDaysChange={mockOnViewDaysChange}
+          referenceCycleType="typical"
+          onReferenceCycleTypeChange={mockOnReferenceCycleTypeChange}
+          labComparisons={labComparisons}
+          onOpenLabResults={mockOnOpenLabResults}
+          {...defaultProps}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Lab results (1)'));
+      expect(mockOnOpenLabResults).toHaveBeenCalled();
+    });
+
+    it('should hide the lab results button without a handler', () => {
+      render(
+        <ConcentrationGraph
+          data={sampleData}
+          viewDays={5}
+          onViewDaysChange={mockOnViewDaysChange}
+          referenceCycleType="typical"
+          onReferenceCycleTypeChange={mockOnReferenceCycleTypeChange}
+          {...defaultProps}
+        />
+      );
+
+      expect(screen.queryByText(/Lab results/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('responsive behavior', () => {
     it('should update when viewDays prop changes', () => {
       const { rerender } = render(
@@ -1,26 +1,56 @@
 import { useMemo } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
+  Scatter,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
 import { ConcentrationPoint } from '../utils/pharmacokinetics';
-import { generateReferenceCycle, ReferenceCycleType, REFERENCE_CYCLES } from '../data/referenceData';
+import {
+  DEFAULT_FLAT_TARGET,
+  FlatTarget,
+  findReferenceCycle,
+  getFlatTargetBounds,
+  getReferenceAt,
+  getReferenceRangeAt,
+  ReferenceCycleInfo,
+  ReferenceCycleType,
+  ReferenceRangePoint,
+  REFERENCE_CYCLES,
+  REFERENCE_PERCENTILE_CYCLES,
+  ReferenceTarget
+} from '../data/referenceData';
+import FlatTargetControls from './FlatTargetControls';
 import { useDebouncedInput } from '../hooks/useDebounce';
-import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, INPUT_STYLES, mergeStyles } from '../constants/styles';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, mergeStyles } from '../constants/styles';
 import { AnyMedication } from '../types/medication';
+import { LabComparison } from '../utils/labResults';
+import { PercentileBand } from '../utils/variability';
+import { HistoryPoint } from '../utils/doseLog';
+import { WhatIfPoint } from '../utils/whatIf';
+import { ComparisonSeries } from '../utils/scheduleComparison';
+import { dateForDay, daysSinceMonday, formatDayLabel, formatShortDate } from '../utils/dates';
 
 interface ConcentrationGraphProps {
   data: ConcentrationPoint[];
   viewDays: number;
   onViewDaysChange: (days: number) => void;
   referenceCycleType: ReferenceCycleType;
+  referenceCycleLength?: number; // Days to stretch or compress the reference cycle to
+  customReferenceCycles?: ReferenceCycleInfo[]; // Imported curves offered after the built-in ones
   onReferenceCycleTypeChange: (type: ReferenceCycleType) => void;
+  onOpenReferenceImport?: () => void;
+  referenceMode?: ReferenceTarget; // 'range' shades the 5th-95th percentile band, 'flat' a steady target
+  onReferenceModeChange?: (mode: ReferenceTarget) => void;
+  flatTarget?: FlatTarget;
+  onFlatTargetChange?: (target: FlatTarget) => void;
   optimizeMode: boolean;
   onOptimizeModeChange: (mode: boolean) => void;
   optimizerSettings: {
@@ -37,14 +67,76 @@ interface ConcentrationGraphProps {
   onBestFit: () => void;
   onStopBestFit: () => void;
   actualInjectionCount?: number;
+  labComparisons?: LabComparison[];
+  onOpenLabResults?: () => void;
+  variabilityBands?: PercentileBand[];
+  showVariability?: boolean;
+  onShowVariabilityChange?: (show: boolean) => void;
+  startDate?: string | null;
+  historySeries?: HistoryPoint[]; // Levels from the dose log, split into actual and projected
+  historyNowDay?: number | null;
+  whatIfSeries?: WhatIfPoint[]; // Curves for a simulated late or missed dose
+  comparisonSeries?: ComparisonSeries[]; // Pinned schedules overlaid for comparison
 }
 
+const REFERENCE_MODE_LABELS: Record<ReferenceTarget, string> = {
+  curve: 'Cycle',
+  range: 'Cycle range',
+  flat: 'Steady level'
+};
+
+const referenceSelectStyle = {
+  padding: `${SPACING.xs} ${SPACING.sm}`,
+  fontSize: TYPOGRAPHY.fontSize.base,
+  borderRadius: BORDER_RADIUS.sm,
+  border: `1px solid ${COLORS.gray400}`,
+  backgroundColor: COLORS.white,
+  cursor: 'pointer'
+};
+
+interface LabPointFields {
+  estradiolLab?: number;
+  estradiolLabResidual?: number;
+  estradiolLabNote?: string;
+  progesteroneLab?: number;
+  progesteroneLabResidual?: number;
+  progesteroneLabNote?: string;
+}
+
+// Props recharts passes to a scatter shape
+interface LabPointShapeProps {
+  cx?: number;
+  cy?: number;
+  payload?: LabPointFields;
+}
+
+/**
+ * Scatter shape that skips rows without a lab value, since lab points share the chart's rows
+ */
+const renderLabPoint = (color: string) => ({ cx, cy }: LabPointShapeProps) => {
+  if (cy == null || isNaN(cy)) return <g />;
+  return <circle cx={cx} cy={cy} r={5} fill={color} stroke={COLORS.white} strokeWidth={1.5} />;
+};
+
+const formatResidual = (residual: number, unit: string, format: (value: number) => number) =>
+  `${residual >= 0 ? '+' : '−'}${format(Math.abs(residual))} ${unit} vs model`;
+
+// Shared default, so the memoized chart rows aren't rebuilt on every render
+const EMPTY_CUSTOM_REFERENCES: ReferenceCycleInfo[] = [];
+
 const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
   data,
   viewDays,
   onViewDaysChange,
   referenceCycleType,
+  referenceCycleLength,
+  customReferenceCycles = EMPTY_CUSTOM_REFERENCES,
   onReferenceCycleTypeChange,
+  onOpenReferenceImport,
+  referenceMode = 'curve',
+  onReferenceModeChange,
+  flatTarget = DEFAULT_FLAT_TARGET,
+  onFlatTargetChange,
   optimizeMode,
   onOptimizeModeChange,
   optimizerSettings,
@@ -56,7 +148,17 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
   bestFitProgress,
   onBestFit,
   onStopBestFit,
-  actualInjectionCount
+  actualInjectionCount,
+  labComparisons = [],
+  onOpenLabResults,
+  variabilityBands = [],
+  showVariability = false,
+  onShowVariabilityChange,
+  startDate = null,
+  historySeries = [],
+  historyNowDay = null,
+  whatIfSeries = [],
+  comparisonSeries = []
 }) => {
   const [graphInputValue, setGraphInputValue] = useDebouncedInput(
     viewDays.toString(),
@@ -82,35 +184,137 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
     }
   };
 
-  const currentCycleInfo = REFERENCE_CYCLES.find(c => c.id === referenceCycleType);
+  const currentCycleInfo = findReferenceCycle(referenceCycleType, customReferenceCycles);
+  const showReferenceRange = referenceMode === 'range';
+  const displayedCycleInfo = showReferenceRange ? findReferenceCycle(REFERENCE_PERCENTILE_CYCLES.median) : currentCycleInfo;
+  const [flatMin, flatMax] = getFlatTargetBounds(flatTarget);
 
   const formatYAxisTick = (value: number) => {
     return formatNumber(value).toString();
   };
 
-  // Memoize reference cycle data generation
-  const referenceData = useMemo(
-    () => generateReferenceCycle(viewDays, referenceCycleType),
-    [viewDays, referenceCycleType]
-  );
-
   // Memoize filtered and combined data
   const combinedData = useMemo(() => {
     const filteredData = data.filter(point => point.time <= viewDays);
-    return filteredData.map((point) => {
-      const referencePoint = referenceData.find(r => r.day === Math.floor(point.time));
-      return {
+    const bandsByTime = new Map(
+      (showVariability ? variabilityBands : []).map(band => [band.time, band])
+    );
+    const historyByTime = new Map(historySeries.map(point => [point.time, point]));
+    const whatIfByTime = new Map(whatIfSeries.map(point => [point.time, point]));
+    const comparisonsByTime = comparisonSeries.map(series => ({
+      id: series.id,
+      pointsByTime: new Map(series.points.map(point => [point.time, point]))
+    }));
+    const rows = filteredData.map((point) => {
+      let referenceRange: Omit<ReferenceRangePoint, 'day'> | undefined;
+      if (referenceMode === 'flat') {
+        referenceRange = { estradiol: (flatMin + flatMax) / 2, estradiolRange: [flatMin, flatMax] };
+      } else if (showReferenceRange) {
+        referenceRange = getReferenceRangeAt(point.time, referenceCycleLength);
+      }
+      const referencePoint = referenceRange ?? (currentCycleInfo
+        ? getReferenceAt(point.time, referenceCycleType, referenceCycleLength, customReferenceCycles)
+        : undefined);
+      const band = bandsByTime.get(point.time);
+      const history = historyByTime.get(point.time);
+      const whatIf = whatIfByTime.get(point.time);
+      const row: LabPointFields & Partial<Omit<HistoryPoint, 'time'>> & Partial<Omit<WhatIfPoint, 'time'>> & {
+        time: number;
+        estradiol: number;
+        progesterone: number;
+        estrone: number;
+        estradiolReference: number | null;
+        progesteroneReference: number | null;
+        estradiolReferenceRange?: [number, number];
+        progesteroneReferenceRange?: [number, number];
+        estradiolRange90?: [number, number];
+        estradiolRange50?: [number, number];
+        comparisonEstradiol?: Record<string, number>; // Keyed by pinned schedule id
+        comparisonProgesterone?: Record<string, number>;
+      } = {
         time: point.time,
         estradiol: point.estradiolConcentration,
         progesterone: point.progesteroneConcentration,
+        estrone: point.estroneConcentration ?? 0,
         estradiolReference: referencePoint?.estradiol || null,
         progesteroneReference: referencePoint?.progesterone || null
       };
+      if (referenceRange) {
+        row.estradiolReferenceRange = referenceRange.estradiolRange;
+        row.progesteroneReferenceRange = referenceRange.progesteroneRange;
+      }
+      if (band) {
+        row.estradiolRange90 = [band.p5, band.p95];
+        row.estradiolRange50 = [band.p25, band.p75];
+      }
+      if (history) {
+        row.actualEstradiol = history.actualEstradiol;
+        row.projectedEstradiol = history.projectedEstradiol;
+        row.actualProgesterone = history.actualProgesterone;
+        row.projectedProgesterone = history.projectedProgesterone;
+      }
+      if (whatIf) {
+        row.perturbedEstradiol = whatIf.perturbedEstradiol;
+        row.correctedEstradiol = whatIf.correctedEstradiol;
+        row.perturbedProgesterone = whatIf.perturbedProgesterone;
+        row.correctedProgesterone = whatIf.correctedProgesterone;
+      }
+      comparisonsByTime.forEach(({ id, pointsByTime }) => {
+        const comparison = pointsByTime.get(point.time);
+        if (!comparison) return;
+        row.comparisonEstradiol = { ...row.comparisonEstradiol, [id]: comparison.estradiolConcentration };
+        row.comparisonProgesterone = { ...row.comparisonProgesterone, [id]: comparison.progesteroneConcentration };
+      });
+      return row;
     });
-  }, [data, viewDays, referenceData]);
+
+    // Attach each lab result to the nearest plotted time point
+    labComparisons.forEach(({ result, observed, residual }) => {
+      if (result.day > viewDays || rows.length === 0) return;
+      const nearest = rows.reduce((best, row) =>
+        Math.abs(row.time - result.day) < Math.abs(best.time - result.day) ? row : best
+      );
+      if (result.hormone === 'estradiol') {
+        nearest.estradiolLab = observed;
+        nearest.estradiolLabResidual = residual;
+        nearest.estradiolLabNote = result.note;
+      } else {
+        nearest.progesteroneLab = observed;
+        nearest.progesteroneLabResidual = residual;
+        nearest.progesteroneLabNote = result.note;
+      }
+    });
+
+    return rows;
+  }, [data, viewDays, referenceCycleType, referenceCycleLength, customReferenceCycles, currentCycleInfo, referenceMode, showReferenceRange, flatMin, flatMax, labComparisons, variabilityBands, showVariability, historySeries, whatIfSeries, comparisonSeries]);
+
+  const hasEstradiolLabs = combinedData.some(d => d.estradiolLab !== undefined);
+  const hasProgesteroneLabs = combinedData.some(d => d.progesteroneLab !== undefined);
+  const hasHistory = historySeries.length > 0;
+  const hasProgesteroneHistory = historySeries.some(p => p.actualProgesterone !== null);
+  const hasWhatIf = whatIfSeries.length > 0;
+  const hasWhatIfCorrection = whatIfSeries.some(p => p.correctedEstradiol !== null);
+  const hasProgesteroneWhatIf = whatIfSeries.some(p => p.perturbedProgesterone !== null);
+  const comparisonLines = comparisonSeries.map(series => ({
+    ...series,
+    hasProgesterone: series.points.some(p => p.progesteroneConcentration > 0)
+  }));
+
+  // Estrone is only produced by oral/sublingual estradiol, so hide the series otherwise
+  const hasEstrone = useMemo(() => combinedData.some(d => d.estrone > 0), [combinedData]);
 
   // Memoize X-axis tick generation
   const xTicks = useMemo(() => {
+    // Calendar mode: tick on Mondays so the axis lines up with real weeks
+    if (startDate) {
+      const weeks = viewDays <= 60 ? 1 : viewDays <= 180 ? 2 : 4;
+      const ticks = [];
+      for (let i = (7 - daysSinceMonday(startDate)) % 7; i <= viewDays; i += weeks * 7) {
+        ticks.push(i);
+      }
+      return ticks;
+    }
+
     let interval: number;
     if (viewDays <= 30) interval = 5;
     else if (viewDays <= 150) interval = 10;
@@ -125,13 +329,23 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
       ticks.push(viewDays);
     }
     return ticks;
-  }, [viewDays]);
+  }, [viewDays, startDate]);
+
+  const formatXAxisTick = (value: number) => {
+    const date = startDate ? dateForDay(startDate, value) : null;
+    return date ? formatShortDate(date) : String(value);
+  };
 
   // Memoize Y-axis ticks for estradiol (left axis)
   const estradiolYTicks = useMemo(() => {
     const maxConcentration = Math.max(
       ...combinedData.map(d => d.estradiol),
-      ...combinedData.map(d => d.estradiolReference || 0)
+      ...combinedData.map(d => d.estrone),
+      ...combinedData.map(d => d.estradiolReference || 0),
+      ...combinedData.map(d => d.estradiolLab || 0),
+      ...combinedData.map(d => d.estradiolRange90?.[1] || 0),
+      ...combinedData.map(d => d.estradiolReferenceRange?.[1] || 0),
+      ...combinedData.map(d => Math.max(d.actualEstradiol ?? 0, d.projectedEstradiol ?? 0))
     );
 
     const maxY = Math.ceil(maxConcentration / 50) * 50;
@@ -150,7 +364,10 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
   const progesteroneYTicks = useMemo(() => {
     const maxConcentration = Math.max(
       ...combinedData.map(d => d.progesterone),
-      ...combinedData.map(d => d.progesteroneReference || 0)
+      ...combinedData.map(d => d.progesteroneReference || 0),
+      ...combinedData.map(d => d.progesteroneReferenceRange?.[1] || 0),
+      ...combinedData.map(d => d.progesteroneLab || 0),
+      ...combinedData.map(d => Math.max(d.actualProgesterone ?? 0, d.projectedProgesterone ?? 0))
     );
 
     const maxY = Math.ceil(maxConcentration / 5) * 5;
@@ -204,29 +421,80 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
         </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.xl, flexWrap: 'wrap' as const }}>
+          {onShowVariabilityChange && (
+            <label
+              style={{ display: 'flex', alignItems: 'center', gap: SPACING.xs, fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600, cursor: 'pointer' }}
+              title="Simulate how estradiol levels vary between people on this schedule"
+            >
+              <input
+                type="checkbox"
+                checked={showVariability}
+                onChange={(e) => onShowVariabilityChange(e.target.checked)}
+              />
+              Population range
+            </label>
+          )}
+          {onOpenLabResults && (
+            <button
+              onClick={onOpenLabResults}
+              style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+              title="Enter measured hormone levels to plot against the model"
+            >
+              Lab results{labComparisons.length > 0 ? ` (${labComparisons.length})` : ''}
+            </button>
+          )}
           <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
             <label style={{ fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600 }}>
               Reference:
             </label>
-            <select
-              value={referenceCycleType}
-              onChange={(e) => onReferenceCycleTypeChange(e.target.value as ReferenceCycleType)}
-              style={{
-                padding: `${SPACING.xs} ${SPACING.sm}`,
-                fontSize: TYPOGRAPHY.fontSize.base,
-                borderRadius: BORDER_RADIUS.sm,
-                border: `1px solid ${COLORS.gray400}`,
-                backgroundColor: COLORS.white,
-                cursor: 'pointer'
-              }}
-              title={currentCycleInfo?.description}
-            >
-              {REFERENCE_CYCLES.map(cycle => (
-                <option key={cycle.id} value={cycle.id}>
-                  {cycle.name}
-                </option>
-              ))}
-            </select>
+            {onReferenceModeChange && (
+              <select
+                value={referenceMode}
+                onChange={(e) => onReferenceModeChange(e.target.value as ReferenceTarget)}
+                aria-label="Reference mode"
+                title="Match a cycle, stay within the natural 5th–95th percentile range, or hold a steady level; the optimizer aims for the same"
+                style={referenceSelectStyle}
+              >
+                {(Object.keys(REFERENCE_MODE_LABELS) as ReferenceTarget[]).map(mode => (
+                  <option key={mode} value={mode}>{REFERENCE_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            )}
+            {referenceMode === 'flat' && onFlatTargetChange && (
+              <FlatTargetControls target={flatTarget} onChange={onFlatTargetChange} />
+            )}
+            {referenceMode === 'curve' && (
+              <select
+                value={referenceCycleType}
+                onChange={(e) => onReferenceCycleTypeChange(e.target.value as ReferenceCycleType)}
+                style={referenceSelectStyle}
+                title={currentCycleInfo?.description}
+              >
+                {REFERENCE_CYCLES.map(cycle => (
+                  <option key={cycle.id} value={cycle.id}>
+                    {cycle.name}
+                  </option>
+                ))}
+                {customReferenceCycles.length > 0 && (
+                  <optgroup label="Imported">
+                    {customReferenceCycles.map(cycle => (
+                      <option key={cycle.id} value={cycle.id}>
+                        {cycle.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            )}
+            {referenceMode === 'curve' && onOpenReferenceImport && (
+              <button
+                onClick={onOpenReferenceImport}
+                style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                title="Import a reference curve from CSV"
+              >
+                Import…
+              </button>
+            )}
           </div>
           <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
             <label style={{ fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600 }}>
@@ -346,19 +614,33 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
         </div>
       )}
 
-      {currentCycleInfo && (
+      {referenceMode === 'flat' ? (
         <div style={{
           fontSize: TYPOGRAPHY.fontSize.sm,
           color: COLORS.gray600,
           marginBottom: SPACING.lg,
           fontStyle: 'italic'
         }}>
-          {currentCycleInfo.description} — Cycle Length: {currentCycleInfo.cycleLength} days — Source: {currentCycleInfo.source}
+          Steady estradiol {flatTarget.kind === 'average'
+            ? `averaging ${formatNumber(flatTarget.average)} pg/mL`
+            : `between ${formatNumber(flatMin)} and ${formatNumber(flatMax)} pg/mL`} with as little fluctuation as possible
+        </div>
+      ) : displayedCycleInfo && (
+        <div style={{
+          fontSize: TYPOGRAPHY.fontSize.sm,
+          color: COLORS.gray600,
+          marginBottom: SPACING.lg,
+          fontStyle: 'italic'
+        }}>
+          {showReferenceRange ? '5th–95th percentile range with the median' : displayedCycleInfo.description}
+          {' '}— Cycle Length: {referenceCycleLength ?? displayedCycleInfo.cycleLength} days
+          {referenceCycleLength !== undefined && referenceCycleLength !== displayedCycleInfo.cycleLength &&
+            ` (resized from ${displayedCycleInfo.cycleLength})`} — Source: {displayedCycleInfo.source}
         </div>
       )}
       
       <ResponsiveContainer width="100%" height={400}>
-        <LineChart
+        <ComposedChart
           data={combinedData}
           margin={{
             top: 20,
@@ -370,8 +652,9 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
           <CartesianGrid strokeDasharray="3 3" />
           <XAxis
             dataKey="time"
-            label={{ value: 'Time (days)', position: 'insideBottom' }}
+            label={{ value: startDate ? 'Date' : 'Time (days)', position: 'insideBottom' }}
             ticks={xTicks}
+            tickFormatter={formatXAxisTick}
             domain={[0, viewDays]}
           />
           {/* Left Y-axis for Estradiol (pg/mL) */}
@@ -392,18 +675,96 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
             ticks={progesteroneYTicks}
           />
           <Tooltip
-            formatter={(value, name) => {
+            formatter={(value, name, item) => {
+              if (Array.isArray(value)) {
+                const [low, high] = value as number[];
+                const unit = typeof name === 'string' && name.includes('Progesterone') ? 'ng/mL' : 'pg/mL';
+                return [`${formatNumber(low ?? 0)}–${formatNumber(high ?? 0)} ${unit}`, name];
+              }
               const numValue = typeof value === 'number' ? value : (typeof value === 'string' ? parseFloat(value) : 0);
               const nameStr = typeof name === 'string' ? name : '';
+              if (nameStr === 'Estradiol (lab)' || nameStr === 'Progesterone (lab)') {
+                const isEstradiol = nameStr === 'Estradiol (lab)';
+                const unit = isEstradiol ? 'pg/mL' : 'ng/mL';
+                const residual = isEstradiol ? item?.payload?.estradiolLabResidual : item?.payload?.progesteroneLabResidual;
+                const note = isEstradiol ? item?.payload?.estradiolLabNote : item?.payload?.progesteroneLabNote;
+                const details = [
+                  typeof residual === 'number' ? formatResidual(residual, unit, formatNumber) : null,
+                  note || null
+                ].filter(Boolean).join(', ');
+                return [`${formatNumber(numValue)} ${unit}${details ? ` (${details})` : ''}`, nameStr];
+              }
               if (nameStr.includes('Progesterone')) {
                 return [`${formatNumber(numValue)} ng/mL`, nameStr];
               }
+              if (nameStr === 'Estrone') {
+                const estradiol = item?.payload?.estradiol ?? 0;
+                const ratio = estradiol > 0 ? ` (E1:E2 ${(numValue / estradiol).toFixed(1)})` : '';
+                return [`${formatNumber(numValue)} pg/mL${ratio}`, nameStr];
+              }
               return [`${formatNumber(numValue)} pg/mL`, nameStr];
             }}
-            labelFormatter={(value) => `Day ${parseFloat(parseFloat(value as string).toFixed(1))}`}
+            labelFormatter={(value) => {
+              const day = parseFloat(parseFloat(value as string).toFixed(1));
+              return startDate ? `${formatDayLabel(day, startDate)} (day ${day})` : `Day ${day}`;
+            }}
           />
           <Legend />
 
+          {/* Population percentile ribbons, drawn behind the lines */}
+          {showVariability && variabilityBands.length > 0 && (
+            <>
+              <Area
+                yAxisId="estradiol"
+                type="monotone"
+                dataKey="estradiolRange90"
+                stroke="none"
+                fill={COLORS.chartPrimary}
+                fillOpacity={0.15}
+                name="Estradiol 5th–95th percentile"
+                isAnimationActive={false}
+              />
+              <Area
+                yAxisId="estradiol"
+                type="monotone"
+                dataKey="estradiolRange50"
+                stroke="none"
+                fill={COLORS.chartPrimary}
+                fillOpacity={0.3}
+                name="Estradiol 25th–75th percentile"
+                isAnimationActive={false}
+              />
+            </>
+          )}
+
+          {/* Natural cycle percentile band or steady target, behind the reference lines */}
+          {(showReferenceRange || referenceMode === 'flat') && (
+            <>
+              <Area
+                yAxisId="estradiol"
+                type="monotone"
+                dataKey="estradiolReferenceRange"
+                stroke="none"
+                fill={COLORS.chartReference}
+                fillOpacity={0.12}
+                name={showReferenceRange ? 'Estradiol reference 5th–95th percentile' : 'Estradiol target range'}
+                isAnimationActive={false}
+              />
+              {showReferenceRange && (
+                <Area
+                  yAxisId="progesterone"
+                  type="monotone"
+                  dataKey="progesteroneReferenceRange"
+                  stroke="none"
+                  fill="#c084fc"
+                  fillOpacity={0.12}
+                  name="Progesterone reference 5th–95th percentile"
+                  isAnimationActive={false}
+                />
+              )}
+            </>
+          )}
+
           {/* Estradiol lines (left axis) - disable animations */}
           <Line
             yAxisId="estradiol"
@@ -412,7 +773,8 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
             stroke={COLORS.chartPrimary}
             strokeWidth={2}
             dot={false}
-            name="Estradiol"
+            name={hasHistory ? 'Estradiol (plan)' : 'Estradiol'}
+            strokeOpacity={hasHistory ? 0.5 : 1}
             isAnimationActive={false}
           />
           <Line
@@ -423,10 +785,23 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
             strokeWidth={2}
             dot={false}
             strokeDasharray="5 5"
-            name="Estradiol Reference"
+            name={referenceMode === 'flat' ? 'Estradiol Target' : showReferenceRange ? 'Estradiol Reference (median)' : 'Estradiol Reference'}
             isAnimationActive={false}
           />
 
+          {hasEstrone && (
+            <Line
+              yAxisId="estradiol"
+              type="monotone"
+              dataKey="estrone"
+              stroke={COLORS.chartEstrone}
+              strokeWidth={1.5}
+              dot={false}
+              name="Estrone"
+              isAnimationActive={false}
+            />
+          )}
+
           {/* Progesterone lines (right axis) - disable animations */}
           <Line
             yAxisId="progesterone"
@@ -435,7 +810,8 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
             stroke="#9333ea"
             strokeWidth={2}
             dot={false}
-            name="Progesterone"
+            name={hasHistory ? 'Progesterone (plan)' : 'Progesterone'}
+            strokeOpacity={hasHistory ? 0.5 : 1}
             isAnimationActive={false}
           />
           <Line
@@ -446,10 +822,179 @@ const ConcentrationGraph: React.FC<ConcentrationGraphProps> = ({
             strokeWidth={2}
             dot={false}
             strokeDasharray="5 5"
-            name="Progesterone Reference"
+            name={showReferenceRange ? 'Progesterone Reference (median)' : 'Progesterone Reference'}
             isAnimationActive={false}
           />
-        </LineChart>
+
+          {/* Levels from the dose log: solid up to now, dashed projection from the plan */}
+          {hasHistory && (
+            <>
+              <Line
+                yAxisId="estradiol"
+                type="monotone"
+                dataKey="actualEstradiol"
+                stroke={COLORS.chartActualEstradiol}
+                strokeWidth={2.5}
+                dot={false}
+                connectNulls={false}
+                name="Estradiol (actual)"
+                isAnimationActive={false}
+              />
+              <Line
+                yAxisId="estradiol"
+                type="monotone"
+                dataKey="projectedEstradiol"
+                stroke={COLORS.chartActualEstradiol}
+                strokeWidth={2}
+                strokeDasharray="3 3"
+                dot={false}
+                connectNulls={false}
+                name="Estradiol (projected)"
+                isAnimationActive={false}
+              />
+            </>
+          )}
+          {hasProgesteroneHistory && (
+            <>
+              <Line
+                yAxisId="progesterone"
+                type="monotone"
+                dataKey="actualProgesterone"
+                stroke={COLORS.chartActualProgesterone}
+                strokeWidth={2.5}
+                dot={false}
+                connectNulls={false}
+                name="Progesterone (actual)"
+                isAnimationActive={false}
+              />
+              <Line
+                yAxisId="progesterone"
+                type="monotone"
+                dataKey="projectedProgesterone"
+                stroke={COLORS.chartActualProgesterone}
+                strokeWidth={2}
+                strokeDasharray="3 3"
+                dot={false}
+                connectNulls={false}
+                name="Progesterone (projected)"
+                isAnimationActive={false}
+              />
+            </>
+          )}
+          {/* Pinned schedules for comparison */}
+          {comparisonLines.map(series => (
+            <Line
+              key={`comparison-estradiol-${series.id}`}
+              yAxisId="estradiol"
+              type="monotone"
+              dataKey={(row: { comparisonEstradiol?: Record<string, number> }) => row.comparisonEstradiol?.[series.id]}
+              stroke={series.color}
+              strokeWidth={2}
+              dot={false}
+              name={`${series.name} (E2)`}
+              isAnimationActive={false}
+            />
+          ))}
+          {comparisonLines.filter(series => series.hasProgesterone).map(series => (
+            <Line
+              key={`comparison-progesterone-${series.id}`}
+              yAxisId="progesterone"
+              type="monotone"
+              dataKey={(row: { comparisonProgesterone?: Record<string, number> }) => row.comparisonProgesterone?.[series.id]}
+              stroke={series.color}
+              strokeWidth={1.5}
+              strokeDasharray="2 2"
+              dot={false}
+              name={`${series.name} (Progesterone)`}
+              isAnimationActive={false}
+            />
+          ))}
+
+          {/* What-if overlay: the disturbed schedule and the suggested correction */}
+          {hasWhatIf && (
+            <Line
+              yAxisId="estradiol"
+              type="monotone"
+              dataKey="perturbedEstradiol"
+              stroke={COLORS.chartWhatIf}
+              strokeWidth={2}
+              dot={false}
+              name="Estradiol (what if)"
+              isAnimationActive={false}
+            />
+          )}
+          {hasWhatIfCorrection && (
+            <Line
+              yAxisId="estradiol"
+              type="monotone"
+              dataKey="correctedEstradiol"
+              stroke={COLORS.chartWhatIfCorrected}
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              dot={false}
+              name="Estradiol (corrected)"
+              isAnimationActive={false}
+            />
+          )}
+          {hasProgesteroneWhatIf && (
+            <Line
+              yAxisId="progesterone"
+              type="monotone"
+              dataKey="perturbedProgesterone"
+              stroke={COLORS.chartWhatIf}
+              strokeWidth={1.5}
+              strokeOpacity={0.7}
+              dot={false}
+              name="Progesterone (what if)"
+              isAnimationActive={false}
+            />
+          )}
+          {hasProgesteroneWhatIf && hasWhatIfCorrection && (
+            <Line
+              yAxisId="progesterone"
+              type="monotone"
+              dataKey="correctedProgesterone"
+              stroke={COLORS.chartWhatIfCorrected}
+              strokeWidth={1.5}
+              strokeOpacity={0.7}
+              strokeDasharray="6 3"
+              dot={false}
+              name="Progesterone (corrected)"
+              isAnimationActive={false}
+            />
+          )}
+          {hasHistory && historyNowDay !== null && historyNowDay >= 0 && historyNowDay <= viewDays && (
+            <ReferenceLine
+              yAxisId="estradiol"
+              x={historyNowDay}
+              stroke={COLORS.gray500}
+              strokeDasharray="2 4"
+              label={{ value: 'Now', position: 'top', fill: COLORS.gray600, fontSize: 12 }}
+            />
+          )}
+
+          {/* Measured lab values */}
+          {hasEstradiolLabs && (
+            <Scatter
+              yAxisId="estradiol"
+              dataKey="estradiolLab"
+              name="Estradiol (lab)"
+              fill={COLORS.chartLabEstradiol}
+              shape={renderLabPoint(COLORS.chartLabEstradiol)}
+              isAnimationActive={false}
+            />
+          )}
+          {hasProgesteroneLabs && (
+            <Scatter
+              yAxisId="progesterone"
+              dataKey="progesteroneLab"
+              name="Progesterone (lab)"
+              fill={COLORS.chartLabProgesterone}
+              shape={renderLabPoint(COLORS.chartLabProgesterone)}
+              isAnimationActive={false}
+            />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
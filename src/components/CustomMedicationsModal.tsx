@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { AnyMedication, MedicationType, isEstradiolMedication } from '../types/medication';
+import {
+  CUSTOM_MEDICATION_PALETTE,
+  CUSTOM_MEDICATION_TYPE_LABELS,
+  MEDICATION_ROUTES,
+  PARAMETER_FIELDS,
+  createCustomMedicationTemplate,
+  validateCustomMedication
+} from '../utils/customMedications';
+import { getEsterColor } from '../constants/colors';
+import { DEFAULTS } from '../constants/pharmacokinetics';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface CustomMedicationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  medications: AnyMedication[];
+  esterConcentrations: Record<string, number>;
+  /**
+   * @param previousName - Name of the medication being edited, or null for a new one
+   * @param concentration - Default vial concentration (mg/mL) for injectables, otherwise null
+   */
+  onSave: (medication: AnyMedication, previousName: string | null, concentration: number | null) => void;
+  onDelete: (name: string) => void;
+}
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+
+const fieldInputStyle = mergeStyles(INPUT_STYLES.base, {
+  display: 'block',
+  width: '100%',
+  boxSizing: 'border-box' as const
+});
+
+const toInputs = (medication: AnyMedication): Record<string, string> => {
+  const values: Record<string, unknown> = { ...medication };
+  const inputs: Record<string, string> = {};
+  PARAMETER_FIELDS[medication.type].forEach(field => {
+    inputs[field.key] = String(values[field.key] ?? '');
+  });
+  return inputs;
+};
+
+const CustomMedicationsModal: React.FC<CustomMedicationsModalProps> = ({
+  isOpen,
+  onClose,
+  medications,
+  esterConcentrations,
+  onSave,
+  onDelete
+}) => {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AnyMedication>(() => createCustomMedicationTemplate(MedicationType.ESTRADIOL));
+  const [parameterInputs, setParameterInputs] = useState<Record<string, string>>(() => toInputs(draft));
+  const [color, setColor] = useState(CUSTOM_MEDICATION_PALETTE[0]!);
+  const [concentration, setConcentration] = useState(DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML.toString());
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const startNew = (type: MedicationType) => {
+    const template = createCustomMedicationTemplate(type);
+    setEditingName(null);
+    setDraft(template);
+    setParameterInputs(toInputs(template));
+    setColor(CUSTOM_MEDICATION_PALETTE[medications.length % CUSTOM_MEDICATION_PALETTE.length]!);
+    setConcentration(DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML.toString());
+    setError(null);
+  };
+
+  const startEdit = (medication: AnyMedication) => {
+    setEditingName(medication.name);
+    setDraft(medication);
+    setParameterInputs(toInputs(medication));
+    setColor(medication.color || getEsterColor(medication.name));
+    setConcentration((esterConcentrations[medication.name] ?? DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML).toString());
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const parameters: Record<string, number> = {};
+    PARAMETER_FIELDS[draft.type].forEach(field => {
+      parameters[field.key] = parseFloat(parameterInputs[field.key] || '');
+    });
+    const medication = { ...draft, ...parameters, name: draft.name.trim(), color } as AnyMedication;
+
+    const otherNames = medications.map(m => m.name).filter(name => name !== editingName);
+    const validationError = validateCustomMedication(medication, otherNames);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    let vialConcentration: number | null = null;
+    if (isEstradiolMedication(medication)) {
+      vialConcentration = parseFloat(concentration);
+      if (!(vialConcentration > 0)) {
+        setError('Vial concentration must be a positive number');
+        return;
+      }
+    }
+
+    onSave(medication, editingName, vialConcentration);
+    startNew(medication.type);
+  };
+
+  const routes = MEDICATION_ROUTES[draft.type];
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '560px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Custom Medications</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Define medications with your own pharmacokinetic parameters. They can be used in the schedule,
+          the optimizer and shared links.
+        </p>
+
+        {medications.length > 0 && (
+          <div style={{ marginBottom: SPACING['2xl'] }}>
+            {medications.map(medication => (
+              <div
+                key={medication.name}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: SPACING.md,
+                  padding: SPACING.md,
+                  marginBottom: SPACING.sm,
+                  borderRadius: BORDER_RADIUS.sm,
+                  backgroundColor: medication.name === editingName ? '#f0e6ff' : COLORS.gray50
+                }}
+              >
+                <span style={{
+                  width: '14px',
+                  height: '14px',
+                  borderRadius: BORDER_RADIUS.sm,
+                  backgroundColor: medication.color || getEsterColor(medication.name),
+                  flexShrink: 0
+                }} />
+                <span style={{ flex: 1, fontSize: TYPOGRAPHY.fontSize.base }}>
+                  {medication.name}
+                  <span style={{ color: COLORS.gray500, fontSize: TYPOGRAPHY.fontSize.sm }}>
+                    {' '}· {CUSTOM_MEDICATION_TYPE_LABELS[medication.type]}
+                  </span>
+                </span>
+                <button
+                  onClick={() => startEdit(medication)}
+                  style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    onDelete(medication.name);
+                    if (medication.name === editingName) startNew(draft.type);
+                  }}
+                  style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                  title="Delete medication"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <h4 style={{ margin: `0 0 ${SPACING.lg} 0`, fontSize: TYPOGRAPHY.fontSize.lg }}>
+          {editingName ? `Edit ${editingName}` : 'New medication'}
+        </h4>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: SPACING.md, marginBottom: SPACING.lg }}>
+          <label style={labelStyle}>
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              style={fieldInputStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Type
+            <select
+              value={draft.type}
+              onChange={(e) => startNew(e.target.value as MedicationType)}
+              disabled={editingName !== null}
+              style={fieldInputStyle}
+            >
+              {Object.values(MedicationType).map(type => (
+                <option key={type} value={type}>{CUSTOM_MEDICATION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          {routes && 'route' in draft && (
+            <label style={labelStyle}>
+              Route
+              <select
+                value={draft.route}
+                onChange={(e) => setDraft({ ...draft, route: e.target.value } as AnyMedication)}
+                style={fieldInputStyle}
+              >
+                {routes.map(route => (
+                  <option key={route} value={route}>{route}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {PARAMETER_FIELDS[draft.type].map(field => (
+            <label key={field.key} style={labelStyle}>
+              {field.label}
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={parameterInputs[field.key] ?? ''}
+                onChange={(e) => setParameterInputs({ ...parameterInputs, [field.key]: e.target.value })}
+                style={fieldInputStyle}
+              />
+            </label>
+          ))}
+          {draft.type === MedicationType.ESTRADIOL && (
+            <label style={labelStyle}>
+              Vial concentration (mg/mL)
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={concentration}
+                onChange={(e) => setConcentration(e.target.value)}
+                style={fieldInputStyle}
+              />
+            </label>
+          )}
+          <label style={labelStyle}>
+            Colour
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              style={mergeStyles(fieldInputStyle, { height: '34px', padding: SPACING.xs })}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div style={{ color: COLORS.danger, fontSize: TYPOGRAPHY.fontSize.sm, marginBottom: SPACING.lg }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: SPACING.md }}>
+          {editingName && (
+            <button
+              onClick={() => startNew(draft.type)}
+              style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary)}
+            >
+              Cancel edit
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1 })}
+          >
+            {editingName ? 'Save changes' : 'Add medication'}
+          </button>
+          <button
+            onClick={onClose}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { flex: 1 })}
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CustomMedicationsModal;
@@ -218,4 +218,69 @@ describe('DoseEditor', () => {
       expect(screen.getByDisplayValue('4.5')).toBeInTheDocument();
     });
   });
+
+  describe('what-if simulation', () => {
+    const renderEditor = (onWhatIfChange?: jest.Mock) => render(
+      <DoseEditor
+        selectedDoseData={testDose}
+        selectedDoseIndex={2}
+        dosesOnSameDay={1}
+        onUpdateDoseMedication={mockOnUpdateDoseMedication}
+        onUpdateDoseAmount={mockOnUpdateDoseAmount}
+        onRemoveDose={mockOnRemoveDose}
+        onClose={mockOnClose}
+        onWhatIfChange={onWhatIfChange}
+      />
+    );
+
+    it('should hide the what-if control when simulation is unavailable', () => {
+      renderEditor();
+
+      expect(screen.queryByLabelText('What if this dose is')).not.toBeInTheDocument();
+    });
+
+    it('should report late and missed scenarios for the selected dose', () => {
+      const onWhatIfChange = jest.fn();
+      renderEditor(onWhatIfChange);
+
+      const select = screen.getByLabelText('What if this dose is');
+      fireEvent.change(select, { target: { value: 'late-3' } });
+      expect(onWhatIfChange).toHaveBeenLastCalledWith({ doseIndex: 2, kind: 'late', delayDays: 3 });
+
+      fireEvent.change(select, { target: { value: 'missed' } });
+      expect(onWhatIfChange).toHaveBeenLastCalledWith({ doseIndex: 2, kind: 'missed', delayDays: 0 });
+    });
+  });
+
+  describe('volume display', () => {
+    const renderEditor = (dose: number) => render(
+      <DoseEditor
+        selectedDoseData={{ ...testDose, dose }}
+        selectedDoseIndex={0}
+        dosesOnSameDay={1}
+        onUpdateDoseMedication={mockOnUpdateDoseMedication}
+        onUpdateDoseAmount={mockOnUpdateDoseAmount}
+        onRemoveDose={mockOnRemoveDose}
+        onClose={mockOnClose}
+        esterConcentrations={{ 'Estradiol valerate': 40 }}
+        doseDisplay={{ unit: 'units', syringeResolutionMl: 0.01 }}
+      />
+    );
+
+    it('should enter injections in syringe units and store mg', () => {
+      renderEditor(6);
+
+      const input = screen.getByLabelText('Dose volume');
+      expect(input).toHaveValue(15);
+
+      fireEvent.change(input, { target: { value: '20' } });
+      expect(mockOnUpdateDoseAmount).toHaveBeenCalledWith(0, 8);
+    });
+
+    it('should show the mg delivered when the syringe rounds the dose', () => {
+      renderEditor(6.1);
+
+      expect(screen.getByText(/this delivers 6 mg/)).toBeInTheDocument();
+    });
+  });
 });
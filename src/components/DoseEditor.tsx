@@ -1,6 +1,23 @@
 import { Dose, ESTRADIOL_ESTERS } from '../data/estradiolEsters';
 import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+import { TRANSDERMAL_PATCHES, PATCH_STRENGTHS } from '../data/transdermalPatches';
+import { ORAL_ESTRADIOL_ROUTES } from '../data/oralEstradiolRoutes';
+import { AnyMedication, getDoseUnit, isTransdermalMedication } from '../types/medication';
 import { formatNumber } from '../utils/formatters';
+import { formatDayLabel } from '../utils/dates';
+import { WhatIfScenario } from '../utils/whatIf';
+import {
+  DoseDisplaySettings,
+  DEFAULT_DOSE_DISPLAY,
+  formatDisplayedDose,
+  getConcentration,
+  getDisplayedDose,
+  getSyringeStep,
+  isRoundedDose,
+  mgToVolume,
+  showsVolume,
+  volumeToMg
+} from '../utils/doseUnits';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS, BUTTON_STYLES, INPUT_STYLES, mergeStyles } from '../constants/styles';
 
 interface DoseEditorProps {
@@ -12,8 +29,21 @@ interface DoseEditorProps {
   onRemoveDose: (index: number) => void;
   onClose: () => void;
   isPopover?: boolean;
+  customMedications?: AnyMedication[];
+  startDate?: string | null;
+  whatIfScenario?: WhatIfScenario | null; // Scenario for this dose, if any
+  onWhatIfChange?: (scenario: WhatIfScenario | null) => void; // Only available for steady-state schedules
+  esterConcentrations?: Record<string, number>;
+  doseDisplay?: DoseDisplaySettings; // Injections are entered as a volume unless this is mg
 }
 
+const WHAT_IF_MAX_DELAY_DAYS = 7;
+
+const getWhatIfValue = (scenario: WhatIfScenario | null) => {
+  if (!scenario) return 'on-time';
+  return scenario.kind === 'missed' ? 'missed' : `late-${scenario.delayDays}`;
+};
+
 const DoseEditor: React.FC<DoseEditorProps> = ({
   selectedDoseData,
   selectedDoseIndex,
@@ -22,7 +52,13 @@ const DoseEditor: React.FC<DoseEditorProps> = ({
   onUpdateDoseAmount,
   onRemoveDose,
   onClose,
-  isPopover = false
+  isPopover = false,
+  customMedications = [],
+  startDate = null,
+  whatIfScenario = null,
+  onWhatIfChange,
+  esterConcentrations = {},
+  doseDisplay = DEFAULT_DOSE_DISPLAY
 }) => {
   const popoverStyle = isPopover ? {
     position: 'absolute' as const,
@@ -34,6 +70,14 @@ const DoseEditor: React.FC<DoseEditorProps> = ({
     maxWidth: '90vw'
   } : {};
 
+  const medication = selectedDoseData ? (selectedDoseData.medication || selectedDoseData.ester) : null;
+  const isPatch = !!medication && 'type' in medication && isTransdermalMedication(medication);
+  const doseUnit = medication && 'type' in medication ? getDoseUnit(medication) : 'mg';
+  const concentration = medication ? getConcentration(esterConcentrations, medication.name) : 0;
+  const volumeDisplay = selectedDoseData && medication && 'type' in medication && showsVolume(medication, doseDisplay)
+    ? getDisplayedDose(selectedDoseData.dose, medication, concentration, doseDisplay)
+    : null;
+
   return (
     <>
       {isPopover && (
@@ -64,7 +108,8 @@ const DoseEditor: React.FC<DoseEditorProps> = ({
         {selectedDoseData && selectedDoseIndex !== null ? (
         <>
           <h4 style={{ margin: `0 0 ${SPACING['2xl']} 0`, fontSize: TYPOGRAPHY.fontSize.lg, fontWeight: TYPOGRAPHY.fontWeight.semibold }}>
-            Edit Injection - Day {selectedDoseData.day}
+            {isPatch ? 'Edit Patch' : 'Edit Injection'} - Day {selectedDoseData.day}
+            {startDate && ` (${formatDayLabel(selectedDoseData.day, startDate)})`}
             {dosesOnSameDay > 1 && <span style={{ fontSize: TYPOGRAPHY.fontSize.md, color: COLORS.gray600, marginLeft: SPACING.sm }}>({dosesOnSameDay} medications on this day)</span>}
           </h4>
 
@@ -89,6 +134,20 @@ const DoseEditor: React.FC<DoseEditorProps> = ({
                   </option>
                 ))}
               </optgroup>
+              <optgroup label="Transdermal Patches">
+                {TRANSDERMAL_PATCHES.map((patch) => (
+                  <option key={patch.name} value={patch.name}>
+                    {patch.name}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Oral & Sublingual Estradiol">
+                {ORAL_ESTRADIOL_ROUTES.map((oral) => (
+                  <option key={oral.name} value={oral.name}>
+                    {oral.name}
+                  </option>
+                ))}
+              </optgroup>
               <optgroup label="Progesterone">
                 {PROGESTERONE_ROUTES.map((prog) => (
                   <option key={prog.name} value={prog.name}>
@@ -96,25 +155,112 @@ const DoseEditor: React.FC<DoseEditorProps> = ({
                   </option>
                 ))}
               </optgroup>
+              {customMedications.length > 0 && (
+                <optgroup label="Personalised & Custom">
+                  {customMedications.map((custom) => (
+                    <option key={custom.name} value={custom.name}>
+                      {custom.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
 
           <div style={{ marginBottom: SPACING['2xl'] }}>
-            <label style={{ display: 'block', marginBottom: SPACING.md, fontWeight: TYPOGRAPHY.fontWeight.semibold, fontSize: TYPOGRAPHY.fontSize.md }}>Dose (mg):</label>
-            <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.md }}>
-              <input
-                type="number"
-                value={formatNumber(selectedDoseData.dose)}
-                onChange={(e) => onUpdateDoseAmount(selectedDoseIndex, parseFloat(e.target.value) || 0)}
-                step="0.1"
-                min="0"
-                max="20"
-                style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.numberLarge)}
-              />
-              <span style={{ color: COLORS.gray600, fontSize: TYPOGRAPHY.fontSize.md }}>mg</span>
-            </div>
+            <label style={{ display: 'block', marginBottom: SPACING.md, fontWeight: TYPOGRAPHY.fontWeight.semibold, fontSize: TYPOGRAPHY.fontSize.md }}>
+              {isPatch ? 'Strength' : 'Dose'} ({volumeDisplay ? volumeDisplay.unit : doseUnit}):
+            </label>
+            {volumeDisplay ? (
+              <>
+                <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.md }}>
+                  <input
+                    type="number"
+                    aria-label="Dose volume"
+                    value={formatNumber(mgToVolume(selectedDoseData.dose, doseDisplay.unit, concentration), 3)}
+                    onChange={(e) => onUpdateDoseAmount(
+                      selectedDoseIndex,
+                      volumeToMg(parseFloat(e.target.value) || 0, doseDisplay.unit, concentration)
+                    )}
+                    step={getSyringeStep(doseDisplay)}
+                    min="0"
+                    style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.numberLarge)}
+                  />
+                  <span style={{ color: COLORS.gray600, fontSize: TYPOGRAPHY.fontSize.md }}>
+                    {volumeDisplay.unit} = {formatNumber(selectedDoseData.dose)} mg @ {concentration} mg/mL
+                  </span>
+                </div>
+                {isRoundedDose(volumeDisplay, selectedDoseData.dose) && (
+                  <div style={{ marginTop: SPACING.sm, fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.warningText }}>
+                    Drawn up as {formatDisplayedDose(volumeDisplay)}, this delivers {formatNumber(volumeDisplay.effectiveMg)} mg
+                  </div>
+                )}
+              </>
+            ) : (
+              <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.md }}>
+                <input
+                  type="number"
+                  value={formatNumber(selectedDoseData.dose)}
+                  onChange={(e) => onUpdateDoseAmount(selectedDoseIndex, parseFloat(e.target.value) || 0)}
+                  step={isPatch ? '12.5' : '0.1'}
+                  min="0"
+                  max={isPatch ? '400' : '20'}
+                  style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.numberLarge)}
+                />
+                <span style={{ color: COLORS.gray600, fontSize: TYPOGRAPHY.fontSize.md }}>{doseUnit}</span>
+              </div>
+            )}
+            {isPatch && medication && isTransdermalMedication(medication) && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.xs, marginTop: SPACING.md, flexWrap: 'wrap' as const }}>
+                {PATCH_STRENGTHS.map(strength => (
+                  <button
+                    key={strength}
+                    onClick={() => onUpdateDoseAmount(selectedDoseIndex, strength)}
+                    style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.small, BUTTON_STYLES.secondary, {
+                      fontWeight: selectedDoseData.dose === strength ? TYPOGRAPHY.fontWeight.semibold : TYPOGRAPHY.fontWeight.normal
+                    })}
+                  >
+                    {strength}
+                  </button>
+                ))}
+                <span style={{ color: COLORS.gray600, fontSize: TYPOGRAPHY.fontSize.sm, marginLeft: SPACING.sm }}>
+                  Worn for {formatNumber(medication.wearDays)} days
+                </span>
+              </div>
+            )}
           </div>
 
+          {onWhatIfChange && (
+            <div style={{ marginBottom: SPACING['2xl'] }}>
+              <label style={{ display: 'block', marginBottom: SPACING.md, fontWeight: TYPOGRAPHY.fontWeight.semibold, fontSize: TYPOGRAPHY.fontSize.md }}>
+                What if this dose is:
+              </label>
+              <select
+                aria-label="What if this dose is"
+                value={getWhatIfValue(whatIfScenario)}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value === 'on-time') {
+                    onWhatIfChange(null);
+                  } else if (value === 'missed') {
+                    onWhatIfChange({ doseIndex: selectedDoseIndex, kind: 'missed', delayDays: 0 });
+                  } else {
+                    onWhatIfChange({ doseIndex: selectedDoseIndex, kind: 'late', delayDays: parseInt(value.replace('late-', ''), 10) });
+                  }
+                }}
+                style={mergeStyles(INPUT_STYLES.base, { width: '100%' })}
+              >
+                <option value="on-time">Taken on time</option>
+                {Array.from({ length: WHAT_IF_MAX_DELAY_DAYS }, (_, i) => i + 1).map(days => (
+                  <option key={days} value={`late-${days}`}>
+                    Taken {days} day{days > 1 ? 's' : ''} late
+                  </option>
+                ))}
+                <option value="missed">Missed</option>
+              </select>
+            </div>
+          )}
+
           <div style={{ display: 'flex', gap: SPACING.md }}>
             <button
               onClick={onClose}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { Dose } from '../data/estradiolEsters';
+import { ALL_MEDICATIONS, findMedicationByName } from '../data/medications';
+import { AnyMedication, getDoseUnit } from '../types/medication';
+import { LoggedDose, logPlannedDoses } from '../utils/doseLog';
+import { formatDayLabel, daysBetween, todayISODate } from '../utils/dates';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface DoseLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  log: LoggedDose[];
+  onLogChange: (log: LoggedDose[]) => void;
+  startDate: string | null;
+  onStartDateChange: (startDate: string) => void;
+  plannedToday: Dose[]; // Planned doses for today, for quick logging
+  customMedications?: AnyMedication[];
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.sm,
+  textAlign: 'left' as const
+};
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+const parseHours = (value: string): number | undefined => {
+  const [h, m] = value.split(':').map(Number);
+  return h === undefined || m === undefined || isNaN(h) || isNaN(m) ? undefined : h + m / 60;
+};
+
+const sortLog = (log: LoggedDose[]) =>
+  [...log].sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? 0) - (b.time ?? 0));
+
+const DoseLogModal: React.FC<DoseLogModalProps> = ({
+  isOpen,
+  onClose,
+  log,
+  onLogChange,
+  startDate,
+  onStartDateChange,
+  plannedToday,
+  customMedications = []
+}) => {
+  const [date, setDate] = useState(todayISODate());
+  const [time, setTime] = useState('');
+  const [medicationName, setMedicationName] = useState(ALL_MEDICATIONS[1]!.name);
+  const [dose, setDose] = useState('');
+  const [note, setNote] = useState('');
+
+  if (!isOpen) return null;
+
+  const medications = [...ALL_MEDICATIONS, ...customMedications];
+  const medication = findMedicationByName(medicationName, customMedications);
+  const parsedDose = parseFloat(dose);
+  const canAdd = !!medication && !!date && parsedDose > 0;
+
+  const addEntry = () => {
+    if (!canAdd || !medication) return;
+    const hours = parseHours(time);
+    const entry: LoggedDose = {
+      id: `${Date.now().toString(36)}-${log.length}`,
+      date,
+      ...(hours !== undefined ? { time: hours } : {}),
+      dose: parsedDose,
+      medication,
+      ...(note.trim() ? { note: note.trim() } : {})
+    };
+    onLogChange(sortLog([...log, entry]));
+    setDose('');
+    setNote('');
+  };
+
+  const logToday = () => {
+    if (!startDate) return;
+    const today = todayISODate();
+    const day = daysBetween(startDate, today);
+    if (day === null) return;
+    onLogChange(sortLog([...log, ...logPlannedDoses(plannedToday, day, today)]));
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '680px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Dose Log</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Record doses as you actually take them. The graph then shows levels from your history up to now,
+          continuing with the planned schedule.
+        </p>
+
+        {!startDate && (
+          <div style={{
+            padding: SPACING.lg,
+            marginBottom: SPACING['2xl'],
+            backgroundColor: COLORS.gray50,
+            fontSize: TYPOGRAPHY.fontSize.sm,
+            color: COLORS.gray700
+          }}>
+            The log needs a schedule start date to place doses on the graph.{' '}
+            <button
+              onClick={() => onStartDateChange(todayISODate())}
+              style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+            >
+              Start schedule today
+            </button>
+          </div>
+        )}
+
+        {log.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const, marginBottom: SPACING['2xl'] }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Date</th>
+                <th style={cellStyle}>Time</th>
+                <th style={cellStyle}>Medication</th>
+                <th style={cellStyle}>Dose</th>
+                <th style={cellStyle}>Note</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.map(entry => {
+                const day = startDate ? daysBetween(startDate, entry.date) : null;
+                return (
+                  <tr key={entry.id}>
+                    <td style={cellStyle}>{day !== null ? formatDayLabel(day, startDate) : entry.date}</td>
+                    <td style={cellStyle}>{entry.time !== undefined ? formatHours(entry.time) : '—'}</td>
+                    <td style={cellStyle}>{entry.medication.name}</td>
+                    <td style={cellStyle}>{formatNumber(entry.dose)} {getDoseUnit(entry.medication)}</td>
+                    <td style={cellStyle}>{entry.note}</td>
+                    <td style={cellStyle}>
+                      <button
+                        onClick={() => onLogChange(log.filter(e => e.id !== entry.id))}
+                        style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                        title="Remove entry"
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {startDate && plannedToday.length > 0 && (
+          <button
+            onClick={logToday}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { marginBottom: SPACING.lg })}
+          >
+            Log today's planned dose{plannedToday.length > 1 ? 's' : ''} as taken
+          </button>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, alignItems: 'flex-end', marginBottom: SPACING['2xl'] }}>
+          <label style={labelStyle}>
+            Date
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            />
+          </label>
+          <label style={labelStyle}>
+            Time
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            />
+          </label>
+          <label style={labelStyle}>
+            Medication
+            <select
+              value={medicationName}
+              onChange={(e) => setMedicationName(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              {medications.map(m => (
+                <option key={m.name} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Dose ({medication ? getDoseUnit(medication) : 'mg'})
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={dose}
+              onChange={(e) => setDose(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' })}
+            />
+          </label>
+          <label style={mergeStyles(labelStyle, { flex: 1, minWidth: '120px' })}>
+            Note
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. late, missed"
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block', width: '100%', boxSizing: 'border-box' as const })}
+            />
+          </label>
+          <button
+            onClick={addEntry}
+            disabled={!canAdd}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, {
+              cursor: canAdd ? 'pointer' : 'not-allowed'
+            })}
+          >
+            Add
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { width: '100%' })}
+        >
+          Done
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default DoseLogModal;
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { FlatTarget, getFlatTargetBounds } from '../data/referenceData';
+import { COLORS, TYPOGRAPHY, SPACING, INPUT_STYLES, mergeStyles } from '../constants/styles';
+
+interface FlatTargetControlsProps {
+  target: FlatTarget;
+  onChange: (target: FlatTarget) => void;
+}
+
+const levelInputStyle = mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { width: '70px' });
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600 };
+
+/**
+ * Band or average for a steady estradiol goal. Edits are kept locally until they form a valid target.
+ */
+const FlatTargetControls: React.FC<FlatTargetControlsProps> = ({ target, onChange }) => {
+  const [min, max] = getFlatTargetBounds(target);
+  const [inputs, setInputs] = useState({ min: String(min), max: String(max) });
+
+  useEffect(() => {
+    setInputs({ min: String(min), max: String(max) });
+  }, [min, max]);
+
+  const update = (field: 'min' | 'max', value: string) => {
+    const next = { ...inputs, [field]: value };
+    setInputs(next);
+
+    const low = parseFloat(next.min);
+    const high = parseFloat(next.max);
+    if (target.kind === 'average') {
+      if (low > 0) onChange({ kind: 'average', average: low });
+    } else if (low > 0 && high >= low) {
+      onChange({ kind: 'range', min: low, max: high });
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
+      <select
+        value={target.kind}
+        onChange={(e) => onChange(e.target.value === 'average'
+          ? { kind: 'average', average: (min + max) / 2 }
+          : { kind: 'range', min: min * 0.75, max: max * 1.25 })}
+        aria-label="Steady target type"
+        style={INPUT_STYLES.base}
+      >
+        <option value="range">Between</option>
+        <option value="average">Average</option>
+      </select>
+      <input
+        type="number"
+        min="1"
+        value={inputs.min}
+        onChange={(e) => update('min', e.target.value)}
+        aria-label={target.kind === 'average' ? 'Target average' : 'Target minimum'}
+        style={levelInputStyle}
+      />
+      {target.kind === 'range' && (
+        <>
+          <span style={labelStyle}>–</span>
+          <input
+            type="number"
+            min="1"
+            value={inputs.max}
+            onChange={(e) => update('max', e.target.value)}
+            aria-label="Target maximum"
+            style={levelInputStyle}
+          />
+        </>
+      )}
+      <span style={labelStyle}>pg/mL</span>
+    </div>
+  );
+};
+
+export default FlatTargetControls;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { ScheduleChange, ScheduleChangeKind } from '../utils/scheduleDiff';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS, BUTTON_STYLES, mergeStyles } from '../constants/styles';
+
+interface HistoryControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  lastChanges: ScheduleChange[]; // What the most recent edit changed, i.e. what undo reverts
+}
+
+const CHANGE_MARKERS: Record<ScheduleChangeKind, { symbol: string; color: string }> = {
+  added: { symbol: '+', color: COLORS.success },
+  removed: { symbol: '−', color: COLORS.danger },
+  changed: { symbol: '~', color: COLORS.warningText },
+  setting: { symbol: '•', color: COLORS.gray600 }
+};
+
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({ canUndo, canRedo, onUndo, onRedo, lastChanges }) => {
+  const [showChanges, setShowChanges] = useState(false);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const buttonStyle = (enabled: boolean) => mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.small, BUTTON_STYLES.secondary, {
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5
+  });
+
+  return (
+    <div style={{ position: 'relative', display: 'flex', gap: SPACING.xs }}>
+      <button onClick={onUndo} disabled={!canUndo} style={buttonStyle(canUndo)} title="Undo (Ctrl+Z)" aria-label="Undo">
+        ↶
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} style={buttonStyle(canRedo)} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+        ↷
+      </button>
+      {canUndo && lastChanges.length > 0 && (
+        <button
+          onClick={() => setShowChanges(!showChanges)}
+          style={buttonStyle(true)}
+          title="Show what the last edit changed"
+        >
+          Changes ({lastChanges.length})
+        </button>
+      )}
+
+      {showChanges && canUndo && lastChanges.length > 0 && (
+        <div style={{
+          position: 'absolute' as const,
+          top: '100%',
+          left: 0,
+          marginTop: SPACING.xs,
+          padding: SPACING.lg,
+          minWidth: '260px',
+          maxHeight: '240px',
+          overflowY: 'auto' as const,
+          backgroundColor: COLORS.white,
+          border: `1px solid ${COLORS.gray300}`,
+          borderRadius: BORDER_RADIUS.md,
+          boxShadow: SHADOWS.lg,
+          zIndex: Z_INDEX.MODAL_CONTENT,
+          fontSize: TYPOGRAPHY.fontSize.sm
+        }}>
+          <div style={{ fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.gray700, marginBottom: SPACING.sm }}>
+            Last edit
+          </div>
+          {lastChanges.map((change, index) => (
+            <div key={index} style={{ display: 'flex', gap: SPACING.sm, color: CHANGE_MARKERS[change.kind].color, fontFamily: 'monospace' }}>
+              <span>{CHANGE_MARKERS[change.kind].symbol}</span>
+              <span>{change.description}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryControls;
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Dose } from '../data/estradiolEsters';
+import { EstradiolMedication } from '../types/medication';
+import { DEFAULT_DISCARD_AFTER_DAYS, INVENTORY_FORECAST_DAYS, Vial, forecastSupply, generateVialId } from '../utils/inventory';
+import { getConcentration } from '../utils/doseUnits';
+import { todayISODate } from '../utils/dates';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface InventoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  vials: Vial[];
+  onVialsChange: (vials: Vial[]) => void;
+  injectableMedications: EstradiolMedication[];
+  esterConcentrations: Record<string, number>;
+  schedule: { doses: Dose[]; scheduleLength: number; repeat: boolean; startDate: string | null };
+  preferStock: boolean;
+  onPreferStockChange: (preferStock: boolean) => void;
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.sm,
+  textAlign: 'left' as const
+};
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+const numberFieldStyle = mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' });
+const dateFieldStyle = mergeStyles(INPUT_STYLES.base, { display: 'block' });
+
+const InventoryModal: React.FC<InventoryModalProps> = ({
+  isOpen,
+  onClose,
+  vials,
+  onVialsChange,
+  injectableMedications,
+  esterConcentrations,
+  schedule,
+  preferStock,
+  onPreferStockChange
+}) => {
+  const [medicationName, setMedicationName] = useState(injectableMedications[1]?.name ?? injectableMedications[0]?.name ?? '');
+  const [concentration, setConcentration] = useState('');
+  const [volume, setVolume] = useState('5');
+  const [openedDate, setOpenedDate] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [discardAfterDays, setDiscardAfterDays] = useState(String(DEFAULT_DISCARD_AFTER_DAYS));
+
+  if (!isOpen) return null;
+
+  const today = todayISODate();
+  const forecasts = forecastSupply(vials, { ...schedule, today });
+  const defaultConcentration = getConcentration(esterConcentrations, medicationName);
+  const parsedConcentration = concentration ? parseFloat(concentration) : defaultConcentration;
+  const parsedVolume = parseFloat(volume);
+  const parsedDiscardDays = parseInt(discardAfterDays, 10);
+  const canAdd = !!medicationName && parsedConcentration > 0 && parsedVolume > 0 && parsedDiscardDays > 0;
+
+  const addVial = () => {
+    if (!canAdd) return;
+    onVialsChange([...vials, {
+      id: generateVialId(),
+      medicationName,
+      concentration: parsedConcentration,
+      volumeMl: parsedVolume,
+      discardAfterDays: parsedDiscardDays,
+      ...(openedDate ? { openedDate } : {}),
+      ...(expiryDate ? { expiryDate } : {})
+    }]);
+    setOpenedDate('');
+    setExpiryDate('');
+  };
+
+  const updateVial = (id: string, changes: Partial<Vial>) => {
+    onVialsChange(vials.map(v => (v.id === id ? { ...v, ...changes } : v)));
+  };
+
+  const describeSupply = (daysOfSupply: number | null, mgPerMonth: number) => {
+    if (mgPerMonth === 0) return 'Not in the schedule';
+    if (daysOfSupply === null) return schedule.repeat ? `Over ${Math.round(INVENTORY_FORECAST_DAYS / 365)} years` : 'Covers the schedule';
+    return `${daysOfSupply} day${daysOfSupply !== 1 ? 's' : ''}`;
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '720px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Vial Inventory</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Record the vials you have to see how long they last on the current schedule.
+          {!schedule.startDate && ' Without a start date, today is taken to be day 0.'}
+        </p>
+
+        {forecasts.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const, marginBottom: SPACING.lg }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Medication</th>
+                <th style={cellStyle}>Per month</th>
+                <th style={cellStyle}>In stock</th>
+                <th style={cellStyle}>Supply</th>
+                <th style={cellStyle}>Refill by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {forecasts.map(forecast => (
+                <tr key={forecast.medicationName}>
+                  <td style={cellStyle}>{forecast.medicationName}</td>
+                  <td style={cellStyle}>
+                    {formatNumber(forecast.mgPerMonth, 1)} mg
+                    {' '}({formatNumber(forecast.mgPerMonth / getConcentration(esterConcentrations, forecast.medicationName))} mL)
+                  </td>
+                  <td style={cellStyle}>{formatNumber(forecast.stockMg, 1)} mg</td>
+                  <td style={cellStyle}>{describeSupply(forecast.daysOfSupply, forecast.mgPerMonth)}</td>
+                  <td style={mergeStyles(cellStyle, {
+                    color: forecast.daysOfSupply !== null && forecast.daysOfSupply < 14 ? COLORS.danger : undefined
+                  })}>
+                    {forecast.refillDate ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {forecasts.flatMap(f => f.warnings).map(warning => (
+          <p key={warning} style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.warningText, margin: `0 0 ${SPACING.xs} 0` }}>
+            ⚠ {warning}
+          </p>
+        ))}
+
+        {vials.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const, margin: `${SPACING.lg} 0` }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Vial</th>
+                <th style={cellStyle}>Left (mL)</th>
+                <th style={cellStyle}>Opened</th>
+                <th style={cellStyle}>Expires</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {vials.map(vial => (
+                <tr key={vial.id}>
+                  <td style={cellStyle}>
+                    {vial.medicationName} {formatNumber(vial.concentration)} mg/mL
+                    <div style={{ color: COLORS.gray500 }}>use within {vial.discardAfterDays} days of opening</div>
+                  </td>
+                  <td style={cellStyle}>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      aria-label={`Volume left in ${vial.medicationName}`}
+                      value={vial.volumeMl}
+                      onChange={(e) => updateVial(vial.id, { volumeMl: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number)}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    {vial.openedDate ?? (
+                      <button
+                        onClick={() => updateVial(vial.id, { openedDate: today })}
+                        style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                        title="Mark as opened today"
+                      >
+                        Open today
+                      </button>
+                    )}
+                  </td>
+                  <td style={cellStyle}>{vial.expiryDate ?? '—'}</td>
+                  <td style={cellStyle}>
+                    <button
+                      onClick={() => onVialsChange(vials.filter(v => v.id !== vial.id))}
+                      style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                      title="Remove vial"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, alignItems: 'flex-end', marginBottom: SPACING.xl }}>
+          <label style={labelStyle}>
+            Medication
+            <select
+              value={medicationName}
+              onChange={(e) => {
+                setMedicationName(e.target.value);
+                setConcentration('');
+              }}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              {injectableMedications.map(m => (
+                <option key={m.name} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            mg/mL
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={concentration}
+              placeholder={String(defaultConcentration)}
+              onChange={(e) => setConcentration(e.target.value)}
+              style={numberFieldStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Volume (mL)
+            <input type="number" min="0" step="any" value={volume} onChange={(e) => setVolume(e.target.value)} style={numberFieldStyle} />
+          </label>
+          <label style={labelStyle}>
+            Opened
+            <input type="date" value={openedDate} onChange={(e) => setOpenedDate(e.target.value)} style={dateFieldStyle} />
+          </label>
+          <label style={labelStyle}>
+            Expires
+            <input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} style={dateFieldStyle} />
+          </label>
+          <label style={labelStyle} title="Days a vial may be used after the first puncture">
+            Discard after (days)
+            <input
+              type="number"
+              min="1"
+              value={discardAfterDays}
+              onChange={(e) => setDiscardAfterDays(e.target.value)}
+              style={numberFieldStyle}
+            />
+          </label>
+          <button
+            onClick={addVial}
+            disabled={!canAdd}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, {
+              cursor: canAdd ? 'pointer' : 'not-allowed'
+            })}
+          >
+            Add vial
+          </button>
+        </div>
+
+        <label style={mergeStyles(labelStyle, { display: 'flex', alignItems: 'center', gap: SPACING.sm, marginBottom: SPACING['2xl'] })}>
+          <input type="checkbox" checked={preferStock} onChange={(e) => onPreferStockChange(e.target.checked)} />
+          When optimizing, prefer esters I have vials of
+        </label>
+
+        <button
+          onClick={onClose}
+          style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { width: '100%' })}
+        >
+          Done
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default InventoryModal;
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { LabComparison, LabResult } from '../utils/labResults';
+import { Hormone, LAB_UNITS, LabUnit, MODEL_UNITS } from '../utils/units';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface LabResultsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  results: LabResult[];
+  onResultsChange: (results: LabResult[]) => void;
+  comparisons: LabComparison[];
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.sm,
+  textAlign: 'left' as const
+};
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+
+const LabResultsModal: React.FC<LabResultsModalProps> = ({
+  isOpen,
+  onClose,
+  results,
+  onResultsChange,
+  comparisons
+}) => {
+  const [day, setDay] = useState('0');
+  const [hormone, setHormone] = useState<Hormone>('estradiol');
+  const [value, setValue] = useState('');
+  const [unit, setUnit] = useState<LabUnit>(MODEL_UNITS.estradiol);
+  const [note, setNote] = useState('');
+
+  if (!isOpen) return null;
+
+  const parsedDay = parseFloat(day);
+  const parsedValue = parseFloat(value);
+  const canAdd = !isNaN(parsedDay) && parsedDay >= 0 && parsedValue > 0;
+
+  const addResult = () => {
+    if (!canAdd) return;
+    const result: LabResult = {
+      id: `${Date.now().toString(36)}-${results.length}`,
+      day: parsedDay,
+      hormone,
+      value: parsedValue,
+      unit,
+      ...(note.trim() ? { note: note.trim() } : {})
+    };
+    onResultsChange([...results, result].sort((a, b) => a.day - b.day));
+    setValue('');
+    setNote('');
+  };
+
+  const handleHormoneChange = (newHormone: Hormone) => {
+    setHormone(newHormone);
+    setUnit(MODEL_UNITS[newHormone]);
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '640px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Lab Results</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Results are plotted on the concentration graph at the given day so you can compare them with the model.
+        </p>
+
+        {results.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const, marginBottom: SPACING['2xl'] }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Day</th>
+                <th style={cellStyle}>Hormone</th>
+                <th style={cellStyle}>Result</th>
+                <th style={cellStyle}>vs model</th>
+                <th style={cellStyle}>Note</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => {
+                const comparison = comparisons.find(c => c.result.id === result.id);
+                return (
+                  <tr key={result.id}>
+                    <td style={cellStyle}>{formatNumber(result.day, 1)}</td>
+                    <td style={cellStyle}>{result.hormone === 'estradiol' ? 'Estradiol' : 'Progesterone'}</td>
+                    <td style={cellStyle}>{formatNumber(result.value)} {result.unit}</td>
+                    <td style={cellStyle}>
+                      {comparison
+                        ? `${comparison.residual >= 0 ? '+' : ''}${formatNumber(comparison.residual, 1)} ${MODEL_UNITS[result.hormone]}`
+                        : '—'}
+                    </td>
+                    <td style={cellStyle}>{result.note}</td>
+                    <td style={cellStyle}>
+                      <button
+                        onClick={() => onResultsChange(results.filter(r => r.id !== result.id))}
+                        style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                        title="Remove result"
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, alignItems: 'flex-end', marginBottom: SPACING['2xl'] }}>
+          <label style={labelStyle}>
+            Day
+            <input
+              type="number"
+              min="0"
+              step="0.25"
+              value={day}
+              onChange={(e) => setDay(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' })}
+            />
+          </label>
+          <label style={labelStyle}>
+            Hormone
+            <select
+              value={hormone}
+              onChange={(e) => handleHormoneChange(e.target.value as Hormone)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              <option value="estradiol">Estradiol</option>
+              <option value="progesterone">Progesterone</option>
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Result
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.numberLarge, { display: 'block' })}
+            />
+          </label>
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as LabUnit)}
+            style={INPUT_STYLES.base}
+          >
+            {LAB_UNITS[hormone].map(u => (
+              <option key={u} value={u}>{u}</option>
+            ))}
+          </select>
+          <label style={mergeStyles(labelStyle, { flex: 1, minWidth: '120px' })}>
+            Note
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block', width: '100%', boxSizing: 'border-box' as const })}
+            />
+          </label>
+          <button
+            onClick={addResult}
+            disabled={!canAdd}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, {
+              cursor: canAdd ? 'pointer' : 'not-allowed'
+            })}
+          >
+            Add
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { width: '100%' })}
+        >
+          Done
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default LabResultsModal;
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
 import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
-import { AnyMedication } from '../types/medication';
+import { AnyMedication, isEstradiolMedication, isProgesteroneMedication } from '../types/medication';
 import { ReferenceCycleType } from '../data/referenceData';
 import { formatNumber } from '../utils/formatters';
 import ErrorBoundary from './ErrorBoundary';
@@ -18,6 +18,7 @@ interface OptimizerModalProps {
   maxInjections: number;
   granularity: number;
   progesteroneDoses: number[];
+  customMedications?: AnyMedication[];
   onSettingsChange: (selectedEsters: AnyMedication[], granularity: number, progesteroneDoses: number[]) => void;
 }
 
@@ -27,6 +28,7 @@ const OptimizerModal: React.FC<OptimizerModalProps> = ({
   selectedEsters: initialSelectedEsters,
   granularity: initialGranularity,
   progesteroneDoses: initialProgesteroneDoses,
+  customMedications = [],
   onSettingsChange
 }) => {
   const [selectedEsters, setSelectedEsters] = useState<AnyMedication[]>(initialSelectedEsters);
@@ -42,6 +44,9 @@ const OptimizerModal: React.FC<OptimizerModalProps> = ({
 
   if (!isOpen) return null;
 
+  const injectableMedications = [...ESTRADIOL_ESTERS, ...customMedications.filter(isEstradiolMedication)];
+  const progesteroneMedications = [...PROGESTERONE_ROUTES, ...customMedications.filter(isProgesteroneMedication)];
+
   return (
     <ErrorBoundary
       fallback={
@@ -97,7 +102,7 @@ const OptimizerModal: React.FC<OptimizerModalProps> = ({
             <div style={{ fontSize: TYPOGRAPHY.fontSize.sm, fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.gray600, marginBottom: SPACING.sm }}>
               Estradiol Esters
             </div>
-            {ESTRADIOL_ESTERS.map((ester, index) => (
+            {injectableMedications.map((ester, index) => (
               <label
                 key={`estradiol-${index}`}
                 style={{
@@ -133,7 +138,7 @@ const OptimizerModal: React.FC<OptimizerModalProps> = ({
             <div style={{ fontSize: TYPOGRAPHY.fontSize.sm, fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.gray600, marginBottom: SPACING.sm }}>
               Progesterone
             </div>
-            {PROGESTERONE_ROUTES.map((prog, index) => (
+            {progesteroneMedications.map((prog, index) => (
               <label
                 key={`progesterone-${index}`}
                 style={{
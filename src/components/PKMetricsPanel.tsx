@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react';
+import { ConcentrationPoint } from '../utils/pharmacokinetics';
+import { calculateCycleMetrics, HormoneMetrics, RangeMetrics } from '../utils/pkMetrics';
+import {
+  DEFAULT_FLAT_TARGET,
+  findReferenceCycle,
+  FlatTarget,
+  generateFlatTarget,
+  generateReferenceRange,
+  ReferenceCycleInfo,
+  ReferenceCycleType,
+  ReferenceTarget
+} from '../data/referenceData';
+import { formatNumber } from '../utils/formatters';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, INPUT_STYLES, mergeStyles } from '../constants/styles';
+
+interface PKMetricsPanelProps {
+  data: ConcentrationPoint[];
+  cycleLength: number;
+  viewDays: number;
+  referenceCycleType: ReferenceCycleType;
+  customReferenceCycles?: ReferenceCycleInfo[];
+  referenceMode?: ReferenceTarget; // Which target time in range is measured against
+  referenceCycleLength?: number; // Resized cycle length for the percentile range
+  flatTarget?: FlatTarget;
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.base,
+  textAlign: 'right' as const
+};
+
+const headerCellStyle = mergeStyles(cellStyle, {
+  fontWeight: TYPOGRAPHY.fontWeight.semibold,
+  color: COLORS.gray700
+});
+
+const labelCellStyle = mergeStyles(cellStyle, {
+  textAlign: 'left' as const,
+  color: COLORS.gray600
+});
+
+const METRIC_ROWS: { label: string; format: (m: HormoneMetrics, unit: string) => string }[] = [
+  { label: 'Peak (Cmax)', format: (m, unit) => `${formatNumber(m.peak, 1)} ${unit}` },
+  { label: 'Trough (Cmin)', format: (m, unit) => `${formatNumber(m.trough, 1)} ${unit}` },
+  { label: 'Time to peak', format: (m) => `day ${formatNumber(m.timeToPeak, 1)}` },
+  { label: 'Average (Cavg)', format: (m, unit) => `${formatNumber(m.average, 1)} ${unit}` },
+  { label: 'AUC', format: (m, unit) => `${formatNumber(m.auc, 0)} ${unit}·d` },
+  { label: 'Peak/trough ratio', format: (m) => (m.peakTroughRatio === null ? '—' : formatNumber(m.peakTroughRatio, 2)) },
+  { label: 'Fluctuation', format: (m) => `${formatNumber(m.fluctuationPercent, 0)}%` }
+];
+
+const formatRange = (range: RangeMetrics, unit: string, showBounds = true) =>
+  `${formatNumber(range.percentWithin, 0)}% within` +
+  (showBounds ? ` ${formatNumber(range.min, 1)}–${formatNumber(range.max, 1)} ${unit}` : '') +
+  ` (${formatNumber(range.daysBelow, 1)}d below, ${formatNumber(range.daysWithin, 1)}d within, ${formatNumber(range.daysAbove, 1)}d above)`;
+
+const formatAverageDeviation = (average: number, target: number) => {
+  const deviation = (average - target) / target * 100;
+  return `average ${formatNumber(average, 1)} pg/mL against a target of ${formatNumber(target, 1)} pg/mL ` +
+    `(${deviation > 0 ? '+' : ''}${formatNumber(deviation, 0)}%)`;
+};
+
+const RANGE_TITLES: Record<ReferenceTarget, string> = {
+  curve: 'Time in reference range',
+  range: 'Time in 5th–95th percentile range',
+  flat: 'Time in steady target range'
+};
+
+// Shared default, so the memoized metrics aren't recalculated on every render
+const EMPTY_CUSTOM_REFERENCES: ReferenceCycleInfo[] = [];
+
+const PKMetricsPanel: React.FC<PKMetricsPanelProps> = ({
+  data,
+  cycleLength,
+  viewDays,
+  referenceCycleType,
+  customReferenceCycles = EMPTY_CUSTOM_REFERENCES,
+  referenceMode = 'curve',
+  referenceCycleLength,
+  flatTarget = DEFAULT_FLAT_TARGET
+}) => {
+  const [selectedCycle, setSelectedCycle] = useState<number | null>(null);
+  const targetAverage = referenceMode === 'flat' && flatTarget.kind === 'average' ? flatTarget.average : null;
+
+  const cycles = useMemo(() => {
+    if (referenceMode === 'flat') {
+      // An average has no band to be within; it is compared with Cavg instead
+      const band = targetAverage === null ? generateFlatTarget(Math.ceil(viewDays), flatTarget) : [];
+      return calculateCycleMetrics(data, cycleLength, viewDays, [], band);
+    }
+    if (referenceMode === 'range') {
+      return calculateCycleMetrics(data, cycleLength, viewDays, [], generateReferenceRange(Math.ceil(viewDays), referenceCycleLength));
+    }
+    const reference = findReferenceCycle(referenceCycleType, customReferenceCycles)?.data || [];
+    return calculateCycleMetrics(data, cycleLength, viewDays, reference);
+  }, [data, cycleLength, viewDays, referenceCycleType, customReferenceCycles, referenceMode, referenceCycleLength, flatTarget, targetAverage]);
+
+  if (cycles.length === 0) return null;
+
+  // Default to the last full cycle, which is closest to steady state
+  const metrics = cycles.find(c => c.cycle === selectedCycle) || cycles[cycles.length - 1]!;
+  const showBounds = referenceMode !== 'range'; // Percentile bounds change from day to day
+
+  return (
+    <div style={{
+      marginTop: SPACING['2xl'],
+      padding: SPACING.xl,
+      backgroundColor: COLORS.gray50,
+      borderRadius: BORDER_RADIUS.md
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: SPACING.md, flexWrap: 'wrap' as const, gap: SPACING.md }}>
+        <h4 style={{ margin: 0, fontSize: TYPOGRAPHY.fontSize.lg }}>Pharmacokinetic Summary</h4>
+        {cycles.length > 1 && (
+          <select
+            value={metrics.cycle}
+            onChange={(e) => setSelectedCycle(parseInt(e.target.value))}
+            style={mergeStyles(INPUT_STYLES.base, { backgroundColor: COLORS.white })}
+          >
+            {cycles.map(c => (
+              <option key={c.cycle} value={c.cycle}>
+                Cycle {c.cycle + 1} (days {c.startDay}–{c.endDay})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse' as const }}>
+        <thead>
+          <tr>
+            <th style={mergeStyles(headerCellStyle, { textAlign: 'left' as const })}>Metric</th>
+            <th style={headerCellStyle}>Estradiol</th>
+            {metrics.progesterone && <th style={headerCellStyle}>Progesterone</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {METRIC_ROWS.map(row => (
+            <tr key={row.label}>
+              <td style={labelCellStyle}>{row.label}</td>
+              <td style={cellStyle}>{row.format(metrics.estradiol, 'pg/mL')}</td>
+              {metrics.progesterone && <td style={cellStyle}>{row.format(metrics.progesterone, 'ng/mL')}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {targetAverage !== null && (
+        <div style={{ marginTop: SPACING.lg, fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+          <div style={{ fontWeight: TYPOGRAPHY.fontWeight.semibold, marginBottom: SPACING.xs }}>Steady target</div>
+          <div>Estradiol: {formatAverageDeviation(metrics.estradiol.average, targetAverage)}</div>
+        </div>
+      )}
+      {(metrics.estradiolRange || metrics.progesteroneRange) && (
+        <div style={{ marginTop: SPACING.lg, fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+          <div style={{ fontWeight: TYPOGRAPHY.fontWeight.semibold, marginBottom: SPACING.xs }}>{RANGE_TITLES[referenceMode]}</div>
+          {metrics.estradiolRange && <div>Estradiol: {formatRange(metrics.estradiolRange, 'pg/mL', showBounds)}</div>}
+          {metrics.progesteroneRange && <div>Progesterone: {formatRange(metrics.progesteroneRange, 'ng/mL', showBounds)}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PKMetricsPanel;
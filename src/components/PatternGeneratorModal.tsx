@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import { Dose } from '../data/estradiolEsters';
+import { ALL_MEDICATIONS, findMedicationByName } from '../data/medications';
+import { AnyMedication, getDoseUnit, isTransdermalMedication } from '../types/medication';
+import { DEFAULTS } from '../constants/pharmacokinetics';
+import { DosePattern, DoseRamp, PatternApplyMode, PatternDays, applyPattern, generatePatternDoses } from '../utils/patternGenerator';
+import { formatDayLabel, WEEKDAY_NAMES } from '../utils/dates';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface PatternGeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doses: Dose[];
+  scheduleLength: number;
+  startDate: string | null; // Weekday patterns are only offered for date-based schedules
+  onApply: (doses: Dose[]) => void;
+  customMedications?: AnyMedication[];
+}
+
+type RampKind = DoseRamp['kind'];
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+const fieldStyle = mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number, { display: 'block' });
+const sectionStyle = { display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, alignItems: 'flex-end', marginBottom: SPACING.xl };
+
+// Monday-first, matching the calendar grid
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const PREVIEW_LIMIT = 8;
+
+const defaultDoseFor = (medication: AnyMedication | undefined) =>
+  String(medication && isTransdermalMedication(medication) ? DEFAULTS.DEFAULT_PATCH_STRENGTH_UG_PER_DAY : DEFAULTS.DEFAULT_DOSE_MG);
+
+const PatternGeneratorModal: React.FC<PatternGeneratorModalProps> = ({
+  isOpen,
+  onClose,
+  doses,
+  scheduleLength,
+  startDate,
+  onApply,
+  customMedications = []
+}) => {
+  const [daysKind, setDaysKind] = useState<PatternDays['kind']>('interval');
+  const [intervalDays, setIntervalDays] = useState('7');
+  const [startDay, setStartDay] = useState('0');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 4]);
+  const [medicationName, setMedicationName] = useState(ALL_MEDICATIONS[1]!.name);
+  const [dose, setDose] = useState(String(DEFAULTS.DEFAULT_DOSE_MG));
+  const [rampKind, setRampKind] = useState<RampKind>('none');
+  const [endDose, setEndDose] = useState('');
+  const [stepEveryDays, setStepEveryDays] = useState('7');
+  const [step, setStep] = useState('');
+  const [mode, setMode] = useState<PatternApplyMode>('merge');
+
+  if (!isOpen) return null;
+
+  const medications = [...ALL_MEDICATIONS, ...customMedications];
+  const medication = findMedicationByName(medicationName, customMedications);
+  const unit = medication ? getDoseUnit(medication) : 'mg';
+  const useWeekdays = daysKind === 'weekdays' && !!startDate;
+
+  const patternDays: PatternDays = useWeekdays
+    ? { kind: 'weekdays', weekdays }
+    : { kind: 'interval', interval: parseInt(intervalDays, 10) || 0, startDay: parseInt(startDay, 10) || 0 };
+  const ramp: DoseRamp = rampKind === 'linear'
+    ? { kind: 'linear', endDose: parseFloat(endDose) || 0 }
+    : rampKind === 'stepped'
+      ? { kind: 'stepped', everyDays: parseInt(stepEveryDays, 10) || 0, step: parseFloat(step) || 0 }
+      : { kind: 'none' };
+
+  const pattern: DosePattern | null = medication && parseFloat(dose) > 0
+    ? { days: patternDays, medication, dose: parseFloat(dose), ramp }
+    : null;
+  const generated = pattern ? generatePatternDoses(pattern, scheduleLength, startDate) : [];
+  const result = applyPattern(doses, generated, mode);
+
+  const changeMedication = (name: string) => {
+    const next = findMedicationByName(name, customMedications);
+    // Patch strengths (µg/day) and mg doses aren't interchangeable, so reset the amounts
+    if (next && medication && getDoseUnit(next) !== getDoseUnit(medication)) {
+      setDose(defaultDoseFor(next));
+      setEndDose('');
+      setStep('');
+    }
+    setMedicationName(name);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(weekdays.includes(weekday) ? weekdays.filter(d => d !== weekday) : [...weekdays, weekday]);
+  };
+
+  const apply = () => {
+    onApply(result.doses);
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '560px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Generate Pattern</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Fill the {scheduleLength}-day schedule with a regular dose instead of clicking each day.
+        </p>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            Repeat
+            <select
+              value={useWeekdays ? 'weekdays' : 'interval'}
+              onChange={(e) => setDaysKind(e.target.value as PatternDays['kind'])}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              <option value="interval">Every N days</option>
+              <option value="weekdays" disabled={!startDate}>On weekdays{startDate ? '' : ' (set a start date)'}</option>
+            </select>
+          </label>
+          {useWeekdays ? (
+            <div style={{ display: 'flex', gap: SPACING.xs }}>
+              {WEEKDAY_ORDER.map(weekday => (
+                <label key={weekday} style={mergeStyles(labelStyle, { textAlign: 'center' as const })}>
+                  {WEEKDAY_NAMES[weekday]}
+                  <input
+                    type="checkbox"
+                    checked={weekdays.includes(weekday)}
+                    onChange={() => toggleWeekday(weekday)}
+                    style={{ display: 'block', margin: '0 auto' }}
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <>
+              <label style={labelStyle}>
+                Every (days)
+                <input type="number" min="1" value={intervalDays} onChange={(e) => setIntervalDays(e.target.value)} style={fieldStyle} />
+              </label>
+              <label style={labelStyle}>
+                Starting day
+                <input
+                  type="number"
+                  min="0"
+                  max={scheduleLength - 1}
+                  value={startDay}
+                  onChange={(e) => setStartDay(e.target.value)}
+                  style={fieldStyle}
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            Medication
+            <select
+              value={medicationName}
+              onChange={(e) => changeMedication(e.target.value)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              {medications.map(m => (
+                <option key={m.name} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            {rampKind === 'none' ? 'Dose' : 'Starting dose'} ({unit})
+            <input type="number" min="0" step="any" value={dose} onChange={(e) => setDose(e.target.value)} style={fieldStyle} />
+          </label>
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            Ramp
+            <select
+              value={rampKind}
+              onChange={(e) => setRampKind(e.target.value as RampKind)}
+              style={mergeStyles(INPUT_STYLES.base, { display: 'block' })}
+            >
+              <option value="none">Same dose throughout</option>
+              <option value="linear">Linear to an end dose</option>
+              <option value="stepped">Stepped increases</option>
+            </select>
+          </label>
+          {rampKind === 'linear' && (
+            <label style={labelStyle}>
+              End dose ({unit})
+              <input type="number" min="0" step="any" value={endDose} onChange={(e) => setEndDose(e.target.value)} style={fieldStyle} />
+            </label>
+          )}
+          {rampKind === 'stepped' && (
+            <>
+              <label style={labelStyle}>
+                Increase by ({unit})
+                <input type="number" step="any" value={step} onChange={(e) => setStep(e.target.value)} style={fieldStyle} />
+              </label>
+              <label style={labelStyle}>
+                Every (days)
+                <input
+                  type="number"
+                  min="1"
+                  value={stepEveryDays}
+                  onChange={(e) => setStepEveryDays(e.target.value)}
+                  style={fieldStyle}
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} /> Add to existing doses
+          </label>
+          <label style={labelStyle}>
+            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} /> Replace the schedule
+          </label>
+        </div>
+
+        <div style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray700, marginBottom: SPACING['2xl'] }}>
+          {generated.length === 0 ? (
+            <span style={{ color: COLORS.gray600 }}>The pattern doesn't fall on any day of the schedule.</span>
+          ) : (
+            <>
+              <div style={{ marginBottom: SPACING.xs }}>
+                {generated.length} dose{generated.length !== 1 ? 's' : ''}
+                {result.skipped > 0 && `, ${result.skipped} skipped where the day already has a conflicting dose`}
+                {mode === 'replace' && doses.length > 0 && `; replaces ${doses.length} existing`}
+              </div>
+              <div style={{ color: COLORS.gray600 }}>
+                {generated.slice(0, PREVIEW_LIMIT).map(d => `${formatDayLabel(d.day, startDate)}: ${formatNumber(d.dose)} ${unit}`).join(' · ')}
+                {generated.length > PREVIEW_LIMIT && ' …'}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: SPACING.md }}>
+          <button onClick={onClose} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1 })}>
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={generated.length === 0}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, {
+              flex: 1,
+              cursor: generated.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: generated.length === 0 ? 0.5 : 1
+            })}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PatternGeneratorModal;
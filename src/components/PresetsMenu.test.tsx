@@ -1,6 +1,8 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import PresetsMenu from './PresetsMenu';
 import { PRESETS } from '../data/presets';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { createCustomPreset } from '../utils/customPresets';
 
 describe('PresetsMenu', () => {
   const mockOnClose = jest.fn();
@@ -134,4 +136,90 @@ describe('PresetsMenu', () => {
       );
     }
   });
+
+  describe('custom presets', () => {
+    const currentSchedule = { doses: [{ day: 0, dose: 4, medication: ESTRADIOL_ESTERS[1]! }], scheduleLength: 7, repeat: true };
+    const clinicPreset = createCustomPreset('Clinic start', '4mg EV weekly', currentSchedule.doses, 7, true);
+
+    it('should list custom presets in their own section', () => {
+      render(
+        <PresetsMenu
+          isOpen={true}
+          onClose={mockOnClose}
+          onSelectPreset={mockOnSelectPreset}
+          customPresets={[clinicPreset]}
+          onCustomPresetsChange={jest.fn()}
+          currentSchedule={currentSchedule}
+        />
+      );
+
+      expect(screen.getByText('My presets')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Clinic start'));
+      expect(mockOnSelectPreset).toHaveBeenCalledWith(clinicPreset.doses, 7, true);
+    });
+
+    it('should save the current schedule as a preset', () => {
+      const onCustomPresetsChange = jest.fn();
+      render(
+        <PresetsMenu
+          isOpen={true}
+          onClose={mockOnClose}
+          onSelectPreset={mockOnSelectPreset}
+          customPresets={[]}
+          onCustomPresetsChange={onCustomPresetsChange}
+          currentSchedule={currentSchedule}
+        />
+      );
+
+      fireEvent.click(screen.getByText('+ Save current schedule'));
+      fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Clinic start' } });
+      fireEvent.change(screen.getByLabelText('Preset description'), { target: { value: 'Standard regimen' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      expect(onCustomPresetsChange).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'Clinic start', description: 'Standard regimen', scheduleLength: 7, doses: currentSchedule.doses })
+      ]);
+    });
+
+    it('should rename and delete custom presets', () => {
+      const onCustomPresetsChange = jest.fn();
+      render(
+        <PresetsMenu
+          isOpen={true}
+          onClose={mockOnClose}
+          onSelectPreset={mockOnSelectPreset}
+          customPresets={[clinicPreset]}
+          onCustomPresetsChange={onCustomPresetsChange}
+          currentSchedule={currentSchedule}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit Clinic start'));
+      fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Clinic default' } });
+      fireEvent.click(screen.getByText('Save'));
+      expect(onCustomPresetsChange).toHaveBeenLastCalledWith([{ ...clinicPreset, name: 'Clinic default' }]);
+
+      fireEvent.click(screen.getByLabelText('Delete Clinic start'));
+      expect(onCustomPresetsChange).toHaveBeenLastCalledWith([]);
+    });
+
+    it('should not allow a name already used by a built-in preset', () => {
+      render(
+        <PresetsMenu
+          isOpen={true}
+          onClose={mockOnClose}
+          onSelectPreset={mockOnSelectPreset}
+          customPresets={[]}
+          onCustomPresetsChange={jest.fn()}
+          currentSchedule={currentSchedule}
+        />
+      );
+
+      fireEvent.click(screen.getByText('+ Save current schedule'));
+      fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: PRESETS[0]!.name } });
+
+      expect(screen.getByText(/already exists/)).toBeInTheDocument();
+      expect(screen.getByText('Save')).toBeDisabled();
+    });
+  });
 });
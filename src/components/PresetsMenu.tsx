@@ -1,17 +1,131 @@
+import { useState } from 'react';
 import { Dose } from '../data/estradiolEsters';
-import { PRESETS } from '../data/presets';
+import { PRESETS, Preset } from '../data/presets';
+import { createCustomPreset, downloadPresets, mergeCustomPresets, parsePresetFile, validateCustomPreset } from '../utils/customPresets';
 import { Z_INDEX } from '../constants/defaults';
-import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS } from '../constants/styles';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS, BUTTON_STYLES, INPUT_STYLES, mergeStyles } from '../constants/styles';
 
 interface PresetsMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectPreset: (doses: Dose[], scheduleLength: number, repeat: boolean) => void;
+  customPresets?: Preset[];
+  onCustomPresetsChange?: (presets: Preset[]) => void; // Enables the "My presets" section
+  currentSchedule?: { doses: Dose[]; scheduleLength: number; repeat: boolean };
 }
 
-const PresetsMenu: React.FC<PresetsMenuProps> = ({ isOpen, onClose, onSelectPreset }) => {
+interface PresetForm {
+  id: string | null; // null when saving a new preset
+  name: string;
+  description: string;
+  replaceSchedule: boolean; // When editing, also store the current schedule
+}
+
+const sectionHeaderStyle = {
+  padding: `${SPACING.sm} ${SPACING.md}`,
+  fontSize: TYPOGRAPHY.fontSize.xs,
+  fontWeight: TYPOGRAPHY.fontWeight.semibold,
+  color: COLORS.gray600,
+  backgroundColor: COLORS.gray50,
+  textTransform: 'uppercase' as const
+};
+
+const iconButtonStyle = {
+  padding: `0 ${SPACING.sm}`,
+  border: 'none',
+  backgroundColor: 'transparent',
+  color: COLORS.gray600,
+  cursor: 'pointer',
+  fontSize: TYPOGRAPHY.fontSize.base
+};
+
+const smallButtonStyle = mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small);
+
+const presetFilename = (name: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'presets'}.json`;
+
+const PresetsMenu: React.FC<PresetsMenuProps> = ({
+  isOpen,
+  onClose,
+  onSelectPreset,
+  customPresets = [],
+  onCustomPresetsChange,
+  currentSchedule
+}) => {
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
   if (!isOpen) return null;
 
+  const renderPresetButton = (preset: Preset) => (
+    <button
+      key={preset.id}
+      onClick={() => {
+        onSelectPreset(preset.doses, preset.scheduleLength, preset.repeat ?? true);
+        onClose();
+      }}
+      style={{
+        flex: 1,
+        width: '100%',
+        padding: `${SPACING.lg} ${SPACING.md}`,
+        textAlign: 'left' as const,
+        border: 'none',
+        borderBottom: `1px solid ${COLORS.gray100}`,
+        backgroundColor: COLORS.white,
+        cursor: 'pointer',
+        fontSize: TYPOGRAPHY.fontSize.base,
+        transition: 'background-color 0.15s'
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = COLORS.gray50}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = COLORS.white}
+    >
+      <div style={{ fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.gray900, marginBottom: '2px' }}>
+        {preset.name}
+      </div>
+      <div style={{ fontSize: TYPOGRAPHY.fontSize.xs, color: COLORS.gray600 }}>
+        {preset.description}
+      </div>
+    </button>
+  );
+
+  const formError = form && onCustomPresetsChange
+    ? validateCustomPreset(
+      form.name,
+      [...PRESETS, ...customPresets].filter(p => p.id !== form.id).map(p => p.name),
+      form.id === null || form.replaceSchedule ? currentSchedule?.doses ?? [] : undefined
+    )
+    : null;
+
+  const submitForm = () => {
+    if (!form || !onCustomPresetsChange || formError) return;
+
+    if (form.id === null) {
+      if (!currentSchedule) return;
+      const preset = createCustomPreset(form.name, form.description, currentSchedule.doses, currentSchedule.scheduleLength, currentSchedule.repeat);
+      onCustomPresetsChange([...customPresets, preset]);
+    } else {
+      onCustomPresetsChange(customPresets.map(p => {
+        if (p.id !== form.id) return p;
+        const schedule = form.replaceSchedule && currentSchedule
+          ? { doses: currentSchedule.doses.map(d => ({ ...d })), scheduleLength: currentSchedule.scheduleLength, repeat: currentSchedule.repeat }
+          : {};
+        return { ...p, ...schedule, name: form.name.trim(), description: form.description.trim() };
+      }));
+    }
+    setForm(null);
+  };
+
+  const handleImport = async (file: File) => {
+    if (!onCustomPresetsChange) return;
+    const { presets, error } = parsePresetFile(await file.text());
+    if (error) {
+      setMessage({ text: error, isError: true });
+      return;
+    }
+    onCustomPresetsChange(mergeCustomPresets(customPresets, presets));
+    setMessage({ text: `Imported ${presets.length} preset${presets.length !== 1 ? 's' : ''}`, isError: false });
+  };
+
   return (
     <>
       <div
@@ -36,40 +150,120 @@ const PresetsMenu: React.FC<PresetsMenuProps> = ({ isOpen, onClose, onSelectPres
           borderRadius: BORDER_RADIUS.md,
           boxShadow: SHADOWS.lg,
           zIndex: Z_INDEX.MODAL_CONTENT,
-          minWidth: '280px',
-          maxHeight: '400px',
+          minWidth: '320px',
+          maxHeight: '480px',
           overflowY: 'auto' as const
         }}
       >
-        {PRESETS.map(preset => (
-          <button
-            key={preset.id}
-            onClick={() => {
-              onSelectPreset(preset.doses, preset.scheduleLength, preset.repeat ?? true);
-              onClose();
-            }}
-            style={{
-              width: '100%',
-              padding: `${SPACING.lg} ${SPACING.md}`,
-              textAlign: 'left' as const,
-              border: 'none',
-              borderBottom: `1px solid ${COLORS.gray100}`,
-              backgroundColor: COLORS.white,
-              cursor: 'pointer',
-              fontSize: TYPOGRAPHY.fontSize.base,
-              transition: 'background-color 0.15s'
-            }}
-            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = COLORS.gray50}
-            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = COLORS.white}
-          >
-            <div style={{ fontWeight: TYPOGRAPHY.fontWeight.semibold, color: COLORS.gray900, marginBottom: '2px' }}>
-              {preset.name}
-            </div>
-            <div style={{ fontSize: TYPOGRAPHY.fontSize.xs, color: COLORS.gray600 }}>
-              {preset.description}
-            </div>
-          </button>
-        ))}
+        {onCustomPresetsChange && (
+          <>
+            <div style={sectionHeaderStyle}>My presets</div>
+            {customPresets.map(preset => (
+              <div key={preset.id} style={{ display: 'flex', alignItems: 'center', borderBottom: `1px solid ${COLORS.gray100}` }}>
+                {renderPresetButton(preset)}
+                <button
+                  onClick={() => setForm({ id: preset.id, name: preset.name, description: preset.description, replaceSchedule: false })}
+                  style={iconButtonStyle}
+                  title="Edit preset"
+                  aria-label={`Edit ${preset.name}`}
+                >
+                  ✎
+                </button>
+                <button
+                  onClick={() => downloadPresets([preset], presetFilename(preset.name))}
+                  style={iconButtonStyle}
+                  title="Share as preset file"
+                  aria-label={`Share ${preset.name}`}
+                >
+                  ⤓
+                </button>
+                <button
+                  onClick={() => onCustomPresetsChange(customPresets.filter(p => p.id !== preset.id))}
+                  style={iconButtonStyle}
+                  title="Delete preset"
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            {form ? (
+              <div style={{ padding: SPACING.md, borderBottom: `1px solid ${COLORS.gray100}` }}>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Preset name"
+                  aria-label="Preset name"
+                  style={mergeStyles(INPUT_STYLES.base, { width: '100%', boxSizing: 'border-box' as const, marginBottom: SPACING.xs })}
+                />
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Description, e.g. clinic starting regimen"
+                  aria-label="Preset description"
+                  style={mergeStyles(INPUT_STYLES.base, { width: '100%', boxSizing: 'border-box' as const, marginBottom: SPACING.xs })}
+                />
+                {form.id !== null && (
+                  <label style={{ display: 'block', fontSize: TYPOGRAPHY.fontSize.sm, marginBottom: SPACING.xs }}>
+                    <input
+                      type="checkbox"
+                      checked={form.replaceSchedule}
+                      onChange={(e) => setForm({ ...form, replaceSchedule: e.target.checked })}
+                    />{' '}
+                    Replace doses with the current schedule
+                  </label>
+                )}
+                {formError && form.name && (
+                  <div style={{ fontSize: TYPOGRAPHY.fontSize.xs, color: COLORS.danger, marginBottom: SPACING.xs }}>{formError}</div>
+                )}
+                <div style={{ display: 'flex', gap: SPACING.xs }}>
+                  <button onClick={submitForm} disabled={!!formError} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, BUTTON_STYLES.small)}>
+                    Save
+                  </button>
+                  <button onClick={() => setForm(null)} style={smallButtonStyle}>Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <div style={{ display: 'flex', gap: SPACING.xs, padding: SPACING.md, flexWrap: 'wrap' as const, borderBottom: `1px solid ${COLORS.gray100}` }}>
+                <button
+                  onClick={() => setForm({ id: null, name: '', description: '', replaceSchedule: true })}
+                  disabled={!currentSchedule || currentSchedule.doses.length === 0}
+                  style={smallButtonStyle}
+                >
+                  + Save current schedule
+                </button>
+                {customPresets.length > 0 && (
+                  <button onClick={() => downloadPresets(customPresets, 'presets.json')} style={smallButtonStyle}>
+                    Export all
+                  </button>
+                )}
+                <label style={smallButtonStyle}>
+                  Import…
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: 'none' }}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImport(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+            )}
+            {message && (
+              <div style={{ padding: `0 ${SPACING.md} ${SPACING.md}`, fontSize: TYPOGRAPHY.fontSize.xs, color: message.isError ? COLORS.danger : COLORS.gray600 }}>
+                {message.text}
+              </div>
+            )}
+            <div style={sectionHeaderStyle}>Built-in</div>
+          </>
+        )}
+        {PRESETS.map(renderPresetButton)}
       </div>
     </>
   );
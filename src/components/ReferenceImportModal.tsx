@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { REFERENCE_CYCLES, ReferenceCycleInfo, ReferenceCycleType } from '../data/referenceData';
+import { createCustomReference, parseReferenceCsv, validateCustomReference } from '../utils/customReferenceCycles';
+import { ESTRADIOL_UNITS, EstradiolUnit, PROGESTERONE_UNITS, ProgesteroneUnit } from '../utils/units';
+import { formatNumber } from '../utils/formatters';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface ReferenceImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customReferences: ReferenceCycleInfo[];
+  onCustomReferencesChange: (references: ReferenceCycleInfo[]) => void;
+  onSelect: (cycleType: ReferenceCycleType) => void;
+}
+
+const labelStyle = { fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 };
+const fieldStyle = mergeStyles(INPUT_STYLES.base, { display: 'block' });
+
+const ReferenceImportModal: React.FC<ReferenceImportModalProps> = ({
+  isOpen,
+  onClose,
+  customReferences,
+  onCustomReferencesChange,
+  onSelect
+}) => {
+  const [csv, setCsv] = useState('');
+  const [name, setName] = useState('');
+  const [source, setSource] = useState('');
+  const [cycleLength, setCycleLength] = useState('29');
+  const [estradiolUnit, setEstradiolUnit] = useState<EstradiolUnit>('pg/mL');
+  const [progesteroneUnit, setProgesteroneUnit] = useState<ProgesteroneUnit>('ng/mL');
+
+  if (!isOpen) return null;
+
+  const { points, errors } = parseReferenceCsv(csv, { estradiol: estradiolUnit, progesterone: progesteroneUnit });
+  const fields = { name, source, cycleLength: Number(cycleLength), points };
+  const otherNames = [...REFERENCE_CYCLES, ...customReferences].map(c => c.name);
+  const validationError = csv.trim() ? validateCustomReference(fields, otherNames) : null;
+  const canImport = !!csv.trim() && !validationError;
+  const peak = points.reduce<typeof points[number] | null>((best, p) => (!best || p.estradiol > best.estradiol ? p : best), null);
+
+  const handleImport = () => {
+    if (!canImport) return;
+    const reference = createCustomReference(fields);
+    onCustomReferencesChange([...customReferences, reference]);
+    onSelect(reference.id);
+    setCsv('');
+    setName('');
+    setSource('');
+  };
+
+  const handleFile = async (file: File) => {
+    setCsv(await file.text());
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '640px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Reference Curves</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING.lg }}>
+          Import a target curve as CSV with day, estradiol and optional progesterone columns.
+          A header row such as <code>day,estradiol (pmol/L),progesterone (nmol/L)</code> sets the columns and units.
+          The estradiol peak is treated as ovulation when the curve is resized to the schedule.
+        </p>
+
+        {customReferences.length > 0 && (
+          <div style={{ marginBottom: SPACING.xl }}>
+            {customReferences.map(reference => (
+              <div
+                key={reference.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: `${SPACING.xs} 0`,
+                  borderBottom: `1px solid ${COLORS.gray200}`,
+                  fontSize: TYPOGRAPHY.fontSize.sm
+                }}
+              >
+                <span>
+                  {reference.name}
+                  <span style={{ color: COLORS.gray500 }}>
+                    {' '}— {reference.cycleLength} days, {reference.data.length} points, {reference.source}
+                  </span>
+                </span>
+                <button
+                  onClick={() => onCustomReferencesChange(customReferences.filter(c => c.id !== reference.id))}
+                  style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+                  title="Remove reference curve"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small, { display: 'inline-block' })}>
+          Choose CSV file…
+          <input
+            type="file"
+            accept="text/csv,.csv,.txt"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          placeholder={'day,estradiol,progesterone\n1,34,0.6\n2,36,0.6'}
+          aria-label="CSV data"
+          rows={8}
+          style={mergeStyles(INPUT_STYLES.base, {
+            width: '100%',
+            boxSizing: 'border-box' as const,
+            fontFamily: 'monospace',
+            margin: `${SPACING.md} 0`
+          })}
+        />
+
+        <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.md, marginBottom: SPACING.lg }}>
+          <label style={labelStyle}>
+            Name
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} style={fieldStyle} />
+          </label>
+          <label style={labelStyle}>
+            Source
+            <input type="text" value={source} onChange={(e) => setSource(e.target.value)} placeholder="Study or clinician" style={fieldStyle} />
+          </label>
+          <label style={labelStyle}>
+            Cycle length (days)
+            <input
+              type="number"
+              min="1"
+              value={cycleLength}
+              onChange={(e) => setCycleLength(e.target.value)}
+              style={mergeStyles(fieldStyle, INPUT_STYLES.number)}
+            />
+          </label>
+          <label style={labelStyle}>
+            Estradiol unit
+            <select value={estradiolUnit} onChange={(e) => setEstradiolUnit(e.target.value as EstradiolUnit)} style={fieldStyle}>
+              {ESTRADIOL_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Progesterone unit
+            <select value={progesteroneUnit} onChange={(e) => setProgesteroneUnit(e.target.value as ProgesteroneUnit)} style={fieldStyle}>
+              {PROGESTERONE_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {points.length > 0 && peak && (
+          <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, margin: `0 0 ${SPACING.sm} 0` }}>
+            {points.length} points, estradiol peak {formatNumber(peak.estradiol, 0)} pg/mL on day {formatNumber(peak.day)}
+          </p>
+        )}
+        {[...errors, ...(validationError ? [validationError] : [])].map(error => (
+          <p key={error} style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.danger, margin: `0 0 ${SPACING.xs} 0` }}>
+            {error}
+          </p>
+        ))}
+
+        <div style={{ display: 'flex', gap: SPACING.md, marginTop: SPACING.xl }}>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, {
+              flex: 1,
+              cursor: canImport ? 'pointer' : 'not-allowed'
+            })}
+          >
+            Import curve
+          </button>
+          <button onClick={onClose} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { flex: 1 })}>
+            Done
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ReferenceImportModal;
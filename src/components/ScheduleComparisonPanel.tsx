@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { ALL_MEDICATIONS, findMedicationByName } from '../data/medications';
+import { AnyMedication, getDoseUnit } from '../types/medication';
+import { ConcentrationPoint } from '../utils/pharmacokinetics';
+import { CycleMetrics } from '../utils/pkMetrics';
+import {
+  ComparisonSeries,
+  PinnedSchedule,
+  ScheduleSettings,
+  summariseSchedule,
+  weeklyInjectedDose
+} from '../utils/scheduleComparison';
+import { formatNumber } from '../utils/formatters';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, mergeStyles } from '../constants/styles';
+
+interface ScheduleComparisonPanelProps {
+  activeSchedule: ScheduleSettings;
+  activeData: ConcentrationPoint[];
+  pinned: PinnedSchedule[];
+  series: ComparisonSeries[]; // Curves for every pinned schedule, visible or not
+  viewDays: number;
+  onPin: (name: string) => void;
+  onUpdate: (schedule: PinnedSchedule) => void;
+  onRemove: (id: string) => void;
+  onPromote: (id: string) => void;
+  customMedications?: AnyMedication[];
+}
+
+const cellStyle = {
+  padding: `${SPACING.xs} ${SPACING.md}`,
+  borderBottom: `1px solid ${COLORS.gray200}`,
+  fontSize: TYPOGRAPHY.fontSize.sm,
+  textAlign: 'right' as const,
+  whiteSpace: 'nowrap' as const
+};
+
+const nameCellStyle = mergeStyles(cellStyle, { textAlign: 'left' as const });
+
+const headerCellStyle = mergeStyles(cellStyle, {
+  fontWeight: TYPOGRAPHY.fontWeight.semibold,
+  color: COLORS.gray700
+});
+
+const smallButtonStyle = mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small);
+
+const SUMMARY_COLUMNS: { label: string; format: (m: CycleMetrics) => string }[] = [
+  { label: 'E2 avg', format: (m) => `${formatNumber(m.estradiol.average, 0)} pg/mL` },
+  { label: 'E2 peak', format: (m) => `${formatNumber(m.estradiol.peak, 0)} pg/mL` },
+  { label: 'E2 trough', format: (m) => `${formatNumber(m.estradiol.trough, 0)} pg/mL` },
+  { label: 'Fluctuation', format: (m) => `${formatNumber(m.estradiol.fluctuationPercent, 0)}%` },
+  { label: 'P4 avg', format: (m) => (m.progesterone ? `${formatNumber(m.progesterone.average, 1)} ng/mL` : '—') }
+];
+
+const describeSettings = (settings: ScheduleSettings) => {
+  const weekly = weeklyInjectedDose(settings);
+  return `${settings.scheduleLength} days${settings.repeat ? ', repeating' : ''}` +
+    (weekly > 0 ? `, ${formatNumber(weekly)} mg/week` : '');
+};
+
+interface PinnedScheduleEditorProps {
+  schedule: PinnedSchedule;
+  onChange: (schedule: PinnedSchedule) => void;
+  medications: AnyMedication[];
+  customMedications: AnyMedication[];
+}
+
+/**
+ * Inline editor for a pinned schedule's doses and repeat settings
+ */
+const PinnedScheduleEditor: React.FC<PinnedScheduleEditorProps> = ({ schedule, onChange, medications, customMedications }) => {
+  const updateDose = (index: number, changes: Partial<PinnedSchedule['doses'][number]>) => {
+    onChange({ ...schedule, doses: schedule.doses.map((d, i) => (i === index ? { ...d, ...changes } : d)) });
+  };
+
+  const addDose = () => {
+    const last = schedule.doses[schedule.doses.length - 1];
+    const medication = last?.medication ?? medications[1] ?? medications[0]!;
+    onChange({ ...schedule, doses: [...schedule.doses, { day: 0, dose: last?.dose ?? 4, medication }] });
+  };
+
+  return (
+    <div style={{ padding: SPACING.lg, backgroundColor: COLORS.white, borderRadius: BORDER_RADIUS.sm }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap' as const, gap: SPACING.lg, alignItems: 'center', marginBottom: SPACING.md }}>
+        <label style={{ fontSize: TYPOGRAPHY.fontSize.sm }}>
+          Length (days){' '}
+          <input
+            type="number"
+            min="1"
+            value={schedule.scheduleLength}
+            onChange={(e) => {
+              const length = parseInt(e.target.value, 10);
+              if (length >= 1) onChange({ ...schedule, scheduleLength: length });
+            }}
+            style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number)}
+          />
+        </label>
+        <label style={{ fontSize: TYPOGRAPHY.fontSize.sm }}>
+          <input
+            type="checkbox"
+            checked={schedule.repeat}
+            onChange={(e) => onChange({ ...schedule, repeat: e.target.checked, steadyState: e.target.checked && schedule.steadyState })}
+          />{' '}
+          Repeat
+        </label>
+        <label style={{ fontSize: TYPOGRAPHY.fontSize.sm }}>
+          <input
+            type="checkbox"
+            checked={schedule.steadyState}
+            disabled={!schedule.repeat}
+            onChange={(e) => onChange({ ...schedule, steadyState: e.target.checked })}
+          />{' '}
+          Steady state
+        </label>
+      </div>
+
+      {schedule.doses.map((dose, index) => (
+        <div key={index} style={{ display: 'flex', gap: SPACING.md, alignItems: 'center', marginBottom: SPACING.xs }}>
+          <input
+            type="number"
+            min="0"
+            max={schedule.scheduleLength - 1}
+            value={dose.day}
+            aria-label={`Day of dose ${index + 1}`}
+            onChange={(e) => updateDose(index, { day: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number)}
+          />
+          <select
+            value={dose.medication.name}
+            aria-label={`Medication of dose ${index + 1}`}
+            onChange={(e) => {
+              const medication = findMedicationByName(e.target.value, customMedications);
+              if (medication) updateDose(index, { medication });
+            }}
+            style={INPUT_STYLES.base}
+          >
+            {medications.map(m => (
+              <option key={m.name} value={m.name}>{m.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={dose.dose}
+            aria-label={`Amount of dose ${index + 1}`}
+            onChange={(e) => updateDose(index, { dose: parseFloat(e.target.value) || 0 })}
+            style={mergeStyles(INPUT_STYLES.base, INPUT_STYLES.number)}
+          />
+          <span style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>{getDoseUnit(dose.medication)}</span>
+          <button
+            onClick={() => onChange({ ...schedule, doses: schedule.doses.filter((_, i) => i !== index) })}
+            style={smallButtonStyle}
+            title="Remove dose"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button onClick={addDose} style={mergeStyles(smallButtonStyle, { marginTop: SPACING.xs })}>
+        + Add dose
+      </button>
+    </div>
+  );
+};
+
+const ScheduleComparisonPanel: React.FC<ScheduleComparisonPanelProps> = ({
+  activeSchedule,
+  activeData,
+  pinned,
+  series,
+  viewDays,
+  onPin,
+  onUpdate,
+  onRemove,
+  onPromote,
+  customMedications = []
+}) => {
+  const [pinName, setPinName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const medications = [...ALL_MEDICATIONS, ...customMedications];
+  const activeSummary = summariseSchedule(activeData, activeSchedule.scheduleLength, viewDays);
+  const pinnedSummaries = new Map(pinned.map(schedule => {
+    const points = series.find(s => s.id === schedule.id)?.points ?? [];
+    return [schedule.id, summariseSchedule(points, schedule.scheduleLength, viewDays)];
+  }));
+
+  const renderSummaryCells = (summary: CycleMetrics | null | undefined) =>
+    SUMMARY_COLUMNS.map(column => (
+      <td key={column.label} style={cellStyle}>{summary ? column.format(summary) : '—'}</td>
+    ));
+
+  const pin = () => {
+    onPin(pinName.trim() || `Schedule ${pinned.length + 1}`);
+    setPinName('');
+  };
+
+  return (
+    <div style={{
+      marginTop: SPACING['2xl'],
+      padding: SPACING.xl,
+      backgroundColor: COLORS.gray50,
+      borderRadius: BORDER_RADIUS.md
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: SPACING.md, flexWrap: 'wrap' as const, gap: SPACING.md }}>
+        <h4 style={{ margin: 0, fontSize: TYPOGRAPHY.fontSize.lg }}>Compare Schedules</h4>
+        <div style={{ display: 'flex', gap: SPACING.md }}>
+          <input
+            type="text"
+            value={pinName}
+            onChange={(e) => setPinName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && pin()}
+            placeholder="e.g. EV every 5 days"
+            aria-label="Name for pinned schedule"
+            style={INPUT_STYLES.base}
+          />
+          <button onClick={pin} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary)}>
+            📌 Pin current schedule
+          </button>
+        </div>
+      </div>
+
+      {pinned.length === 0 ? (
+        <p style={{ margin: 0, fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>
+          Pin the current schedule to keep its curve on the graph while you try alternatives.
+        </p>
+      ) : (
+        <div style={{ overflowX: 'auto' as const }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' as const }}>
+            <thead>
+              <tr>
+                <th style={mergeStyles(headerCellStyle, { textAlign: 'left' as const })}>Schedule</th>
+                {SUMMARY_COLUMNS.map(column => (
+                  <th key={column.label} style={headerCellStyle}>{column.label}</th>
+                ))}
+                <th style={headerCellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td style={nameCellStyle}>
+                  <strong>Active</strong>
+                  <div style={{ color: COLORS.gray600 }}>{describeSettings(activeSchedule)}</div>
+                </td>
+                {renderSummaryCells(activeSummary)}
+                <td style={cellStyle}></td>
+              </tr>
+              {pinned.map(schedule => (
+                <tr key={schedule.id}>
+                  <td style={nameCellStyle}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
+                      <input
+                        type="checkbox"
+                        checked={schedule.visible}
+                        onChange={(e) => onUpdate({ ...schedule, visible: e.target.checked })}
+                        title="Show on graph"
+                        style={{ accentColor: schedule.color }}
+                      />
+                      <span style={{ width: '12px', height: '12px', borderRadius: '2px', backgroundColor: schedule.color, flexShrink: 0 }} />
+                      <input
+                        type="text"
+                        value={schedule.name}
+                        aria-label="Pinned schedule name"
+                        onChange={(e) => onUpdate({ ...schedule, name: e.target.value })}
+                        style={mergeStyles(INPUT_STYLES.base, { minWidth: '120px' })}
+                      />
+                    </div>
+                    <div style={{ color: COLORS.gray600 }}>{describeSettings(schedule)}</div>
+                    {editingId === schedule.id && (
+                      <PinnedScheduleEditor
+                        schedule={schedule}
+                        onChange={onUpdate}
+                        medications={medications}
+                        customMedications={customMedications}
+                      />
+                    )}
+                  </td>
+                  {renderSummaryCells(pinnedSummaries.get(schedule.id))}
+                  <td style={cellStyle}>
+                    <div style={{ display: 'flex', gap: SPACING.xs, justifyContent: 'flex-end' }}>
+                      <button
+                        onClick={() => setEditingId(editingId === schedule.id ? null : schedule.id)}
+                        style={smallButtonStyle}
+                      >
+                        {editingId === schedule.id ? 'Done' : 'Edit'}
+                      </button>
+                      <button
+                        onClick={() => onPromote(schedule.id)}
+                        style={smallButtonStyle}
+                        title="Load into the editor as the active schedule"
+                      >
+                        Make active
+                      </button>
+                      <button
+                        onClick={() => onRemove(schedule.id)}
+                        style={smallButtonStyle}
+                        title="Unpin"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleComparisonPanel;
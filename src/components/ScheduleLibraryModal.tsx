@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { ScheduleData } from '../utils/urlEncoding';
+import {
+  SavedSchedule,
+  createSavedSchedule,
+  downloadScheduleLibrary,
+  duplicateSavedSchedule,
+  getLibraryTags,
+  mergeScheduleLibraries,
+  parseScheduleLibrary,
+  updateSavedSchedule
+} from '../utils/scheduleLibrary';
+import { todayISODate } from '../utils/dates';
+import { Z_INDEX } from '../constants/defaults';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, INPUT_STYLES, MODAL_STYLES, mergeStyles } from '../constants/styles';
+
+interface ScheduleLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  library: SavedSchedule[];
+  onLibraryChange: (library: SavedSchedule[]) => void;
+  currentSchedule: ScheduleData;
+  onLoad: (schedule: ScheduleData) => void;
+}
+
+const smallButtonStyle = mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small);
+
+const parseTagInput = (value: string) => value.split(',');
+
+const describeSchedule = (schedule: ScheduleData) =>
+  `${schedule.doses.length} dose${schedule.doses.length !== 1 ? 's' : ''} over ${schedule.scheduleLength} days` +
+  (schedule.repeat ? ', repeating' : '') +
+  (schedule.startDate ? `, from ${schedule.startDate}` : '');
+
+interface LibraryEntryRowProps {
+  entry: SavedSchedule;
+  onRename: (name: string) => void;
+  onRetag: (tags: string[]) => void;
+  onLoad: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/**
+ * One saved schedule; name and tag edits are committed when the field loses focus
+ */
+const LibraryEntryRow: React.FC<LibraryEntryRowProps> = ({ entry, onRename, onRetag, onLoad, onDuplicate, onDelete }) => {
+  const [name, setName] = useState(entry.name);
+  const [tags, setTags] = useState(entry.tags.join(', '));
+
+  const commitName = () => {
+    if (name.trim() && name.trim() !== entry.name) onRename(name.trim());
+    else setName(entry.name);
+  };
+
+  return (
+    <div style={{
+      padding: SPACING.lg,
+      marginBottom: SPACING.md,
+      border: `1px solid ${COLORS.gray200}`,
+      borderRadius: BORDER_RADIUS.md
+    }}>
+      <div style={{ display: 'flex', gap: SPACING.md, alignItems: 'center', flexWrap: 'wrap' as const }}>
+        <input
+          type="text"
+          value={name}
+          aria-label="Schedule name"
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && commitName()}
+          style={mergeStyles(INPUT_STYLES.base, { flex: 1, minWidth: '160px', fontWeight: TYPOGRAPHY.fontWeight.semibold })}
+        />
+        <button onClick={onLoad} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, BUTTON_STYLES.small)}>Load</button>
+        <button onClick={onDuplicate} style={smallButtonStyle}>Duplicate</button>
+        <button onClick={onDelete} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.danger, BUTTON_STYLES.small)}>Delete</button>
+      </div>
+      <div style={{ display: 'flex', gap: SPACING.md, alignItems: 'center', marginTop: SPACING.sm, flexWrap: 'wrap' as const }}>
+        <span style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, flex: 1 }}>
+          {describeSchedule(entry.schedule)} · updated {entry.updatedAt.slice(0, 10)}
+        </span>
+        <input
+          type="text"
+          value={tags}
+          aria-label="Tags"
+          placeholder="tags, comma separated"
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={() => onRetag(parseTagInput(tags))}
+          style={mergeStyles(INPUT_STYLES.base, { fontSize: TYPOGRAPHY.fontSize.sm })}
+        />
+      </div>
+    </div>
+  );
+};
+
+const ScheduleLibraryModal: React.FC<ScheduleLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  library,
+  onLibraryChange,
+  currentSchedule,
+  onLoad
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  if (!isOpen) return null;
+
+  const tags = getLibraryTags(library);
+  const visibleEntries = tagFilter ? library.filter(entry => entry.tags.includes(tagFilter)) : library;
+
+  const saveCurrent = () => {
+    onLibraryChange([...library, createSavedSchedule(newName, currentSchedule, parseTagInput(newTags))]);
+    setNewName('');
+    setNewTags('');
+    setMessage(null);
+  };
+
+  const handleImport = async (file: File) => {
+    const { schedules, error } = parseScheduleLibrary(await file.text());
+    if (error) {
+      setMessage({ text: error, isError: true });
+      return;
+    }
+    onLibraryChange(mergeScheduleLibraries(library, schedules));
+    setMessage({ text: `Imported ${schedules.length} schedule${schedules.length !== 1 ? 's' : ''}`, isError: false });
+  };
+
+  const filterButtonStyle = (active: boolean) => mergeStyles(smallButtonStyle, {
+    fontWeight: active ? TYPOGRAPHY.fontWeight.semibold : TYPOGRAPHY.fontWeight.normal,
+    backgroundColor: active ? COLORS.gray200 : undefined
+  });
+
+  return (
+    <>
+      <div
+        style={mergeStyles(MODAL_STYLES.backdrop, {
+          zIndex: Z_INDEX.MODAL_BACKDROP
+        })}
+        onClick={onClose}
+      />
+      <div
+        style={mergeStyles(MODAL_STYLES.content, {
+          zIndex: Z_INDEX.MODAL_ELEVATED,
+          maxWidth: '640px',
+          maxHeight: '85vh',
+          overflowY: 'auto' as const
+        })}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={MODAL_STYLES.title}>Schedule Library</h3>
+        <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600, marginBottom: SPACING['2xl'] }}>
+          Schedules saved here stay in this browser. Export the library to back it up or move it to another device.
+        </p>
+
+        <div style={{ display: 'flex', gap: SPACING.md, flexWrap: 'wrap' as const, marginBottom: SPACING['2xl'] }}>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name, e.g. EV every 5 days"
+            aria-label="New schedule name"
+            style={mergeStyles(INPUT_STYLES.base, { flex: 2, minWidth: '160px' })}
+          />
+          <input
+            type="text"
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            placeholder="tags, comma separated"
+            aria-label="New schedule tags"
+            style={mergeStyles(INPUT_STYLES.base, { flex: 1, minWidth: '120px' })}
+          />
+          <button onClick={saveCurrent} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary)}>
+            Save current schedule
+          </button>
+        </div>
+
+        {tags.length > 0 && (
+          <div style={{ display: 'flex', gap: SPACING.xs, flexWrap: 'wrap' as const, marginBottom: SPACING.lg }}>
+            <button onClick={() => setTagFilter(null)} style={filterButtonStyle(tagFilter === null)}>All</button>
+            {tags.map(tag => (
+              <button key={tag} onClick={() => setTagFilter(tag)} style={filterButtonStyle(tagFilter === tag)}>
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {visibleEntries.length === 0 ? (
+          <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray600 }}>No saved schedules yet.</p>
+        ) : (
+          visibleEntries.map(entry => (
+            <LibraryEntryRow
+              key={entry.id}
+              entry={entry}
+              onRename={(name) => onLibraryChange(updateSavedSchedule(library, entry.id, { name }))}
+              onRetag={(entryTags) => onLibraryChange(updateSavedSchedule(library, entry.id, { tags: entryTags }))}
+              onLoad={() => {
+                onLoad(entry.schedule);
+                onClose();
+              }}
+              onDuplicate={() => onLibraryChange([...library, duplicateSavedSchedule(entry)])}
+              onDelete={() => onLibraryChange(library.filter(e => e.id !== entry.id))}
+            />
+          ))
+        )}
+
+        {message && (
+          <p style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: message.isError ? COLORS.danger : COLORS.gray700 }}>
+            {message.text}
+          </p>
+        )}
+
+        <div style={{ display: 'flex', gap: SPACING.md, marginTop: SPACING['2xl'] }}>
+          <button
+            onClick={() => downloadScheduleLibrary(library, `schedule-library-${todayISODate()}.json`)}
+            disabled={library.length === 0}
+            style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1 })}
+          >
+            Export library
+          </button>
+          <label style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, { flex: 1, textAlign: 'center' as const })}>
+            Import…
+            <input
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={onClose} style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.primary, { flex: 1 })}>
+            Done
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ScheduleLibraryModal;
@@ -1,7 +1,9 @@
 import React from 'react';
 import { Dose } from '../data/estradiolEsters';
-import { EstradiolMedication, isProgesteroneMedication } from '../types/medication';
+import { EstradiolMedication, isEstradiolMedication, isOralEstradiolMedication, isProgesteroneMedication, isTransdermalMedication } from '../types/medication';
 import { formatNumber } from '../utils/formatters';
+import { dateForDay, daysSinceMonday, formatDayLabel, formatShortDate, WEEKDAY_NAMES } from '../utils/dates';
+import { DoseDisplaySettings, DEFAULT_DOSE_DISPLAY, formatDisplayedDose, getConcentration, getDisplayedDose, isRoundedDose } from '../utils/doseUnits';
 import { getEsterColor } from '../constants/colors';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../constants/styles';
 
@@ -16,8 +18,29 @@ interface TimelineGridProps {
   onPillClick: (index: number) => void;
   onDoseAdd: (day: number, dose: number, ester: EstradiolMedication) => void;
   onAddAnotherDose: (day: number) => void;
+  startDate?: string | null; // Show calendar dates and align weeks to Monday when set
+  onDosesMove?: (indices: number[], dayOffset: number, copy: boolean) => void;
+  doseDisplay?: DoseDisplaySettings;
+  getMedicationColor?: (name: string) => string; // Knows the colors of custom medications
+  repeatSchedule?: boolean; // Patch wear wraps from the end of the schedule to its start
 }
 
+interface DoseDrag {
+  indices: number[];
+  fromDay: number; // Day of the pill being dragged; the drop day minus this is the offset
+}
+
+const DRAG_HINT = 'Drag to move, Alt+drag to copy, Shift+click to select several';
+
+// Day cell under a touch point, for dragging on touch screens
+const dayAtPoint = (x: number, y: number): number | null => {
+  const cell = document.elementFromPoint(x, y)?.closest('[data-day]');
+  return cell instanceof HTMLElement ? Number(cell.dataset.day) : null;
+};
+
+// Monday-first column headers for calendar mode
+const WEEK_HEADERS = [...WEEKDAY_NAMES.slice(1), WEEKDAY_NAMES[0]!];
+
 const TimelineGrid: React.FC<TimelineGridProps> = ({
   doses,
   viewDays,
@@ -28,16 +51,122 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
   onDoseClick,
   onPillClick,
   onDoseAdd,
-  onAddAnotherDose
+  onAddAnotherDose,
+  startDate = null,
+  onDosesMove,
+  doseDisplay = DEFAULT_DOSE_DISPLAY,
+  getMedicationColor = getEsterColor,
+  repeatSchedule = false
 }) => {
 
   const [hoveredDay, setHoveredDay] = React.useState<number | null>(null);
+  const [multiSelection, setMultiSelection] = React.useState<number[]>([]);
+  const [drag, setDrag] = React.useState<DoseDrag | null>(null);
+  const [dropDay, setDropDay] = React.useState<number | null>(null);
+
+  // Indices shift when doses change, so start a fresh selection
+  React.useEffect(() => {
+    setMultiSelection([]);
+  }, [doses]);
+
+  const handlePillSelect = (index: number, extend: boolean) => {
+    if (!extend) {
+      setMultiSelection([]);
+      onPillClick(index);
+      return;
+    }
+    const current = multiSelection.length > 0 || selectedDoseIndex === null ? multiSelection : [selectedDoseIndex];
+    setMultiSelection(current.includes(index) ? current.filter(i => i !== index) : [...current, index]);
+  };
+
+  const startDrag = (index: number, day: number) => {
+    setDrag({ indices: multiSelection.includes(index) ? multiSelection : [index], fromDay: day });
+  };
+
+  const endDrag = () => {
+    setDrag(null);
+    setDropDay(null);
+  };
+
+  const finishDrag = (day: number | null, copy: boolean) => {
+    if (drag && day !== null && onDosesMove && (day !== drag.fromDay || copy)) {
+      onDosesMove(drag.indices, day - drag.fromDay, copy);
+    }
+    endDrag();
+  };
+
+  // Drop target handlers shared by empty and filled days
+  const dropHandlers = (day: number) => (onDosesMove ? {
+    'data-day': day,
+    onDragOver: (e: React.DragEvent) => {
+      if (!drag) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = e.altKey ? 'copy' : 'move';
+      setDropDay(day);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      finishDrag(day, e.altKey);
+    }
+  } : {});
+
+  const dayBorderColor = (day: number, isSelected: boolean) => {
+    if (drag && dropDay === day) return COLORS.primary;
+    return isSelected ? COLORS.primaryHover : COLORS.gray300;
+  };
+
+  // Corner label: day of month in calendar mode (with the month on the 1st), otherwise every 7th day number
+  const getCornerLabel = (day: number): string | null => {
+    const date = startDate ? dateForDay(startDate, day) : null;
+    if (date) {
+      return date.getUTCDate() === 1 || day === 0 ? formatShortDate(date) : String(date.getUTCDate());
+    }
+    return day % 7 === 0 ? String(day) : null;
+  };
+
+  // Days since a patch was applied; when the schedule repeats, patches applied near the end
+  // of the cycle are still worn at the start of the next one
+  const daysSinceApplied = (patch: Dose, day: number) =>
+    repeatSchedule && viewDays > 0 ? (((day - patch.day) % viewDays) + viewDays) % viewDays : day - patch.day;
+
+  // Patches applied on an earlier day that are still being worn on this day
+  const renderPatchSpans = (day: number) => {
+    const wornPatches = doses.filter(d =>
+      d.medication &&
+      isTransdermalMedication(d.medication) &&
+      daysSinceApplied(d, day) > 0 &&
+      daysSinceApplied(d, day) < d.medication.wearDays
+    );
+
+    return wornPatches.map((patch, i) => {
+      const wearDays = isTransdermalMedication(patch.medication) ? patch.medication.wearDays : 0;
+      const isLastDay = daysSinceApplied(patch, day) + 1 >= wearDays;
+      return (
+        <div
+          key={`patch-span-${patch.day}-${i}`}
+          style={{
+            position: 'absolute' as const,
+            left: 0,
+            right: isLastDay ? '30%' : 0,
+            bottom: `${2 + i * 6}px`,
+            height: '4px',
+            backgroundColor: getMedicationColor(patch.medication.name),
+            borderRadius: isLastDay ? '0 2px 2px 0' : 0,
+            pointerEvents: 'none' as const
+          }}
+          title={`${patch.medication.name} applied day ${patch.day} (${formatNumber(patch.dose)}µg/day)`}
+        />
+      );
+    });
+  };
 
   const renderTimelineDay = (day: number) => {
     const dosesOnDay = doses.filter(d => d.day === day);
     const hasInjections = dosesOnDay.length > 0;
     const isSelected = selectedDose === day;
     const isHovered = hoveredDay === day;
+    const cornerLabel = getCornerLabel(day);
+    const dayLabel = formatDayLabel(day, startDate);
 
     if (hasInjections) {
       return (
@@ -46,6 +175,7 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
           onClick={() => onDoseClick(day)}
           onMouseEnter={() => setHoveredDay(day)}
           onMouseLeave={() => setHoveredDay(null)}
+          {...dropHandlers(day)}
           className="testcell"
           style={{
             width: '100%',
@@ -53,7 +183,7 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
             minHeight: '0',
             maxHeight: '100%',
             backgroundColor: COLORS.white,
-            border: `2px solid ${isSelected ? COLORS.primaryHover : COLORS.gray300}`,
+            border: `2px ${drag && dropDay === day ? 'dashed' : 'solid'} ${dayBorderColor(day, isSelected)}`,
             borderRadius: BORDER_RADIUS.sm,
             cursor: 'pointer',
             display: 'flex',
@@ -67,10 +197,10 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
             overflow: 'hidden',
             boxSizing: 'border-box' as const
           }}
-          title={`Day ${day}: ${dosesOnDay.length} medication${dosesOnDay.length > 1 ? 's' : ''}`}
+          title={`${dayLabel}: ${dosesOnDay.length} medication${dosesOnDay.length > 1 ? 's' : ''}`}
         >
           {/* Day number in top-left corner */}
-          {day % 7 === 0 && (
+          {cornerLabel && (
             <div
               style={{
                 position: 'absolute' as const,
@@ -82,7 +212,7 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                 pointerEvents: 'none' as const
               }}
             >
-              {day}
+              {cornerLabel}
             </div>
           )}
 
@@ -132,15 +262,27 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
             const globalIndex = doses.findIndex(d => d === doseData);
             const medication = doseData.medication || doseData.ester; // Backward compatibility
             const medicationName = medication?.name || 'Unknown';
-            const backgroundColor = getEsterColor(medicationName);
-            const concentration = esterConcentrations[medicationName] || 40;
+            const backgroundColor = getMedicationColor(medicationName);
+            const concentration = getConcentration(esterConcentrations, medicationName);
             const volumeMl = doseData.dose / concentration;
-            const isSelected = selectedDoseIndex === globalIndex;
+            // Injections shown as the volume to draw up, when chosen in settings
+            const displayed = medication && 'type' in medication
+              ? getDisplayedDose(doseData.dose, medication, concentration, doseDisplay)
+              : null;
+            const volumeDisplay = displayed?.isVolume ? displayed : null;
+            const isSelected = selectedDoseIndex === globalIndex || multiSelection.includes(globalIndex);
             const isProgesterone = medication && isProgesteroneMedication(medication);
+            const isPatch = medication && 'type' in medication && isTransdermalMedication(medication);
+            const isInjection = medication && 'type' in medication ? isEstradiolMedication(medication) : true;
 
             // Get abbreviated name with route subscript for progesterone
             let abbreviatedName: string;
-            if (isProgesterone && 'route' in medication) {
+            if (isPatch) {
+              abbreviatedName = 'TD';
+            } else if (medication && 'type' in medication && isOralEstradiolMedication(medication)) {
+              // E with route: O (oral), S (sublingual)
+              abbreviatedName = `E${medication.route[0]!.toUpperCase()}`;
+            } else if (isProgesterone && 'route' in medication) {
               // P with subscript: O (oral), R (rectal), V (vaginal)
               const routeChar = medication.route[0]!.toUpperCase();
               abbreviatedName = `P${routeChar}`;
@@ -154,13 +296,36 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                 .slice(0, 3);
             }
 
+            const doseTitle = isPatch && isTransdermalMedication(medication)
+              ? `${medicationName}: ${formatNumber(doseData.dose)}µg/day, worn days ${day}–${formatNumber(day + medication.wearDays)}`
+              : !isInjection
+              ? `${medicationName}: ${formatNumber(doseData.dose)}mg`
+              : volumeDisplay
+              ? `${medicationName}: ${formatDisplayedDose(volumeDisplay)} = ${formatNumber(volumeDisplay.effectiveMg)}mg @ ${concentration}mg/mL` +
+                (isRoundedDose(volumeDisplay, doseData.dose) ? ` (scheduled ${formatNumber(doseData.dose)}mg)` : '')
+              : `${medicationName}: ${formatNumber(doseData.dose)}mg = ${formatNumber(volumeMl, 3)}mL @ ${concentration}mg/mL`;
+
             return (
               <div
                 key={globalIndex}
                 onClick={(e) => {
                   e.stopPropagation();
-                  onPillClick(globalIndex);
+                  handlePillSelect(globalIndex, e.shiftKey);
                 }}
+                draggable={!!onDosesMove}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'copyMove';
+                  e.dataTransfer.setData('text/plain', medicationName); // Firefox won't start a drag without data
+                  startDrag(globalIndex, day);
+                }}
+                onDragEnd={endDrag}
+                onTouchStart={() => onDosesMove && startDrag(globalIndex, day)}
+                onTouchMove={(e) => {
+                  const touch = e.touches[0];
+                  if (drag && touch) setDropDay(dayAtPoint(touch.clientX, touch.clientY));
+                }}
+                onTouchEnd={() => finishDrag(dropDay, false)}
+                onTouchCancel={endDrag}
                 style={{
                   backgroundColor,
                   borderRadius: '8px',
@@ -180,13 +345,12 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                   textOverflow: 'ellipsis',
                   whiteSpace: 'nowrap' as const,
                   flexShrink: 0,
-                  cursor: 'pointer',
+                  cursor: onDosesMove ? 'grab' : 'pointer',
+                  touchAction: onDosesMove ? 'none' as const : undefined, // Dragging a pill shouldn't scroll the grid
                   transition: 'all 0.15s ease',
-                  opacity: isSelected ? 1 : 0.95
+                  opacity: drag?.indices.includes(globalIndex) ? 0.5 : isSelected ? 1 : 0.95
                 }}
-                title={isProgesterone
-                  ? `${medicationName}: ${formatNumber(doseData.dose)}mg`
-                  : `${medicationName}: ${formatNumber(doseData.dose)}mg = ${formatNumber(volumeMl, 3)}mL @ ${concentration}mg/mL`}
+                title={onDosesMove ? `${doseTitle}\n${DRAG_HINT}` : doseTitle}
                 onMouseOver={(e) => {
                   if (!isSelected) e.currentTarget.style.opacity = '1';
                 }}
@@ -195,13 +359,23 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                 }}
               >
                 <span style={{ fontSize: '10px', opacity: 0.9 }}>{abbreviatedName}</span>
-                <span style={{ fontSize: '11px' }}>{formatNumber(doseData.dose)}mg</span>
-                {!isProgesterone && (
-                  <span style={{ fontSize: '9px', opacity: 0.85 }}>({formatNumber(volumeMl, 2)}mL)</span>
+                {volumeDisplay ? (
+                  <>
+                    <span style={{ fontSize: '11px' }}>{formatDisplayedDose(volumeDisplay, '')}</span>
+                    <span style={{ fontSize: '9px', opacity: 0.85 }}>({formatNumber(volumeDisplay.effectiveMg)}mg)</span>
+                  </>
+                ) : (
+                  <>
+                    <span style={{ fontSize: '11px' }}>{formatNumber(doseData.dose)}{isPatch ? 'µg' : 'mg'}</span>
+                    {isInjection && (
+                      <span style={{ fontSize: '9px', opacity: 0.85 }}>({formatNumber(volumeMl, 2)}mL)</span>
+                    )}
+                  </>
                 )}
               </div>
             );
           })}
+          {renderPatchSpans(day)}
         </div>
       );
     }
@@ -214,13 +388,14 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
           // Select the newly added dose
           onDoseClick(day);
         }}
+        {...dropHandlers(day)}
         style={{
           width: '100%',
           aspectRatio: '1',
           minHeight: '0',
           maxHeight: '100%',
           backgroundColor: COLORS.gray50,
-          border: `2px solid ${COLORS.gray300}`,
+          border: `2px ${drag && dropDay === day ? 'dashed' : 'solid'} ${dayBorderColor(day, false)}`,
           borderRadius: BORDER_RADIUS.sm,
           cursor: 'pointer',
           display: 'flex',
@@ -233,23 +408,27 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
           transition: 'all 0.15s ease',
           boxSizing: 'border-box' as const
         }}
-        title={`Day ${day}: Click to add injection`}
+        title={`${dayLabel}: Click to add injection`}
       >
-        {day % 7 === 0 ? day : ''}
+        {cornerLabel ?? ''}
+        {renderPatchSpans(day)}
       </div>
     );
   };
 
   const renderWeeks = () => {
+    // In calendar mode, pad the first row so each column is a fixed weekday
+    const leadingBlanks = startDate ? daysSinceMonday(startDate) : 0;
+    const cells = [
+      ...Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />),
+      ...Array.from({ length: viewDays }, (_, day) => renderTimelineDay(day))
+    ];
+
     const weeks = [];
-    for (let week = 0; week < Math.ceil(viewDays / 7); week++) {
-      const weekDays = [];
-      for (let day = week * 7; day < Math.min((week + 1) * 7, viewDays); day++) {
-        weekDays.push(renderTimelineDay(day));
-      }
+    for (let week = 0; week < Math.ceil(cells.length / 7); week++) {
       weeks.push(
         <div key={week} style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: SPACING.sm, marginBottom: SPACING.sm }}>
-          {weekDays}
+          {cells.slice(week * 7, (week + 1) * 7)}
         </div>
       );
     }
@@ -267,6 +446,23 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
       scrollbarWidth: 'none', // Firefox
       msOverflowStyle: 'none' // IE/Edge
     }}>
+      {startDate && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: SPACING.sm, marginBottom: SPACING.sm }}>
+          {WEEK_HEADERS.map(name => (
+            <div
+              key={name}
+              style={{
+                textAlign: 'center' as const,
+                fontSize: TYPOGRAPHY.fontSize.xs,
+                fontWeight: TYPOGRAPHY.fontWeight.medium,
+                color: COLORS.gray500
+              }}
+            >
+              {name}
+            </div>
+          ))}
+        </div>
+      )}
       {renderWeeks()}
     </div>
   );
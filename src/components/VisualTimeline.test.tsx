@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import VisualTimeline from './VisualTimeline';
 import { Dose, ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { TRANSDERMAL_PATCHES } from '../data/transdermalPatches';
 
 describe('VisualTimeline', () => {
   const mockOnDosesChange = jest.fn();
@@ -98,6 +99,26 @@ describe('VisualTimeline', () => {
     });
   });
 
+  describe('Calendar mode', () => {
+    it('shows weekday headers and dates when a start date is set', () => {
+      // 2025-03-06 is a Thursday
+      render(<VisualTimeline {...defaultProps} startDate="2025-03-06" onStartDateChange={jest.fn()} />);
+
+      expect(screen.getByText('Mon')).toBeInTheDocument();
+      expect(screen.getByText('6 Mar')).toBeInTheDocument();
+      expect(screen.getByTitle('Thu 6 Mar: Click to add injection')).toBeInTheDocument();
+    });
+
+    it('clears the start date when the date input is emptied', () => {
+      const onStartDateChange = jest.fn();
+      render(<VisualTimeline {...defaultProps} startDate="2025-03-06" onStartDateChange={onStartDateChange} />);
+
+      fireEvent.change(screen.getByLabelText('Schedule start date'), { target: { value: '' } });
+
+      expect(onStartDateChange).toHaveBeenCalledWith(null);
+    });
+  });
+
   describe('Repeat and Steady State toggles', () => {
     it('renders repeat checkbox', () => {
       render(<VisualTimeline {...defaultProps} />);
@@ -171,6 +192,22 @@ describe('VisualTimeline', () => {
     });
   });
 
+  describe('Patch wear spans', () => {
+    const weeklyPatch = TRANSDERMAL_PATCHES.find(p => p.wearDays === 7)!;
+    const doses: Dose[] = [{ day: 12, dose: 50, medication: weeklyPatch }];
+    const spanTitle = `${weeklyPatch.name} applied day 12 (50µg/day)`;
+
+    it('ends at the last day of a one-off schedule', () => {
+      render(<VisualTimeline {...defaultProps} doses={doses} viewDays={14} />);
+      expect(screen.getAllByTitle(spanTitle)).toHaveLength(1); // Day 13
+    });
+
+    it('wraps to the start of a repeating schedule', () => {
+      render(<VisualTimeline {...defaultProps} doses={doses} viewDays={14} repeatSchedule={true} />);
+      expect(screen.getAllByTitle(spanTitle)).toHaveLength(6); // Day 13 and days 0-4
+    });
+  });
+
   describe('Dosage display', () => {
     it('shows total mg for non-repeated schedules', () => {
       const doses: Dose[] = [
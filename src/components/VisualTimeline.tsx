@@ -1,14 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dose, ESTRADIOL_ESTERS } from '../data/estradiolEsters';
 import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
-import { EstradiolMedication, isProgesteroneMedication } from '../types/medication';
+import { findMedicationByName } from '../data/medications';
+import { AnyMedication, EstradiolMedication, getDoseUnit, isEstradiolMedication, isOralEstradiolMedication, isProgesteroneMedication, isTransdermalMedication } from '../types/medication';
+import { DEFAULTS } from '../constants/pharmacokinetics';
+import { createMedicationColorLookup } from '../constants/colors';
 import { formatNumber } from '../utils/formatters';
 import { useDebouncedInput } from '../hooks/useDebounce';
 import { parsePositiveInteger } from '../utils/validation';
+import { todayISODate } from '../utils/dates';
+import { downloadICS, generateICS } from '../utils/icsExport';
+import { WhatIfScenario } from '../utils/whatIf';
+import { moveDoses } from '../utils/doseConstraints';
+import { DoseDisplaySettings, DEFAULT_DOSE_DISPLAY } from '../utils/doseUnits';
+import { Preset } from '../data/presets';
 import PresetsMenu from './PresetsMenu';
+import PatternGeneratorModal from './PatternGeneratorModal';
 import ResetConfirmation from './ResetConfirmation';
 import DoseEditor from './DoseEditor';
 import TimelineGrid from './TimelineGrid';
+import HistoryControls from './HistoryControls';
+import { ScheduleChange } from '../utils/scheduleDiff';
 import { COLORS, TYPOGRAPHY, SPACING, BUTTON_STYLES, INPUT_STYLES, mergeStyles } from '../constants/styles';
 
 interface VisualTimelineProps {
@@ -22,8 +34,25 @@ interface VisualTimelineProps {
   onSteadyStateChange: (steadyState: boolean) => void;
   esterConcentrations: Record<string, number>;
   onOptimizeModeChange: (mode: boolean) => void;
+  customMedications?: AnyMedication[];
+  startDate?: string | null;
+  onStartDateChange?: (startDate: string | null) => void;
+  whatIfScenario?: WhatIfScenario | null;
+  onWhatIfScenarioChange?: (scenario: WhatIfScenario | null) => void;
+  customPresets?: Preset[];
+  onCustomPresetsChange?: (presets: Preset[]) => void;
+  doseDisplay?: DoseDisplaySettings;
+  history?: {
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    lastChanges: ScheduleChange[];
+  };
 }
 
+const NO_CUSTOM_MEDICATIONS: AnyMedication[] = [];
+
 const VisualTimeline: React.FC<VisualTimelineProps> = ({
   doses,
   onDosesChange,
@@ -34,9 +63,19 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
   steadyState,
   onSteadyStateChange,
   esterConcentrations,
-  onOptimizeModeChange
+  onOptimizeModeChange,
+  customMedications = NO_CUSTOM_MEDICATIONS,
+  startDate = null,
+  onStartDateChange,
+  whatIfScenario = null,
+  onWhatIfScenarioChange,
+  customPresets = [],
+  onCustomPresetsChange,
+  doseDisplay = DEFAULT_DOSE_DISPLAY,
+  history
 }) => {
   const [selectedDoseIndex, setSelectedDoseIndex] = useState<number | null>(null);
+  const getMedicationColor = useMemo(() => createMedicationColorLookup(customMedications), [customMedications]);
   const [scheduleInputValue, setScheduleInputValue] = useDebouncedInput(
     viewDays.toString(),
     (value) => {
@@ -49,7 +88,9 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
   );
   const [showResetModal, setShowResetModal] = useState(false);
   const [showPresetsMenu, setShowPresetsMenu] = useState(false);
+  const [showPatternGenerator, setShowPatternGenerator] = useState(false);
   const [previousViewDays, setPreviousViewDays] = useState(viewDays);
+  const [moveError, setMoveError] = useState<string | null>(null);
 
   // Auto-remove injections beyond schedule length when it's reduced
   useEffect(() => {
@@ -82,6 +123,19 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
     onDosesChange(newDoses);
   };
 
+  // Without a calendar start date, day 0 is taken to be today
+  const exportCalendar = () => {
+    const ics = generateICS({
+      doses,
+      scheduleLength: viewDays,
+      repeat: repeatSchedule,
+      esterConcentrations,
+      startDate: startDate ?? todayISODate(),
+      doseDisplay
+    });
+    downloadICS(ics, 'estradiol-schedule.ics');
+  };
+
   const addAnotherDoseToDay = (day: number) => {
     const defaultProgesterone = PROGESTERONE_ROUTES[0]!;
     const newDoses = [...doses, { day, dose: 100, medication: defaultProgesterone }];
@@ -106,12 +160,17 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
   const updateDoseMedication = (index: number, medicationName: string) => {
     if (index < 0 || index >= doses.length) return;
 
-    const allMedications = [...ESTRADIOL_ESTERS, ...PROGESTERONE_ROUTES];
-    const medication = allMedications.find(m => m.name === medicationName);
+    const medication = findMedicationByName(medicationName, customMedications);
     if (!medication) return;
 
     const newDoses = [...doses];
-    newDoses[index] = { ...newDoses[index]!, medication };
+    const current = newDoses[index]!;
+    // Patch strengths (µg/day) and mg doses aren't interchangeable, so reset the amount
+    const unitChanged = getDoseUnit(current.medication) !== getDoseUnit(medication);
+    const dose = unitChanged
+      ? (isTransdermalMedication(medication) ? DEFAULTS.DEFAULT_PATCH_STRENGTH_UG_PER_DAY : DEFAULTS.DEFAULT_DOSE_MG)
+      : current.dose;
+    newDoses[index] = { ...current, medication, dose };
     onDosesChange(newDoses);
   };
 
@@ -126,9 +185,19 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
     setSelectedDoseIndex(index);
   };
 
+  const handleDosesMove = (indices: number[], dayOffset: number, copy: boolean) => {
+    const result = moveDoses(doses, indices, dayOffset, { copy, scheduleLength: viewDays });
+    setMoveError(result.error);
+    if (result.error) return;
+    onDosesChange(result.doses);
+    setSelectedDoseIndex(result.indices.length === 1 ? result.indices[0]! : null);
+  };
+
   const selectedDoseData = selectedDoseIndex !== null && selectedDoseIndex < doses.length ? doses[selectedDoseIndex]! : null;
 
-  const estradiolDoses = doses.filter(d => !isProgesteroneMedication(d.medication));
+  const estradiolDoses = doses.filter(d => isEstradiolMedication(d.medication));
+  const patchDoses = doses.filter(d => isTransdermalMedication(d.medication));
+  const oralEstradiolDoses = doses.filter(d => isOralEstradiolMedication(d.medication));
   const progesteroneDoses = doses.filter(d => isProgesteroneMedication(d.medication));
 
   const getEstradiolDosageText = (): string => {
@@ -152,6 +221,14 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
       parts.push(`${estradiolDoses.length} injection${estradiolDoses.length !== 1 ? 's' : ''}`);
     }
 
+    if (patchDoses.length > 0) {
+      parts.push(`${patchDoses.length} patch${patchDoses.length !== 1 ? 'es' : ''}`);
+    }
+
+    if (oralEstradiolDoses.length > 0) {
+      parts.push(`${oralEstradiolDoses.length} oral E2 dose${oralEstradiolDoses.length !== 1 ? 's' : ''}`);
+    }
+
     if (progesteroneDoses.length > 0) {
       parts.push(`${progesteroneDoses.length} P4 dose${progesteroneDoses.length !== 1 ? 's' : ''}`);
     }
@@ -174,6 +251,7 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
               {getEstradiolDosageText()}
             </div>
             <div style={{ display: 'flex', gap: SPACING.md }}>
+              {history && <HistoryControls {...history} />}
               <div style={{ position: 'relative' }}>
                 <button
                   onClick={() => onOptimizeModeChange(true)}
@@ -205,8 +283,49 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
                     onRepeatScheduleChange(repeat);
                     setSelectedDoseIndex(null);
                   }}
+                  customPresets={customPresets}
+                  onCustomPresetsChange={onCustomPresetsChange}
+                  currentSchedule={{ doses, scheduleLength: viewDays, repeat: repeatSchedule }}
                 />
               </div>
+              <button
+                onClick={() => setShowPatternGenerator(true)}
+                style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.small, {
+                  backgroundColor: COLORS.gray600,
+                  color: COLORS.white
+                })}
+                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = COLORS.gray700}
+                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = COLORS.gray600}
+                title="Fill the schedule with a regular pattern, e.g. every 5 days"
+              >
+                Pattern
+              </button>
+              <PatternGeneratorModal
+                isOpen={showPatternGenerator}
+                onClose={() => setShowPatternGenerator(false)}
+                doses={doses}
+                scheduleLength={viewDays}
+                startDate={startDate}
+                onApply={(newDoses) => {
+                  onDosesChange(newDoses);
+                  setSelectedDoseIndex(null);
+                }}
+                customMedications={customMedications}
+              />
+              {doses.length > 0 && (
+                <button
+                  onClick={exportCalendar}
+                  style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.small, {
+                    backgroundColor: COLORS.gray600,
+                    color: COLORS.white
+                  })}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = COLORS.gray700}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = COLORS.gray600}
+                  title={startDate ? 'Download the schedule as a calendar file' : 'Download the schedule as a calendar file, starting today'}
+                >
+                  Export .ics
+                </button>
+              )}
               {doses.length > 0 && (
                 <div style={{ position: 'relative' }}>
                   <button
@@ -246,6 +365,26 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
 
 
           <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.xl }}>
+            {onStartDateChange && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
+                <label
+                  style={{ fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600 }}
+                  title="Show calendar dates for day 0 onwards (leave empty for day numbers)"
+                >
+                  Starts:
+                </label>
+                <input
+                  type="date"
+                  aria-label="Schedule start date"
+                  value={startDate ?? ''}
+                  onChange={(e) => onStartDateChange(e.target.value || null)}
+                  style={mergeStyles(INPUT_STYLES.base, {
+                    padding: `${SPACING.xs} ${SPACING.sm}`,
+                    fontSize: TYPOGRAPHY.fontSize.base
+                  })}
+                />
+              </div>
+            )}
             <div style={{ display: 'flex', alignItems: 'center', gap: SPACING.sm }}>
               <label style={{ fontSize: TYPOGRAPHY.fontSize.base, color: COLORS.gray600 }}>
                 Schedule:
@@ -328,8 +467,24 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
           onPillClick={handlePillClick}
           onDoseAdd={addOrUpdateDose}
           onAddAnotherDose={addAnotherDoseToDay}
+          startDate={startDate}
+          onDosesMove={handleDosesMove}
+          doseDisplay={doseDisplay}
+          getMedicationColor={getMedicationColor}
+          repeatSchedule={repeatSchedule}
         />
 
+        {moveError && (
+          <div
+            role="alert"
+            style={{ marginTop: SPACING.sm, fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.danger, cursor: 'pointer' }}
+            onClick={() => setMoveError(null)}
+            title="Dismiss"
+          >
+            {moveError}
+          </div>
+        )}
+
         {selectedDoseData && selectedDoseIndex !== null && (
           <DoseEditor
             selectedDoseData={selectedDoseData}
@@ -340,6 +495,12 @@ const VisualTimeline: React.FC<VisualTimelineProps> = ({
             onRemoveDose={removeDose}
             onClose={() => setSelectedDoseIndex(null)}
             isPopover={true}
+            customMedications={customMedications}
+            startDate={startDate}
+            esterConcentrations={esterConcentrations}
+            doseDisplay={doseDisplay}
+            whatIfScenario={whatIfScenario?.doseIndex === selectedDoseIndex ? whatIfScenario : null}
+            onWhatIfChange={repeatSchedule && steadyState ? onWhatIfScenarioChange : undefined}
           />
         )}
       </div>
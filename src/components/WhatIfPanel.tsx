@@ -0,0 +1,71 @@
+import { Dose } from '../data/estradiolEsters';
+import { getDoseUnit } from '../types/medication';
+import { WhatIfResult, WhatIfScenario } from '../utils/whatIf';
+import { formatDayLabel } from '../utils/dates';
+import { formatNumber } from '../utils/formatters';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, BUTTON_STYLES, mergeStyles } from '../constants/styles';
+
+interface WhatIfPanelProps {
+  scenario: WhatIfScenario;
+  dose: Dose;
+  result: WhatIfResult;
+  startDate?: string | null;
+  onClear: () => void;
+}
+
+// Deviation is a mean squared relative error, shown as a typical percentage difference from the plan
+const formatDeviation = (deviation: number) => `${formatNumber(Math.sqrt(deviation) * 100, 0)}%`;
+
+const WhatIfPanel: React.FC<WhatIfPanelProps> = ({
+  scenario,
+  dose,
+  result,
+  startDate = null,
+  onClear
+}) => {
+  const dayLabel = startDate ? formatDayLabel(dose.day, startDate) : `day ${dose.day}`;
+  const doseLabel = `${formatNumber(dose.dose)} ${getDoseUnit(dose.medication)} ${dose.medication.name} on ${dayLabel}`;
+  const scenarioLabel = scenario.kind === 'missed'
+    ? 'missed'
+    : `taken ${scenario.delayDays} day${scenario.delayDays > 1 ? 's' : ''} late`;
+
+  return (
+    <div style={{
+      marginTop: SPACING['2xl'],
+      padding: SPACING.xl,
+      backgroundColor: COLORS.gray50,
+      borderLeft: `4px solid ${COLORS.chartWhatIf}`,
+      borderRadius: BORDER_RADIUS.md
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: SPACING.md, gap: SPACING.md }}>
+        <h4 style={{ margin: 0, fontSize: TYPOGRAPHY.fontSize.lg }}>What if: {doseLabel} is {scenarioLabel}</h4>
+        <button
+          onClick={onClear}
+          style={mergeStyles(BUTTON_STYLES.base, BUTTON_STYLES.secondary, BUTTON_STYLES.small)}
+        >
+          Clear
+        </button>
+      </div>
+
+      <div style={{ fontSize: TYPOGRAPHY.fontSize.sm, color: COLORS.gray700 }}>
+        <div>
+          Deviation from the planned levels over the following cycles:{' '}
+          <strong>{formatDeviation(result.perturbedDeviation)}</strong>
+        </div>
+        {result.suggestion ? (
+          <div style={{ marginTop: SPACING.md }}>
+            <span style={{ color: COLORS.chartWhatIfCorrected, fontWeight: TYPOGRAPHY.fontWeight.semibold }}>Suggested correction:</span>{' '}
+            {result.suggestion.description}, reducing the deviation to{' '}
+            <strong>{formatDeviation(result.suggestion.deviation)}</strong>.
+          </div>
+        ) : (
+          <div style={{ marginTop: SPACING.md }}>
+            No catch-up dose or schedule shift does better than simply continuing the plan.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WhatIfPanel;
@@ -20,6 +20,22 @@ export const PROGESTERONE_COLORS: Record<string, string> = {
   'Progesterone (vaginal)': '#ee9b6e',      // Soft peachy coral
 } as const;
 
+/**
+ * Transdermal patch colors (teal tones, distinct from injectables and progesterone)
+ */
+export const TRANSDERMAL_COLORS: Record<string, string> = {
+  'Estradiol patch (twice weekly)': '#5fb3b3',  // Soft teal
+  'Estradiol patch (weekly)': '#3d8f8f',        // Deep teal
+} as const;
+
+/**
+ * Oral/sublingual estradiol colors (rose tones)
+ */
+export const ORAL_ESTRADIOL_COLORS: Record<string, string> = {
+  'Estradiol (oral)': '#d88aa8',        // Dusty rose
+  'Estradiol (sublingual)': '#c2678b',  // Deep rose
+} as const;
+
 /**
  * Default ester color (fallback)
  */
@@ -34,6 +50,16 @@ export const DEFAULT_PROGESTERONE_COLOR = '#f4a261';
  * Get color for an ester by name
  */
 export const getEsterColor: (esterName: string) => string = (esterName) => {
-  return ESTER_COLORS[esterName] || PROGESTERONE_COLORS[esterName] || DEFAULT_ESTER_COLOR;
+  return ESTER_COLORS[esterName] || TRANSDERMAL_COLORS[esterName] || ORAL_ESTRADIOL_COLORS[esterName] || PROGESTERONE_COLORS[esterName] || DEFAULT_ESTER_COLOR;
 };
 
+/**
+ * Color lookup that also knows the colors of user-defined medications
+ */
+export function createMedicationColorLookup(customMedications: { name: string; color?: string }[]): (name: string) => string {
+  const customColors = new Map<string, string>();
+  customMedications.forEach(m => {
+    if (m.color) customColors.set(m.name, m.color);
+  });
+  return (name) => customColors.get(name) || getEsterColor(name);
+}
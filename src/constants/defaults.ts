@@ -61,3 +61,21 @@ export const Z_INDEX = {
   /** Nested modal or popover (above other modals) */
   MODAL_ELEVATED: 1001,
 } as const;
+
+/**
+ * localStorage keys for persisted user data
+ */
+export const STORAGE_KEYS = {
+  OPTIMIZER_SETTINGS: 'optimizerSettings',
+  ESTER_CONCENTRATIONS: 'esterConcentrations',
+  BLOOD_DRAWS: 'bloodDraws', // Legacy; merged into LAB_RESULTS on load
+  CUSTOM_MEDICATIONS: 'customMedications',
+  LAB_RESULTS: 'labResults',
+  DOSE_LOG: 'doseLog',
+  PINNED_SCHEDULES: 'pinnedSchedules',
+  SCHEDULE_LIBRARY: 'scheduleLibrary',
+  CUSTOM_PRESETS: 'customPresets',
+  DOSE_DISPLAY: 'doseDisplay',
+  VIAL_INVENTORY: 'vialInventory',
+  CUSTOM_REFERENCES: 'customReferences',
+} as const;
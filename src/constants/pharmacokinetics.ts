@@ -4,6 +4,9 @@
 export const PHARMACOKINETICS = {
   /** Maximum days an ester continues to affect concentration after injection */
   ESTER_EFFECT_DURATION_DAYS: 100,
+
+  /** Days after patch removal that residual absorption still affects concentration */
+  PATCH_TAIL_DURATION_DAYS: 5,
   
   /** Time step for generating concentration data points */
   TIME_POINT_STEP: 0.5,
@@ -25,5 +28,25 @@ export const DEFAULTS = {
   DEFAULT_REPEAT: true,
   DEFAULT_CYCLE_TYPE: 'typical' as const,
   DEFAULT_CONCENTRATION_MG_PER_ML: 40, // Common concentration for injectable estradiol
+  DEFAULT_PATCH_STRENGTH_UG_PER_DAY: 100,
 } as const;
 
+
+/**
+ * Between-patient variability used for population percentile bands
+ */
+export const VARIABILITY = {
+  /** Number of virtual patients simulated */
+  PATIENT_COUNT: 200,
+
+  /** Fixed seed so the bands don't shift between renders */
+  SEED: 20240101,
+
+  /** Standard deviation of ln(parameter) across patients, per ester parameter */
+  LOG_SD: {
+    D: 0.3,
+    k1: 0.35,
+    k2: 0.25,
+    k3: 0.25,
+  },
+} as const;
@@ -10,6 +10,7 @@ export const COLORS = {
 
   // Semantic colors
   danger: '#c77a9b',
+  success: '#2f855a',
   warning: '#fff3cd',
   warningText: '#856404',
 
@@ -38,6 +39,13 @@ export const COLORS = {
   // Chart colors
   chartPrimary: '#b794f6',
   chartReference: '#ff7300',
+  chartEstrone: '#d88aa8',
+  chartLabEstradiol: '#6b46c1',
+  chartLabProgesterone: '#581c87',
+  chartActualEstradiol: '#553c9a',
+  chartActualProgesterone: '#7e22ce',
+  chartWhatIf: '#e07a5f',
+  chartWhatIfCorrected: '#2a9d8f',
 } as const;
 
 // Typography
@@ -18,7 +18,7 @@ export interface EstradiolEster {
 export interface Dose {
   day: number;
   time?: number; // Time of day (0-24 hours), optional for multiple doses per day
-  dose: number;  // Amount in mg
+  dose: number;  // Amount in mg (patch strength in µg/day for transdermal medications)
   medication: AnyMedication;
 
   // Legacy support - will be removed in future version
@@ -0,0 +1,25 @@
+import { AnyMedication } from '../types/medication';
+import { ESTRADIOL_ESTERS } from './estradiolEsters';
+import { PROGESTERONE_ROUTES } from './progesteroneRoutes';
+import { TRANSDERMAL_PATCHES } from './transdermalPatches';
+import { ORAL_ESTRADIOL_ROUTES } from './oralEstradiolRoutes';
+
+/**
+ * Every built-in medication, in display order
+ */
+export const ALL_MEDICATIONS: AnyMedication[] = [
+  ...ESTRADIOL_ESTERS,
+  ...TRANSDERMAL_PATCHES,
+  ...ORAL_ESTRADIOL_ROUTES,
+  ...PROGESTERONE_ROUTES,
+];
+
+/**
+ * Look up a medication by its display name, including any user-defined medications
+ */
+export function findMedicationByName(
+  name: string,
+  customMedications: AnyMedication[] = []
+): AnyMedication | undefined {
+  return ALL_MEDICATIONS.find(m => m.name === name) || customMedications.find(m => m.name === name);
+}
@@ -0,0 +1,48 @@
+import { OralEstradiolMedication, MedicationType } from '../types/medication';
+
+/**
+ * Pharmacokinetic parameters for oral and sublingual estradiol
+ * Based on clinical literature and research from transfemscience.org
+ */
+
+export const ORAL_ESTRADIOL_ROUTES: OralEstradiolMedication[] = [
+  {
+    type: MedicationType.ORAL_ESTRADIOL,
+    name: 'Estradiol (oral)',
+    route: 'oral',
+    // Oral estradiol undergoes extensive first-pass metabolism in the gut wall and liver
+    // Source: transfemscience.org/articles/oral-e2-pharmacokinetics/
+    // Peak levels: ~60-70 pg/mL with 2mg dose, roughly flat for 4-12 hours
+    // Time to peak: 4-8 hours
+    // Apparent half-life: 13-20 hours (enterohepatic recycling, estrone reservoir)
+    // Estrone exceeds estradiol about 5:1
+    bioavailability: 0.05,          // ~5% reaches circulation as estradiol
+    absorptionRate: 0.35,           // ka: Tmax ~6h
+    eliminationRate: 0.046,         // ke: T½ ~15h
+    volumeOfDistribution: 1100,     // Vd adjusted to match observed Cmax ~65 pg/mL at 2mg
+    estroneFraction: 0.28,          // E1:E2 ~5:1 at peak
+    estroneEliminationRate: 0.05,   // ke: T½ ~14h
+  },
+  {
+    type: MedicationType.ORAL_ESTRADIOL,
+    name: 'Estradiol (sublingual)',
+    route: 'sublingual',
+    // Sublingual estradiol is partly absorbed through the oral mucosa, bypassing first pass
+    // Source: transfemscience.org/articles/sublingual-e2/
+    // Peak levels: ~300 pg/mL with 1mg dose, falling quickly
+    // Time to peak: ~1 hour
+    // Half-life: ~4 hours for the initial decline
+    // Estrone stays below or near estradiol (E1:E2 ~0.5-1)
+    bioavailability: 0.10,          // ~10% (mucosal absorption escapes first pass)
+    absorptionRate: 2.0,            // ka: Tmax ~1h
+    eliminationRate: 0.17,          // ke: T½ ~4h
+    volumeOfDistribution: 250,      // Vd adjusted to match observed Cmax ~300 pg/mL at 1mg
+    estroneFraction: 0.0625,        // Swallowed fraction metabolised to estrone
+    estroneEliminationRate: 0.10,   // ke: T½ ~7h
+  },
+];
+
+/**
+ * Standard oral estradiol tablet strengths (in mg)
+ */
+export const ORAL_ESTRADIOL_DOSES = [0.5, 1, 2] as const;
@@ -0,0 +1,123 @@
+import {
+  DEFAULT_FLAT_TARGET,
+  generateFlatTarget,
+  generateReferenceCycle,
+  generateReferenceRange,
+  getReferenceAt,
+  getReferenceRangeAt,
+  interpolateReference,
+  parseFlatTarget,
+  REFERENCE_CYCLES
+} from './referenceData';
+
+const typical = REFERENCE_CYCLES.find(c => c.id === 'typical')!;
+const peakDay = (points: { day: number; estradiol: number }[]) =>
+  points.reduce((peak, p) => (p.estradiol > peak.estradiol ? p : peak)).day;
+
+describe('generateReferenceCycle', () => {
+  it('should keep the recorded values at the native cycle length', () => {
+    const cycle = generateReferenceCycle(28, 'typical');
+
+    expect(cycle).toHaveLength(29);
+    typical.data.forEach(point => {
+      expect(cycle[point.day - 1]!.estradiol).toBeCloseTo(point.estradiol);
+      expect(cycle[point.day - 1]!.progesterone).toBeCloseTo(point.progesterone!);
+    });
+  });
+
+  it('should keep the luteal phase length and move ovulation with the cycle length', () => {
+    expect(peakDay(generateReferenceCycle(27, 'typical', 28))).toBe(13);
+    expect(peakDay(generateReferenceCycle(34, 'typical', 35))).toBe(20);
+    expect(generateReferenceCycle(34, 'typical', 35)[34]!.estradiol).toBeCloseTo(typical.data[28]!.estradiol);
+  });
+
+  it('should scale both phases evenly for cycles too short to keep the luteal phase', () => {
+    const cycle = generateReferenceCycle(9, 'typical', 10);
+
+    expect(peakDay(cycle)).toBe(5);
+    expect(cycle[0]!.estradiol).toBeCloseTo(typical.data[0]!.estradiol);
+  });
+
+  it('should repeat the resized cycle', () => {
+    const cycle = generateReferenceCycle(70, 'typical', 35);
+
+    expect(cycle[55]!.estradiol).toBeCloseTo(cycle[20]!.estradiol);
+  });
+});
+
+describe('getReferenceAt', () => {
+  it('should interpolate between days instead of stepping', () => {
+    const midway = getReferenceAt(12.5, 'typical');
+
+    expect(midway.estradiol).toBeCloseTo((175 + 210) / 2);
+    expect(midway.progesterone).toBeCloseTo((0.92 + 1.0) / 2);
+  });
+
+  it('should wrap from the end of the cycle back to its start', () => {
+    const last = typical.data[28]!;
+    const first = typical.data[0]!;
+
+    expect(getReferenceAt(28.5, 'typical').estradiol).toBeCloseTo((last.estradiol + first.estradiol) / 2);
+  });
+});
+
+describe('interpolateReference', () => {
+  it('should bridge gaps in the data linearly', () => {
+    const data = [{ day: 1, estradiol: 10 }, { day: 5, estradiol: 50 }];
+
+    expect(interpolateReference(data, 8, 2).estradiol).toBeCloseTo(30);
+    expect(interpolateReference(data, 8, 7).estradiol).toBeCloseTo(20); // Between day 5 and day 1 of the next cycle
+  });
+
+  it('should wrap across the cycle end when the data does not cover it', () => {
+    const data = [{ day: 3, estradiol: 30, progesterone: 3 }, { day: 5, estradiol: 50, progesterone: 5 }];
+
+    // Day 7 lies between day 5 and day 3 of the next cycle (day 11)
+    const wrapped = interpolateReference(data, 8, 6);
+    expect(wrapped.estradiol).toBeCloseTo(50 - 20 / 3);
+    expect(wrapped.progesterone).toBeCloseTo(5 - 2 / 3);
+    expect(interpolateReference(data, 8, 7.99).estradiol).toBeCloseTo(50 - 20 * (3.99 / 6));
+    // Day 1 lies between day 5 of the previous cycle (day -3) and day 3
+    expect(interpolateReference(data, 8, 0).estradiol).toBeCloseTo(50 - 20 * (4 / 6));
+  });
+});
+
+describe('generateReferenceRange', () => {
+  it('should band the median between the 5th and 95th percentile cycles', () => {
+    const range = generateReferenceRange(28);
+    const ovulation = range[14]!;
+
+    expect(ovulation.estradiol).toBeCloseTo(223);
+    expect(ovulation.estradiolRange).toEqual([60, 603]);
+    range.forEach(point => {
+      expect(point.estradiol).toBeGreaterThanOrEqual(point.estradiolRange[0]);
+      expect(point.estradiol).toBeLessThanOrEqual(point.estradiolRange[1]);
+      expect(point.progesteroneRange).toBeDefined();
+    });
+  });
+
+  it('should resize like a single reference cycle', () => {
+    expect(getReferenceRangeAt(13, 28).estradiolRange).toEqual(generateReferenceRange(28)[14]!.estradiolRange);
+  });
+});
+
+describe('generateFlatTarget', () => {
+  it('should hold a constant band with no progesterone target', () => {
+    const target = generateFlatTarget(6, { kind: 'range', min: 100, max: 200 });
+
+    expect(target).toHaveLength(7);
+    expect(target[3]).toEqual({ day: 3, estradiol: 150, estradiolRange: [100, 200] });
+  });
+
+  it('should collapse the band onto a target average', () => {
+    expect(generateFlatTarget(0, { kind: 'average', average: 120 })[0]!.estradiolRange).toEqual([120, 120]);
+  });
+});
+
+describe('parseFlatTarget', () => {
+  it('should keep valid targets and replace malformed ones with the default', () => {
+    expect(parseFlatTarget({ kind: 'average', average: 150 })).toEqual({ kind: 'average', average: 150 });
+    expect(parseFlatTarget({ kind: 'range', min: 300, max: 100 })).toBe(DEFAULT_FLAT_TARGET);
+    expect(parseFlatTarget(undefined)).toBe(DEFAULT_FLAT_TARGET);
+  });
+});
@@ -4,7 +4,13 @@ export interface ReferencePoint {
   progesterone?: number; // ng/mL, optional for backward compatibility
 }
 
-export type ReferenceCycleType = 'typical' | 'hrt-target' | 'conservative' | 'high-physiological';
+export type BuiltInReferenceCycleType = 'typical' | 'hrt-target' | 'conservative' | 'high-physiological';
+export type CustomReferenceCycleType = `custom-${string}`; // Curves imported by the user
+export type ReferenceCycleType = BuiltInReferenceCycleType | CustomReferenceCycleType;
+
+// Match the reference curve, only keep levels inside the 5th-95th percentile band,
+// or hold estradiol steady within a flat target for monotherapy
+export type ReferenceTarget = 'curve' | 'range' | 'flat';
 
 export interface ReferenceCycleInfo {
   id: ReferenceCycleType;
@@ -13,6 +19,7 @@ export interface ReferenceCycleInfo {
   source: string;
   sourceUrl?: string;
   cycleLength: number; // Length of the reference cycle in days (e.g., 29 for menstrual cycle)
+  ovulationDay: number; // Day of the ovulation peak; kept aligned when the cycle is resized
   data: ReferencePoint[];
 }
 
@@ -222,7 +229,7 @@ const HIGH_PHYSIOLOGICAL_DATA: ReferencePoint[] = [
   { day: 29, estradiol: 75, progesterone: 1.2 },
 ];
 
-// All available reference cycles
+// Built-in reference cycles; imported ones are passed alongside as `customCycles`
 export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
   {
     id: 'typical',
@@ -231,6 +238,7 @@ export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
     source: 'PMC8042396',
     sourceUrl: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC8042396/',
     cycleLength: 29,
+    ovulationDay: 15,
     data: TYPICAL_CYCLE_DATA
   },
   {
@@ -240,6 +248,7 @@ export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
     source: 'Transfeminine Science',
     sourceUrl: 'https://transfemscience.org/articles/e2-equivalent-doses/',
     cycleLength: 29,
+    ovulationDay: 15,
     data: HRT_TARGET_DATA
   },
   {
@@ -249,6 +258,7 @@ export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
     source: 'PMC8042396',
     sourceUrl: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC8042396/',
     cycleLength: 29,
+    ovulationDay: 15,
     data: CONSERVATIVE_CYCLE_DATA
   },
   {
@@ -258,6 +268,7 @@ export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
     source: 'PMC8042396',
     sourceUrl: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC8042396/',
     cycleLength: 29,
+    ovulationDay: 15,
     data: HIGH_PHYSIOLOGICAL_DATA
   }
 ];
@@ -265,42 +276,197 @@ export const REFERENCE_CYCLES: ReferenceCycleInfo[] = [
 // Legacy export for backwards compatibility
 export const CIS_WOMEN_CYCLE = TYPICAL_CYCLE_DATA;
 
-export function generateReferenceCycle(
-  totalDays: number,
-  cycleType: ReferenceCycleType = 'typical'
-): ReferencePoint[] {
-  const cycleInfo = REFERENCE_CYCLES.find(c => c.id === cycleType);
+type ReferenceValues = Omit<ReferencePoint, 'day'>;
+
+export const findReferenceCycle = (
+  cycleType: ReferenceCycleType,
+  customCycles: ReferenceCycleInfo[] = []
+): ReferenceCycleInfo | undefined =>
+  REFERENCE_CYCLES.find(c => c.id === cycleType) || customCycles.find(c => c.id === cycleType);
+
+const getCycleInfo = (cycleType: ReferenceCycleType, customCycles: ReferenceCycleInfo[]): ReferenceCycleInfo => {
+  const cycleInfo = findReferenceCycle(cycleType, customCycles);
   if (!cycleInfo) {
     throw new Error(`Unknown cycle type: ${cycleType}`);
   }
+  return cycleInfo;
+};
+
+/**
+ * Map a position in a cycle of `targetLength` days onto the source cycle (both 0-based).
+ * The luteal phase keeps its length, as it does in real cycles, and the follicular phase
+ * absorbs the difference so ovulation lands the same number of days before the cycle ends.
+ * If that would squeeze the follicular phase below half its length, both phases scale evenly.
+ */
+function toSourcePosition(position: number, targetLength: number, cycleInfo: ReferenceCycleInfo): number {
+  const sourceLength = cycleInfo.cycleLength;
+  const sourceOvulation = cycleInfo.ovulationDay - 1;
+  const lutealLength = sourceLength - sourceOvulation;
+  const targetOvulation = targetLength - lutealLength >= sourceOvulation / 2
+    ? targetLength - lutealLength
+    : sourceOvulation * targetLength / sourceLength;
+
+  return position < targetOvulation
+    ? position * sourceOvulation / targetOvulation
+    : sourceOvulation + (position - targetOvulation) * lutealLength / (targetLength - targetOvulation);
+}
+
+/**
+ * Linearly interpolate reference values at a 0-based position in the source cycle,
+ * wrapping from the last data point back to the first so repeated cycles join smoothly
+ */
+export function interpolateReference(data: ReferencePoint[], cycleLength: number, position: number): ReferenceValues {
+  const points = [...data].sort((a, b) => a.day - b.day);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return { estradiol: 0 };
+
+  const day = (((position % cycleLength) + cycleLength) % cycleLength) + 1;
+  const nextIndex = points.findIndex(p => p.day > day);
+  let before: ReferencePoint;
+  let after: ReferencePoint;
+  if (nextIndex === -1) {
+    // After the last point: head for the first point of the next cycle
+    before = last;
+    after = { ...first, day: first.day + cycleLength };
+  } else if (nextIndex === 0) {
+    // Before the first point: come from the last point of the previous cycle
+    before = { ...last, day: last.day - cycleLength };
+    after = first;
+  } else {
+    before = points[nextIndex - 1]!;
+    after = points[nextIndex]!;
+  }
+  const t = after.day > before.day ? (day - before.day) / (after.day - before.day) : 0;
+
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const values: ReferenceValues = { estradiol: lerp(before.estradiol, after.estradiol) };
+  if (before.progesterone !== undefined) {
+    values.progesterone = after.progesterone !== undefined
+      ? lerp(before.progesterone, after.progesterone)
+      : before.progesterone;
+  }
+  return values;
+}
 
-  const cycleData = cycleInfo.data;
-  const cycleLength = 29;
+/**
+ * Reference values at any (fractional) schedule day, with the cycle resized to `cycleLength` days
+ * and repeating after that
+ */
+export function getReferenceAt(
+  day: number,
+  cycleType: ReferenceCycleType = 'typical',
+  cycleLength?: number,
+  customCycles: ReferenceCycleInfo[] = []
+): ReferenceValues {
+  const cycleInfo = getCycleInfo(cycleType, customCycles);
+  const targetLength = cycleLength ?? cycleInfo.cycleLength;
+  const position = ((day % targetLength) + targetLength) % targetLength;
+  return interpolateReference(cycleInfo.data, cycleInfo.cycleLength, toSourcePosition(position, targetLength, cycleInfo));
+}
+
+/**
+ * Daily reference points for days 0 to `totalDays`
+ * @param cycleLength - Length to stretch or compress the reference cycle to; defaults to its own length
+ */
+export function generateReferenceCycle(
+  totalDays: number,
+  cycleType: ReferenceCycleType = 'typical',
+  cycleLength?: number,
+  customCycles: ReferenceCycleInfo[] = []
+): ReferencePoint[] {
   const referenceData: ReferencePoint[] = [];
 
   for (let day = 0; day <= totalDays; day++) {
-    const cycleDay = (day % cycleLength) + 1;
-    const referencePoint = cycleData.find(p => p.day === cycleDay);
-
-    if (referencePoint) {
-      referenceData.push({
-        day,
-        estradiol: referencePoint.estradiol,
-        progesterone: referencePoint.progesterone
-      });
-    } else {
-      // Fallback interpolation if exact day not found
-      const closestPoint = cycleData.reduce((prev, curr) =>
-        Math.abs(curr.day - cycleDay) < Math.abs(prev.day - cycleDay) ? curr : prev
-      );
-
-      referenceData.push({
-        day,
-        estradiol: closestPoint.estradiol,
-        progesterone: closestPoint.progesterone
-      });
-    }
+    referenceData.push({ day, ...getReferenceAt(day, cycleType, cycleLength, customCycles) });
   }
 
   return referenceData;
 }
+
+// The conservative, typical and high-physiological cycles are the 5th, 50th and 95th
+// percentiles of the same PMC8042396 data, so together they describe the normal range
+export const REFERENCE_PERCENTILE_CYCLES = {
+  low: 'conservative',
+  median: 'typical',
+  high: 'high-physiological'
+} as const;
+
+export interface ReferenceRangePoint extends ReferencePoint { // Median levels plus the 5th-95th percentile band
+  estradiolRange: [number, number];
+  progesteroneRange?: [number, number];
+}
+
+const toRange = (a: number, b: number): [number, number] => [Math.min(a, b), Math.max(a, b)];
+
+/**
+ * Median and 5th-95th percentile levels at any (fractional) schedule day, resized like `getReferenceAt`
+ */
+export function getReferenceRangeAt(day: number, cycleLength?: number): Omit<ReferenceRangePoint, 'day'> {
+  const low = getReferenceAt(day, REFERENCE_PERCENTILE_CYCLES.low, cycleLength);
+  const median = getReferenceAt(day, REFERENCE_PERCENTILE_CYCLES.median, cycleLength);
+  const high = getReferenceAt(day, REFERENCE_PERCENTILE_CYCLES.high, cycleLength);
+
+  const range: Omit<ReferenceRangePoint, 'day'> = {
+    ...median,
+    estradiolRange: toRange(low.estradiol, high.estradiol)
+  };
+  if (low.progesterone !== undefined && high.progesterone !== undefined) {
+    range.progesteroneRange = toRange(low.progesterone, high.progesterone);
+  }
+  return range;
+}
+
+/**
+ * Daily percentile bands for days 0 to `totalDays`
+ */
+export function generateReferenceRange(totalDays: number, cycleLength?: number): ReferenceRangePoint[] {
+  const rangeData: ReferenceRangePoint[] = [];
+
+  for (let day = 0; day <= totalDays; day++) {
+    rangeData.push({ day, ...getReferenceRangeAt(day, cycleLength) });
+  }
+
+  return rangeData;
+}
+
+// Steady estradiol goal for monotherapy: stay within a band, or as close as possible to an average
+export type FlatTarget =
+  | { kind: 'range'; min: number; max: number } // pg/mL
+  | { kind: 'average'; average: number };
+
+export const DEFAULT_FLAT_TARGET: FlatTarget = { kind: 'range', min: 100, max: 200 };
+
+export const getFlatTargetBounds = (target: FlatTarget): [number, number] =>
+  target.kind === 'range' ? [target.min, target.max] : [target.average, target.average];
+
+/**
+ * Read a stored flat target, falling back to the default when it is malformed
+ */
+export function parseFlatTarget(raw: unknown): FlatTarget {
+  if (typeof raw !== 'object' || raw === null) return DEFAULT_FLAT_TARGET;
+  const target = raw as Record<string, unknown>;
+  const isLevel = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+  if (target.kind === 'average' && isLevel(target.average)) {
+    return { kind: 'average', average: target.average };
+  }
+  if (target.kind === 'range' && isLevel(target.min) && isLevel(target.max) && target.min <= target.max) {
+    return { kind: 'range', min: target.min, max: target.max };
+  }
+  return DEFAULT_FLAT_TARGET;
+}
+
+/**
+ * Constant estradiol band for days 0 to `totalDays`, with no progesterone target
+ */
+export function generateFlatTarget(totalDays: number, target: FlatTarget): ReferenceRangePoint[] {
+  const [min, max] = getFlatTargetBounds(target);
+  const flatData: ReferenceRangePoint[] = [];
+
+  for (let day = 0; day <= totalDays; day++) {
+    flatData.push({ day, estradiol: (min + max) / 2, estradiolRange: [min, max] });
+  }
+
+  return flatData;
+}
@@ -0,0 +1,37 @@
+import { TransdermalMedication, MedicationType } from '../types/medication';
+
+/**
+ * Pharmacokinetic parameters for transdermal estradiol patches
+ * Based on product labelling and research from transfemscience.org
+ */
+
+export const TRANSDERMAL_PATCHES: TransdermalMedication[] = [
+  {
+    type: MedicationType.TRANSDERMAL,
+    name: 'Estradiol patch (twice weekly)',
+    // Matrix patches such as Vivelle-Dot/Estradot, changed every 3-4 days
+    // Source: transfemscience.org/articles/transdermal-e2/
+    // Roughly 1 pg/mL of estradiol per µg/day delivered at steady state
+    // Plateau reached within ~12-24 hours of application
+    // Levels return to baseline within ~24 hours of removal
+    wearDays: 3.5,
+    concentrationPerRate: 1.0,
+    absorptionRate: 3.0,    // ka: ~5.5h to half of plateau
+    eliminationRate: 2.8,   // ke: apparent T½ ~6h after removal (skin depot)
+  },
+  {
+    type: MedicationType.TRANSDERMAL,
+    name: 'Estradiol patch (weekly)',
+    // Once-weekly matrix patches such as Climara
+    // Delivery is similar per µg/day, with slightly lower apparent levels late in the wear period
+    wearDays: 7,
+    concentrationPerRate: 0.9,
+    absorptionRate: 2.5,    // ka: ~6.5h to half of plateau
+    eliminationRate: 2.8,   // ke: apparent T½ ~6h after removal (skin depot)
+  },
+];
+
+/**
+ * Commercially available patch strengths (in µg/day)
+ */
+export const PATCH_STRENGTHS = [25, 37.5, 50, 75, 100] as const;
@@ -0,0 +1,99 @@
+import { renderHook, act } from '@testing-library/react';
+import { useHistory } from './useHistory';
+
+const isEqual = (a: number, b: number) => a === b;
+
+describe('useHistory', () => {
+  const setup = (paused = false) => {
+    let value = 0;
+    const onRestore = jest.fn((restored: number) => { value = restored; });
+    const view = renderHook(
+      ({ present, isPaused }) => useHistory(present, onRestore, { isEqual, coalesceMs: 0, paused: isPaused }),
+      { initialProps: { present: value, isPaused: paused } }
+    );
+    const change = (next: number, isPaused = false) => {
+      value = next;
+      view.rerender({ present: value, isPaused });
+    };
+    return { view, change, onRestore, current: () => value };
+  };
+
+  it('should record changes and undo/redo them', () => {
+    const { view, change, onRestore, current } = setup();
+    change(1);
+    change(2);
+    expect(view.result.current.past).toEqual([0, 1]);
+
+    act(() => view.result.current.undo());
+    expect(onRestore).toHaveBeenLastCalledWith(1);
+    view.rerender({ present: current(), isPaused: false });
+    expect(view.result.current.past).toEqual([0]);
+    expect(view.result.current.future).toEqual([2]);
+
+    act(() => view.result.current.redo());
+    expect(onRestore).toHaveBeenLastCalledWith(2);
+    view.rerender({ present: current(), isPaused: false });
+    expect(view.result.current.past).toEqual([0, 1]);
+    expect(view.result.current.canRedo).toBe(false);
+  });
+
+  it('should clear redo history after a new edit', () => {
+    const { view, change, current } = setup();
+    change(1);
+    act(() => view.result.current.undo());
+    view.rerender({ present: current(), isPaused: false });
+    expect(view.result.current.canRedo).toBe(true);
+
+    change(5);
+    expect(view.result.current.past).toEqual([0]);
+    expect(view.result.current.canRedo).toBe(false);
+  });
+
+  it('should record changes made while paused as one step', () => {
+    const { view, change } = setup();
+    change(1, true);
+    change(2, true);
+    change(3, true);
+    expect(view.result.current.past).toEqual([]);
+
+    change(3, false);
+    expect(view.result.current.past).toEqual([0]);
+  });
+
+  it('should coalesce quick edits of the same thing', () => {
+    const onRestore = jest.fn();
+    const view = renderHook(
+      ({ present }) => useHistory(present, onRestore, { isEqual, coalesceMs: 60000, getEditKey: () => 'value' }),
+      { initialProps: { present: 0 } }
+    );
+    view.rerender({ present: 1 });
+    view.rerender({ present: 2 });
+
+    expect(view.result.current.past).toEqual([0]);
+  });
+
+  it('should keep quick edits of different things as separate steps', () => {
+    const onRestore = jest.fn();
+    const getEditKey = (_previous: number, present: number) => (present % 2 === 0 ? 'even' : 'odd');
+    const view = renderHook(
+      ({ present }) => useHistory(present, onRestore, { isEqual, coalesceMs: 60000, getEditKey }),
+      { initialProps: { present: 0 } }
+    );
+    view.rerender({ present: 1 });
+    view.rerender({ present: 2 });
+
+    expect(view.result.current.past).toEqual([0, 1]);
+  });
+
+  it('should not coalesce edits without a key', () => {
+    const onRestore = jest.fn();
+    const view = renderHook(
+      ({ present }) => useHistory(present, onRestore, { isEqual, coalesceMs: 60000 }),
+      { initialProps: { present: 0 } }
+    );
+    view.rerender({ present: 1 });
+    view.rerender({ present: 2 });
+
+    expect(view.result.current.past).toEqual([0, 1]);
+  });
+});
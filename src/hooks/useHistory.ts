@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface HistoryControls<T> {
+  past: T[]; // Oldest first; the last entry is what undo restores
+  future: T[]; // Next first; the first entry is what redo restores
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+}
+
+interface UseHistoryOptions<T> {
+  isEqual: (a: T, b: T) => boolean;
+  limit?: number;
+  coalesceMs?: number;
+  getEditKey?: (previous: T, present: T) => string | null; // Changes with the same non-null key may be coalesced
+  paused?: boolean; // While true, changes build up into a single step recorded on resume
+}
+
+/**
+ * Hook for undo/redo over a piece of state that is changed from many places.
+ * Rather than wrapping every setter, it watches `present` and records the previous
+ * value whenever it changes. Continuous edits of the same thing (typing a dose amount,
+ * a length change followed by trimming doses), identified by `getEditKey`, are coalesced
+ * into one step when they follow each other quickly, as are all changes made while paused
+ * (intermediate optimizer results). Any other change starts a new step.
+ *
+ * @param present - The current state, e.g. a snapshot of the schedule
+ * @param onRestore - Called with the state to apply on undo/redo
+ * @returns History stacks and undo/redo actions
+ */
+export const useHistory = <T,>(
+  present: T,
+  onRestore: (state: T) => void,
+  { isEqual, limit = 100, coalesceMs = 1000, getEditKey, paused = false }: UseHistoryOptions<T>
+): HistoryControls<T> => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  const currentRef = useRef(present);
+  const restoringRef = useRef(false);
+  const lastEditRef = useRef<{ key: string | null; time: number }>({ key: null, time: 0 });
+
+  useEffect(() => {
+    if (paused || isEqual(present, currentRef.current)) return;
+
+    const previous = currentRef.current;
+    currentRef.current = present;
+
+    // Changes applied by undo/redo themselves are not new history
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      return;
+    }
+
+    const edit = { key: getEditKey ? getEditKey(previous, present) : null, time: Date.now() };
+    const coalesce = edit.key !== null && edit.key === lastEditRef.current.key &&
+      edit.time - lastEditRef.current.time < coalesceMs;
+    lastEditRef.current = edit;
+
+    if (!coalesce) {
+      setPast(stack => [...stack, previous].slice(-limit));
+    }
+    setFuture([]);
+  }, [present, isEqual, limit, coalesceMs, getEditKey, paused]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (previous === undefined) return;
+
+    setPast(past.slice(0, -1));
+    setFuture([currentRef.current, ...future]);
+    restoringRef.current = true;
+    lastEditRef.current = { key: null, time: 0 };
+    onRestore(previous);
+  }, [past, future, onRestore]);
+
+  const redo = useCallback(() => {
+    const next = future[0];
+    if (next === undefined) return;
+
+    setFuture(future.slice(1));
+    setPast([...past, currentRef.current]);
+    restoringRef.current = true;
+    lastEditRef.current = { key: null, time: 0 };
+    onRestore(next);
+  }, [past, future, onRestore]);
+
+  return { past, future, canUndo: past.length > 0, canRedo: future.length > 0, undo, redo };
+};
@@ -4,7 +4,9 @@
 
 export enum MedicationType {
   ESTRADIOL = 'estradiol',
-  PROGESTERONE = 'progesterone'
+  PROGESTERONE = 'progesterone',
+  TRANSDERMAL = 'transdermal',
+  ORAL_ESTRADIOL = 'oral-estradiol'
 }
 
 /**
@@ -13,6 +15,7 @@ export enum MedicationType {
 export interface Medication {
   type: MedicationType;
   name: string;
+  color?: string; // Display colour for user-defined medications
 }
 
 /**
@@ -42,10 +45,38 @@ export interface ProgesteroneMedication extends Medication {
   volumeOfDistribution: number; // Vd (liters)
 }
 
+/**
+ * Transdermal estradiol patch using zero-order delivery over a wear period
+ * Dose is the labelled patch strength in µg/day rather than mg
+ */
+export interface TransdermalMedication extends Medication {
+  type: MedicationType.TRANSDERMAL;
+  wearDays: number;             // Days each patch stays on before removal (e.g. 3.5 or 7)
+  concentrationPerRate: number; // Steady-state pg/mL per µg/day delivered
+  absorptionRate: number;       // ka (1/day), rise towards steady state through the skin depot
+  eliminationRate: number;      // ke (1/day), decline after the patch is removed
+}
+
+/**
+ * Oral or sublingual estradiol using one-compartment pharmacokinetic model
+ * First-pass metabolism converts part of each dose to estrone, modelled as a
+ * parallel compartment sharing the absorption rate
+ */
+export interface OralEstradiolMedication extends Medication {
+  type: MedicationType.ORAL_ESTRADIOL;
+  route: 'oral' | 'sublingual';
+  bioavailability: number;        // F (fraction reaching circulation as estradiol, 0-1)
+  absorptionRate: number;         // ka (1/hour)
+  eliminationRate: number;        // ke (1/hour)
+  volumeOfDistribution: number;   // Vd (liters)
+  estroneFraction: number;        // Fraction of dose reaching circulation as estrone (0-1)
+  estroneEliminationRate: number; // ke for estrone (1/hour)
+}
+
 /**
  * Union type for any medication
  */
-export type AnyMedication = EstradiolMedication | ProgesteroneMedication;
+export type AnyMedication = EstradiolMedication | ProgesteroneMedication | TransdermalMedication | OralEstradiolMedication;
 
 /**
  * Type guard to check if medication is estradiol
@@ -60,3 +91,24 @@ export function isEstradiolMedication(med: AnyMedication): med is EstradiolMedic
 export function isProgesteroneMedication(med: AnyMedication): med is ProgesteroneMedication {
   return med.type === MedicationType.PROGESTERONE;
 }
+
+/**
+ * Type guard to check if medication is a transdermal patch
+ */
+export function isTransdermalMedication(med: AnyMedication): med is TransdermalMedication {
+  return med.type === MedicationType.TRANSDERMAL;
+}
+
+/**
+ * Type guard to check if medication is oral or sublingual estradiol
+ */
+export function isOralEstradiolMedication(med: AnyMedication): med is OralEstradiolMedication {
+  return med.type === MedicationType.ORAL_ESTRADIOL;
+}
+
+/**
+ * Unit that Dose.dose is expressed in for a medication
+ */
+export function getDoseUnit(med: AnyMedication): 'mg' | 'µg/day' {
+  return isTransdermalMedication(med) ? 'µg/day' : 'mg';
+}
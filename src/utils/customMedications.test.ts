@@ -0,0 +1,89 @@
+import {
+  createCustomMedicationTemplate,
+  mergeCustomMedications,
+  validateCustomMedication
+} from './customMedications';
+import { encodeSchedule, decodeSchedule } from './urlEncoding';
+import { createMedicationColorLookup, getEsterColor, DEFAULT_ESTER_COLOR } from '../constants/colors';
+import { AnyMedication, MedicationType } from '../types/medication';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+
+const customEster = (overrides: Partial<AnyMedication> = {}): AnyMedication => ({
+  ...createCustomMedicationTemplate(MedicationType.ESTRADIOL),
+  name: 'Estradiol custom',
+  color: '#123456',
+  ...overrides
+} as AnyMedication);
+
+describe('validateCustomMedication', () => {
+  it('should accept a template with a new name', () => {
+    expect(validateCustomMedication(customEster())).toBeNull();
+  });
+
+  it('should reject missing, built-in and duplicate names', () => {
+    expect(validateCustomMedication(customEster({ name: '  ' }))).toMatch(/required/);
+    expect(validateCustomMedication(customEster({ name: ESTRADIOL_ESTERS[0]!.name }))).toMatch(/built-in/);
+    expect(validateCustomMedication(customEster(), ['Estradiol custom'])).toMatch(/already exists/);
+  });
+
+  it('should reject non-positive parameters and out-of-range fractions', () => {
+    expect(validateCustomMedication({ ...customEster(), k1: 0 } as AnyMedication)).toMatch(/k1/);
+    const progesterone = { ...createCustomMedicationTemplate(MedicationType.PROGESTERONE), name: 'P4 cream' };
+    expect(validateCustomMedication({ ...progesterone, bioavailability: 1.5 } as AnyMedication)).toMatch(/at most 1/);
+  });
+
+  it('should reject missing or unknown routes', () => {
+    const oral = { ...createCustomMedicationTemplate(MedicationType.ORAL_ESTRADIOL), name: 'Oral custom' };
+    expect(validateCustomMedication(oral)).toBeNull();
+    expect(validateCustomMedication({ ...oral, route: '' } as unknown as AnyMedication)).toMatch(/Route/);
+    expect(validateCustomMedication({ ...oral, route: undefined } as unknown as AnyMedication)).toMatch(/Route/);
+    expect(validateCustomMedication({ ...oral, route: 'rectal' } as AnyMedication)).toMatch(/Route/);
+  });
+});
+
+describe('mergeCustomMedications', () => {
+  it('should only add unknown medications', () => {
+    const existing = [customEster()];
+    const merged = mergeCustomMedications(existing, [
+      ESTRADIOL_ESTERS[1]!,
+      customEster({ color: '#ffffff' }),
+      customEster({ name: 'Shared ester' })
+    ]);
+
+    expect(merged.map(m => m.name)).toEqual(['Estradiol custom', 'Shared ester']);
+    expect(merged[0]!.color).toBe('#123456');
+  });
+
+  it('should skip medications that fail validation', () => {
+    const missingParameter = { ...customEster({ name: 'No k2' }), k2: undefined } as unknown as AnyMedication;
+    expect(mergeCustomMedications([], [missingParameter, customEster({ name: '' })])).toEqual([]);
+  });
+
+  it('should return the same array when nothing is added', () => {
+    const existing = [customEster()];
+    expect(mergeCustomMedications(existing, [ESTRADIOL_ESTERS[0]!])).toBe(existing);
+  });
+});
+
+describe('custom medication colors', () => {
+  it('should resolve custom colors by name and fall back to the built-in colors', () => {
+    const getColor = createMedicationColorLookup([customEster()]);
+    expect(getColor('Estradiol custom')).toBe('#123456');
+    expect(getColor(ESTRADIOL_ESTERS[1]!.name)).toBe(getEsterColor(ESTRADIOL_ESTERS[1]!.name));
+
+    expect(createMedicationColorLookup([])('Estradiol custom')).toBe(DEFAULT_ESTER_COLOR);
+  });
+
+  it('should survive a URL round trip', () => {
+    const encoded = encodeSchedule({
+      doses: [{ day: 0, dose: 4, medication: customEster() }],
+      scheduleLength: 7,
+      graphDays: 30,
+      repeat: true,
+      steadyState: false,
+      cycleType: 'typical'
+    });
+    const decoded = decodeSchedule(encoded);
+    expect(decoded?.doses[0]!.medication).toEqual(customEster());
+  });
+});
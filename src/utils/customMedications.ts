@@ -0,0 +1,160 @@
+import { AnyMedication, MedicationType } from '../types/medication';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+import { TRANSDERMAL_PATCHES } from '../data/transdermalPatches';
+import { ORAL_ESTRADIOL_ROUTES } from '../data/oralEstradiolRoutes';
+import { ALL_MEDICATIONS } from '../data/medications';
+
+/**
+ * User-defined medications: templates, validation and merging
+ */
+
+export interface ParameterField {
+  key: string;
+  label: string;
+  /** Upper bound for fractions; other parameters only need to be positive */
+  max?: number;
+}
+
+export const CUSTOM_MEDICATION_TYPE_LABELS: Record<MedicationType, string> = {
+  [MedicationType.ESTRADIOL]: 'Injectable estradiol',
+  [MedicationType.TRANSDERMAL]: 'Transdermal patch',
+  [MedicationType.ORAL_ESTRADIOL]: 'Oral/sublingual estradiol',
+  [MedicationType.PROGESTERONE]: 'Progesterone'
+};
+
+/**
+ * Editable pharmacokinetic parameters for each medication type
+ */
+export const PARAMETER_FIELDS: Record<MedicationType, ParameterField[]> = {
+  [MedicationType.ESTRADIOL]: [
+    { key: 'D', label: 'D (distribution coefficient)' },
+    { key: 'k1', label: 'k1 (1/day)' },
+    { key: 'k2', label: 'k2 (1/day)' },
+    { key: 'k3', label: 'k3 (1/day)' }
+  ],
+  [MedicationType.TRANSDERMAL]: [
+    { key: 'wearDays', label: 'Wear days' },
+    { key: 'concentrationPerRate', label: 'pg/mL per µg/day' },
+    { key: 'absorptionRate', label: 'ka (1/day)' },
+    { key: 'eliminationRate', label: 'ke (1/day)' }
+  ],
+  [MedicationType.ORAL_ESTRADIOL]: [
+    { key: 'bioavailability', label: 'Bioavailability (0-1)', max: 1 },
+    { key: 'absorptionRate', label: 'ka (1/hour)' },
+    { key: 'eliminationRate', label: 'ke (1/hour)' },
+    { key: 'volumeOfDistribution', label: 'Vd (L)' },
+    { key: 'estroneFraction', label: 'Estrone fraction (0-1)', max: 1 },
+    { key: 'estroneEliminationRate', label: 'Estrone ke (1/hour)' }
+  ],
+  [MedicationType.PROGESTERONE]: [
+    { key: 'bioavailability', label: 'Bioavailability (0-1)', max: 1 },
+    { key: 'absorptionRate', label: 'ka (1/hour)' },
+    { key: 'eliminationRate', label: 'ke (1/hour)' },
+    { key: 'volumeOfDistribution', label: 'Vd (L)' }
+  ]
+};
+
+/**
+ * Administration routes allowed for the medication types that have one
+ */
+export const MEDICATION_ROUTES: Partial<Record<MedicationType, string[]>> = {
+  [MedicationType.PROGESTERONE]: ['oral', 'rectal', 'vaginal'],
+  [MedicationType.ORAL_ESTRADIOL]: ['oral', 'sublingual']
+};
+
+/**
+ * Colours offered for new custom medications, distinct from the built-in palettes
+ */
+export const CUSTOM_MEDICATION_PALETTE = ['#6a8fd8', '#58a972', '#d8a23a', '#c0504d', '#7f7f9f', '#3fa7c4'];
+
+/**
+ * A new custom medication of the given type, starting from a built-in medication's parameters
+ */
+export function createCustomMedicationTemplate(type: MedicationType): AnyMedication {
+  const templates: Record<MedicationType, AnyMedication> = {
+    [MedicationType.ESTRADIOL]: ESTRADIOL_ESTERS[1]!,
+    [MedicationType.TRANSDERMAL]: TRANSDERMAL_PATCHES[0]!,
+    [MedicationType.ORAL_ESTRADIOL]: ORAL_ESTRADIOL_ROUTES[0]!,
+    [MedicationType.PROGESTERONE]: PROGESTERONE_ROUTES[0]!
+  };
+  return { ...templates[type], name: '' };
+}
+
+/**
+ * Check a custom medication before saving
+ *
+ * @param otherNames - Names of other custom medications, which the new name must not reuse
+ * @returns An error message, or null if the medication is valid
+ */
+export function validateCustomMedication(medication: AnyMedication, otherNames: string[] = []): string | null {
+  const name = medication.name.trim();
+  if (!name) return 'Name is required';
+  if (ALL_MEDICATIONS.some(m => m.name === name)) return `"${name}" is a built-in medication`;
+  if (otherNames.includes(name)) return `A custom medication named "${name}" already exists`;
+
+  return validateMedicationParameters(medication);
+}
+
+/**
+ * Check that a medication's type is known and its route and pharmacokinetic parameters are usable,
+ * e.g. for medications decoded from a shared URL
+ *
+ * @returns An error message, or null if the parameters are valid
+ */
+export function validateMedicationParameters(medication: AnyMedication): string | null {
+  const fields = PARAMETER_FIELDS[medication.type];
+  if (!fields) return 'Unknown medication type';
+
+  const values: Record<string, unknown> = { ...medication };
+  const routes = MEDICATION_ROUTES[medication.type];
+  if (routes && (typeof values.route !== 'string' || !routes.includes(values.route))) {
+    return `Route must be one of ${routes.join(', ')}`;
+  }
+
+  for (const field of fields) {
+    const value = values[field.key];
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      return `${field.label} must be a positive number`;
+    }
+    if (field.max !== undefined && value > field.max) {
+      return `${field.label} must be at most ${field.max}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a medication read from a file or storage. Built-in names, matched case-insensitively,
+ * give the built-in entry; anything else must pass validation as a custom medication.
+ *
+ * @returns The medication to use, or null if it can't be trusted
+ */
+export function resolveImportedMedication(raw: unknown): AnyMedication | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const medication = raw as AnyMedication;
+  if (typeof medication.name !== 'string') return null;
+
+  const name = medication.name.trim().toLowerCase();
+  const builtin = ALL_MEDICATIONS.find(m => m.name.toLowerCase() === name);
+  if (builtin) return builtin;
+
+  const knownTypes = Object.values(MedicationType) as string[];
+  return knownTypes.includes(medication.type) && validateCustomMedication(medication) === null ? medication : null;
+}
+
+/**
+ * Add medications that aren't built in or already known, e.g. those arriving in a shared URL.
+ * Existing entries win so a link can't silently change saved parameters, and invalid ones are dropped.
+ */
+export function mergeCustomMedications(existing: AnyMedication[], incoming: AnyMedication[]): AnyMedication[] {
+  const names = new Set([...ALL_MEDICATIONS, ...existing].map(m => m.name));
+  const added: AnyMedication[] = [];
+  incoming.forEach(medication => {
+    if (names.has(medication.name) || validateCustomMedication(medication) !== null) return;
+    names.add(medication.name);
+    added.push(medication);
+  });
+  return added.length > 0 ? [...existing, ...added] : existing;
+}
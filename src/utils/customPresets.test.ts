@@ -0,0 +1,71 @@
+import { createCustomPreset, mergeCustomPresets, parsePresetFile, serializePresets, validateCustomPreset } from './customPresets';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const doses = [{ day: 0, dose: 4, medication: EV }];
+
+describe('custom presets', () => {
+  it('should create presets with trimmed text and copied doses', () => {
+    const preset = createCustomPreset(' Clinic start ', ' 4mg EV weekly ', doses, 7, true);
+
+    expect(preset).toMatchObject({ name: 'Clinic start', description: '4mg EV weekly', scheduleLength: 7, repeat: true });
+    expect(preset.id).toMatch(/^custom-/);
+    expect(preset.doses[0]).not.toBe(doses[0]);
+  });
+
+  it('should validate names and doses', () => {
+    expect(validateCustomPreset(' ', [], doses)).toBe('Name is required');
+    expect(validateCustomPreset('EV Weekly', ['EV Weekly'], doses)).toMatch(/already exists/);
+    expect(validateCustomPreset('New', [], [])).toBe('The schedule has no doses to save');
+    expect(validateCustomPreset('New', [])).toBeNull();
+  });
+
+  it('should round-trip through a preset file', () => {
+    const presets = [createCustomPreset('A', 'first', doses, 7, true), createCustomPreset('B', '', doses, 10, false)];
+
+    expect(parsePresetFile(serializePresets(presets))).toEqual({ presets, error: null });
+  });
+
+  it('should reject files that are not preset files', () => {
+    expect(parsePresetFile('nope').error).toBe('File is not valid JSON');
+    expect(parsePresetFile(JSON.stringify({ schedules: [] })).error).toBe('Not a preset file');
+    expect(parsePresetFile(JSON.stringify({ format: 'estradiol-presets', version: 2, presets: [] })).error).toMatch(/version 2/);
+    expect(parsePresetFile(JSON.stringify({ format: 'estradiol-presets', version: 1, presets: [{ name: 'x' }] })).error)
+      .toBe('The file does not contain any readable presets');
+  });
+
+  it('should use built-in medications and skip presets with invalid ones', () => {
+    const file = JSON.stringify({
+      format: 'estradiol-presets',
+      version: 1,
+      presets: [
+        { name: 'Stale', doses: [{ day: 0, dose: 4, medication: { ...EV, name: 'estradiol valerate', D: 0 } }], scheduleLength: 7 },
+        { name: 'Broken', doses: [{ day: 0, dose: 4, medication: { ...EV, name: 'Mystery', k2: 'x' } }], scheduleLength: 7 }
+      ]
+    });
+    const { presets } = parsePresetFile(file);
+
+    expect(presets.map(p => p.name)).toEqual(['Stale']);
+    expect(presets[0]!.doses[0]!.medication).toBe(EV);
+  });
+
+  it('should give imported presets without a custom id a fresh one', () => {
+    const file = JSON.stringify({
+      format: 'estradiol-presets',
+      version: 1,
+      presets: [{ id: 'ev-weekly', name: 'Copy of built-in', doses, scheduleLength: 7 }]
+    });
+    const [preset] = parsePresetFile(file).presets;
+
+    expect(preset!.id).toMatch(/^custom-/);
+    expect(preset!.repeat).toBe(true);
+  });
+
+  it('should replace presets with the same id on import', () => {
+    const original = createCustomPreset('A', 'old', doses, 7, true);
+    const other = createCustomPreset('B', '', doses, 7, true);
+    const updated = { ...original, description: 'new' };
+
+    expect(mergeCustomPresets([original, other], [updated]).map(p => p.description)).toEqual(['', 'new']);
+  });
+});
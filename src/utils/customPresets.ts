@@ -0,0 +1,121 @@
+import { Dose } from '../data/estradiolEsters';
+import { Preset } from '../data/presets';
+import { migrateDoses } from './scheduleLibrary';
+import { downloadTextFile } from './download';
+
+/**
+ * User-defined presets, saved locally and shared as preset files
+ */
+
+export const PRESET_FILE_FORMAT = 'estradiol-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const CUSTOM_PRESET_ID_PREFIX = 'custom-';
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: Preset[];
+}
+
+export interface PresetParseResult {
+  presets: Preset[];
+  error: string | null;
+}
+
+let idCounter = 0;
+const generatePresetId = () => `${CUSTOM_PRESET_ID_PREFIX}${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+export function createCustomPreset(
+  name: string,
+  description: string,
+  doses: Dose[],
+  scheduleLength: number,
+  repeat: boolean
+): Preset {
+  return {
+    id: generatePresetId(),
+    name: name.trim(),
+    description: description.trim(),
+    doses: doses.map(d => ({ ...d })),
+    scheduleLength,
+    repeat
+  };
+}
+
+/**
+ * Validate a preset form, returning an error message or null
+ *
+ * @param doses - Doses about to be stored, or undefined when only the name and description change
+ */
+export function validateCustomPreset(name: string, otherNames: string[], doses?: Dose[]): string | null {
+  if (!name.trim()) return 'Name is required';
+  if (otherNames.includes(name.trim())) return `A preset named "${name.trim()}" already exists`;
+  if (doses && doses.length === 0) return 'The schedule has no doses to save';
+  return null;
+}
+
+export function serializePresets(presets: Preset[]): string {
+  const file: PresetFile = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+function parsePreset(raw: unknown): Preset | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const candidate = raw as Record<string, unknown>;
+  if (typeof candidate.name !== 'string' || !candidate.name.trim()) return null;
+  if (typeof candidate.scheduleLength !== 'number' || candidate.scheduleLength < 1) return null;
+
+  // Shared with the schedule library: medications are validated and built-ins swapped for the current entries
+  const doses = migrateDoses(candidate.doses);
+  if (!doses) return null;
+
+  return {
+    id: typeof candidate.id === 'string' && candidate.id.startsWith(CUSTOM_PRESET_ID_PREFIX)
+      ? candidate.id
+      : generatePresetId(),
+    name: candidate.name.trim(),
+    description: typeof candidate.description === 'string' ? candidate.description : '',
+    doses,
+    scheduleLength: candidate.scheduleLength,
+    repeat: candidate.repeat !== false
+  };
+}
+
+/**
+ * Read a preset file; invalid presets are skipped
+ */
+export function parsePresetFile(json: string): PresetParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { presets: [], error: 'File is not valid JSON' };
+  }
+
+  const file = raw as Partial<PresetFile> | null;
+  if (!file || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    return { presets: [], error: 'Not a preset file' };
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    return { presets: [], error: `Unsupported preset file version ${String(file.version)}. Please update the app.` };
+  }
+
+  const presets = file.presets.map(parsePreset).filter((p): p is Preset => p !== null);
+  if (presets.length === 0) {
+    return { presets: [], error: 'The file does not contain any readable presets' };
+  }
+  return { presets, error: null };
+}
+
+/**
+ * Add imported presets, replacing any with the same id (re-importing an updated clinic file)
+ */
+export function mergeCustomPresets(existing: Preset[], incoming: Preset[]): Preset[] {
+  const incomingIds = new Set(incoming.map(p => p.id));
+  return [...existing.filter(p => !incomingIds.has(p.id)), ...incoming];
+}
+
+export function downloadPresets(presets: Preset[], filename: string) {
+  downloadTextFile(serializePresets(presets), filename, 'application/json');
+}
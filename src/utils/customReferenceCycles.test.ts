@@ -0,0 +1,99 @@
+import {
+  createCustomReference,
+  migrateCustomReferences,
+  parseReferenceCsv,
+  validateCustomReference
+} from './customReferenceCycles';
+import { generateReferenceCycle } from '../data/referenceData';
+
+const MODEL_UNITS = { estradiol: 'pg/mL', progesterone: 'ng/mL' } as const;
+
+describe('parseReferenceCsv', () => {
+  it('should read headerless rows as day, estradiol and progesterone', () => {
+    const { points, errors } = parseReferenceCsv('1,50,0.5\n2,60\n', MODEL_UNITS);
+
+    expect(errors).toEqual([]);
+    expect(points).toEqual([
+      { day: 1, estradiol: 50, progesterone: 0.5 },
+      { day: 2, estradiol: 60 }
+    ]);
+  });
+
+  it('should pick columns and molar units from the header', () => {
+    const csv = 'Progesterone (nmol/L);Cycle day;E2 (pmol/L)\n3.18;1;367\n31.8;2;734';
+    const { points } = parseReferenceCsv(csv, MODEL_UNITS);
+
+    expect(points[0]!.estradiol).toBeCloseTo(100);
+    expect(points[0]!.progesterone).toBeCloseTo(1);
+    expect(points[1]!.day).toBe(2);
+    expect(points[1]!.progesterone).toBeCloseTo(10);
+  });
+
+  it('should convert with the chosen units and shift days counted from 0', () => {
+    const { points } = parseReferenceCsv('0,367\n1,734', { estradiol: 'pmol/L', progesterone: 'ng/mL' });
+
+    expect(points.map(p => p.day)).toEqual([1, 2]);
+    expect(points[1]!.estradiol).toBeCloseTo(200);
+  });
+
+  it('should report rows it cannot read', () => {
+    const { points, errors } = parseReferenceCsv('day,estradiol,progesterone\n1,50,1\n2,,1\n3,70,n/a', MODEL_UNITS);
+
+    expect(points).toHaveLength(1);
+    expect(errors).toEqual([
+      'Row 3: expected a day and an estradiol level',
+      'Row 4: progesterone "n/a" is not a level'
+    ]);
+  });
+
+  it('should reject a header without a day or estradiol column', () => {
+    expect(parseReferenceCsv('time,level\n1,2', MODEL_UNITS).errors).toEqual(['The header needs a day and an estradiol column']);
+  });
+});
+
+describe('validateCustomReference', () => {
+  const fields = { name: 'Clinic target', source: '', cycleLength: 28, points: [{ day: 1, estradiol: 50 }, { day: 14, estradiol: 250 }] };
+
+  it('should accept a complete curve', () => {
+    expect(validateCustomReference(fields, ['Typical Cycle'])).toBeNull();
+  });
+
+  it('should require a unique name and days inside the cycle', () => {
+    expect(validateCustomReference({ ...fields, name: ' ' }, [])).toBe('Name is required');
+    expect(validateCustomReference(fields, ['Clinic target'])).toBe('A reference named "Clinic target" already exists');
+    expect(validateCustomReference({ ...fields, cycleLength: 10 }, [])).toBe('Days must fall within the 10-day cycle');
+    expect(validateCustomReference({ ...fields, points: [fields.points[0]!] }, [])).toBe('The curve needs at least two data points');
+  });
+});
+
+describe('createCustomReference', () => {
+  it('should take the estradiol peak as ovulation and be usable as a reference', () => {
+    const reference = createCustomReference({
+      name: 'Clinic target',
+      source: 'Dr. Example',
+      cycleLength: 28,
+      points: [{ day: 1, estradiol: 50 }, { day: 14, estradiol: 250 }, { day: 21, estradiol: 150 }]
+    });
+
+    expect(reference.id).toMatch(/^custom-/);
+    expect(reference.ovulationDay).toBe(14);
+
+    const cycle = generateReferenceCycle(27, reference.id, undefined, [reference]);
+    expect(cycle[13]!.estradiol).toBeCloseTo(250);
+    expect(cycle[7]!.estradiol).toBeCloseTo(50 + (250 - 50) * 7 / 13);
+  });
+});
+
+describe('migrateCustomReferences', () => {
+  it('should drop malformed entries', () => {
+    const valid = createCustomReference({
+      name: 'Kept',
+      source: '',
+      cycleLength: 28,
+      points: [{ day: 1, estradiol: 50 }, { day: 14, estradiol: 250 }]
+    });
+
+    expect(migrateCustomReferences([valid, { ...valid, id: 'typical' }, { ...valid, data: [] }, null])).toEqual([valid]);
+    expect(migrateCustomReferences('not an array')).toEqual([]);
+  });
+});
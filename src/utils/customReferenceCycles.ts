@@ -0,0 +1,159 @@
+import { CustomReferenceCycleType, ReferenceCycleInfo, ReferencePoint } from '../data/referenceData';
+import { EstradiolUnit, ProgesteroneUnit, estradiolToPgPerMl, progesteroneToNgPerMl } from './units';
+
+/**
+ * Reference curves imported from CSV: parsing, validation and the stored format
+ */
+
+const CUSTOM_REFERENCE_ID_PREFIX = 'custom-';
+
+export interface ReferenceCsvUnits {
+  estradiol: EstradiolUnit;
+  progesterone: ProgesteroneUnit;
+}
+
+export interface ReferenceCsvParseResult {
+  points: ReferencePoint[];
+  errors: string[]; // One per skipped row
+}
+
+export interface CustomReferenceFields {
+  name: string;
+  source: string;
+  cycleLength: number;
+  points: ReferencePoint[];
+}
+
+let idCounter = 0;
+const generateReferenceId = (): CustomReferenceCycleType =>
+  `${CUSTOM_REFERENCE_ID_PREFIX}${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+export const isCustomReferenceCycleType = (cycleType: string): cycleType is CustomReferenceCycleType =>
+  cycleType.startsWith(CUSTOM_REFERENCE_ID_PREFIX);
+
+const splitRow = (line: string) => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+const toNumber = (cell: string | undefined) => (cell ? Number(cell) : NaN);
+
+const findColumn = (header: string[], pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+
+/**
+ * Parse day, estradiol and (optionally) progesterone columns from CSV text.
+ *
+ * A header row picks the columns by name (day, estradiol/E2, progesterone/P4) and
+ * overrides the given units when it names pmol/L or nmol/L; without one the columns
+ * are taken in that order. Days counted from 0 are shifted to start at 1 like the built-in curves.
+ */
+export function parseReferenceCsv(text: string, units: ReferenceCsvUnits): ReferenceCsvParseResult {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  const errors: string[] = [];
+  let columns = { day: 0, estradiol: 1, progesterone: 2 };
+  let { estradiol: estradiolUnit, progesterone: progesteroneUnit } = units;
+
+  const header = lines[0] ? splitRow(lines[0]) : [];
+  const hasHeader = header.some(cell => cell !== '' && isNaN(Number(cell)));
+  if (hasHeader) {
+    columns = {
+      day: findColumn(header, /day/i),
+      estradiol: findColumn(header, /estradiol|\be2\b/i),
+      progesterone: findColumn(header, /progesterone|\bp4\b/i)
+    };
+    if (columns.day === -1 || columns.estradiol === -1) {
+      return { points: [], errors: ['The header needs a day and an estradiol column'] };
+    }
+    if (/pmol/i.test(header[columns.estradiol]!)) estradiolUnit = 'pmol/L';
+    if (columns.progesterone !== -1 && /nmol/i.test(header[columns.progesterone]!)) progesteroneUnit = 'nmol/L';
+  }
+
+  const points: ReferencePoint[] = [];
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    const cells = splitRow(line);
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const day = toNumber(cells[columns.day]);
+    const estradiol = toNumber(cells[columns.estradiol]);
+    const progesteroneCell = columns.progesterone !== -1 ? cells[columns.progesterone] : undefined;
+
+    if (!Number.isFinite(day) || !Number.isFinite(estradiol) || estradiol < 0) {
+      errors.push(`Row ${rowNumber}: expected a day and an estradiol level`);
+      return;
+    }
+    const point: ReferencePoint = { day, estradiol: estradiolToPgPerMl(estradiol, estradiolUnit) };
+    if (progesteroneCell) {
+      const progesterone = toNumber(progesteroneCell);
+      if (!Number.isFinite(progesterone) || progesterone < 0) {
+        errors.push(`Row ${rowNumber}: progesterone "${progesteroneCell}" is not a level`);
+        return;
+      }
+      point.progesterone = progesteroneToNgPerMl(progesterone, progesteroneUnit);
+    }
+    points.push(point);
+  });
+
+  points.sort((a, b) => a.day - b.day);
+  if (points[0]?.day === 0) points.forEach(p => { p.day += 1; });
+
+  return { points, errors };
+}
+
+/**
+ * Validate an import form, returning an error message or null
+ */
+export function validateCustomReference(fields: CustomReferenceFields, otherNames: string[]): string | null {
+  const name = fields.name.trim();
+  if (!name) return 'Name is required';
+  if (otherNames.includes(name)) return `A reference named "${name}" already exists`;
+  if (!Number.isInteger(fields.cycleLength) || fields.cycleLength < 1) return 'Cycle length must be a whole number of days';
+  if (fields.points.length < 2) return 'The curve needs at least two data points';
+  if (fields.points.some(p => p.day < 1 || p.day > fields.cycleLength)) {
+    return `Days must fall within the ${fields.cycleLength}-day cycle`;
+  }
+  if (new Set(fields.points.map(p => p.day)).size !== fields.points.length) return 'Each day may only appear once';
+  return null;
+}
+
+/**
+ * Build a reference cycle from validated fields. The estradiol peak is taken as ovulation.
+ */
+export function createCustomReference(fields: CustomReferenceFields): ReferenceCycleInfo {
+  const points = [...fields.points].sort((a, b) => a.day - b.day);
+  const peak = points.reduce((best, p) => (p.estradiol > best.estradiol ? p : best));
+  const source = fields.source.trim() || 'Imported';
+
+  return {
+    id: generateReferenceId(),
+    name: fields.name.trim(),
+    description: `Imported curve (${source})`,
+    source,
+    cycleLength: fields.cycleLength,
+    ovulationDay: Math.round(peak.day),
+    data: points
+  };
+}
+
+const isReferencePoint = (raw: unknown): raw is ReferencePoint => {
+  if (typeof raw !== 'object' || raw === null) return false;
+  const point = raw as Record<string, unknown>;
+  return typeof point.day === 'number' && typeof point.estradiol === 'number' &&
+    (point.progesterone === undefined || typeof point.progesterone === 'number');
+};
+
+/**
+ * Keep the stored curves that are still well-formed
+ */
+export function migrateCustomReferences(raw: unknown): ReferenceCycleInfo[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((candidate): candidate is ReferenceCycleInfo => {
+    if (typeof candidate !== 'object' || candidate === null) return false;
+    const cycle = candidate as Record<string, unknown>;
+    return typeof cycle.id === 'string' && isCustomReferenceCycleType(cycle.id) &&
+      typeof cycle.name === 'string' &&
+      typeof cycle.cycleLength === 'number' && cycle.cycleLength >= 1 &&
+      typeof cycle.ovulationDay === 'number' &&
+      Array.isArray(cycle.data) && cycle.data.length >= 2 && cycle.data.every(isReferencePoint);
+  }).map(cycle => ({
+    ...cycle,
+    description: typeof cycle.description === 'string' ? cycle.description : '',
+    source: typeof cycle.source === 'string' ? cycle.source : 'Imported'
+  }));
+}
@@ -0,0 +1,46 @@
+import { dateForDay, daysSinceMonday, formatDayLabel, parseISODate, toISODate } from './dates';
+
+describe('parseISODate', () => {
+  it('should parse valid dates at UTC midnight', () => {
+    expect(parseISODate('2025-03-03')?.getTime()).toBe(Date.UTC(2025, 2, 3));
+  });
+
+  it('should reject malformed and overflowed dates', () => {
+    expect(parseISODate('2025-3-3')).toBeNull();
+    expect(parseISODate('2025-02-30')).toBeNull();
+    expect(parseISODate('')).toBeNull();
+  });
+});
+
+describe('dateForDay', () => {
+  it('should count whole days from the start date', () => {
+    expect(toISODate(dateForDay('2025-03-03', 0)!)).toBe('2025-03-03');
+    expect(toISODate(dateForDay('2025-03-03', 29)!)).toBe('2025-04-01');
+    expect(toISODate(dateForDay('2025-03-03', 2.75)!)).toBe('2025-03-05');
+  });
+
+  it('should cross daylight-saving changes without drifting', () => {
+    expect(toISODate(dateForDay('2025-03-28', 3)!)).toBe('2025-03-31');
+    expect(toISODate(dateForDay('2025-10-25', 2)!)).toBe('2025-10-27');
+  });
+});
+
+describe('daysSinceMonday', () => {
+  it('should give the weekday offset from Monday', () => {
+    expect(daysSinceMonday('2025-03-03')).toBe(0); // Monday
+    expect(daysSinceMonday('2025-03-06')).toBe(3); // Thursday
+    expect(daysSinceMonday('2025-03-09')).toBe(6); // Sunday
+  });
+});
+
+describe('formatDayLabel', () => {
+  it('should show weekday and date with a start date', () => {
+    expect(formatDayLabel(17, '2025-03-03')).toBe('Thu 20 Mar');
+  });
+
+  it('should fall back to day numbers', () => {
+    expect(formatDayLabel(17)).toBe('Day 17');
+    expect(formatDayLabel(17, null)).toBe('Day 17');
+    expect(formatDayLabel(17, 'not a date')).toBe('Day 17');
+  });
+});
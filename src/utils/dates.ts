@@ -0,0 +1,89 @@
+/**
+ * Calendar dates for schedule days
+ *
+ * Start dates are stored as ISO `YYYY-MM-DD` strings and handled in UTC so that
+ * daylight-saving changes never shift a dose onto the neighbouring day.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Parse a `YYYY-MM-DD` string, returning null for anything else
+ */
+export function parseISODate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject overflowed dates such as 2024-02-31
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's local date as `YYYY-MM-DD`
+ */
+export function todayISODate(): string {
+  const now = new Date();
+  return toISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+/**
+ * Calendar date of a (possibly fractional) schedule day
+ */
+export function dateForDay(startDate: string, day: number): Date | null {
+  const start = parseISODate(startDate);
+  return start ? new Date(start.getTime() + Math.floor(day) * MS_PER_DAY) : null;
+}
+
+/**
+ * Whole days from the start date to another ISO date (negative if earlier)
+ */
+export function daysBetween(startDate: string, date: string): number | null {
+  const start = parseISODate(startDate);
+  const end = parseISODate(date);
+  if (!start || !end) return null;
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Fractional schedule day of a local date and time, e.g. 17.5 for noon on day 17
+ */
+export function dayOfDateTime(startDate: string, dateTime: Date): number | null {
+  const start = parseISODate(startDate);
+  if (!start) return null;
+  const localMidnight = Date.UTC(dateTime.getFullYear(), dateTime.getMonth(), dateTime.getDate());
+  const hours = dateTime.getHours() + dateTime.getMinutes() / 60;
+  return Math.round((localMidnight - start.getTime()) / MS_PER_DAY) + hours / 24;
+}
+
+/**
+ * Number of days from the start date back to the preceding Monday (0 when it is a Monday)
+ */
+export function daysSinceMonday(startDate: string): number {
+  const start = parseISODate(startDate);
+  return start ? (start.getUTCDay() + 6) % 7 : 0;
+}
+
+/**
+ * Short date label, e.g. "17 Mar"
+ */
+export function formatShortDate(date: Date): string {
+  return `${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]}`;
+}
+
+/**
+ * Label for a schedule day: "Mon 17 Mar" with a start date, otherwise "Day 17"
+ */
+export function formatDayLabel(day: number, startDate?: string | null): string {
+  const date = startDate ? dateForDay(startDate, day) : null;
+  if (!date) return `Day ${day}`;
+  return `${WEEKDAY_NAMES[date.getUTCDay()]} ${formatShortDate(date)}`;
+}
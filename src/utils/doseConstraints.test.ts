@@ -0,0 +1,58 @@
+import { getSameDayConflict, moveDoses } from './doseConstraints';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+import { getProgesteroneByRoute } from '../data/progesteroneRoutes';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const rectal = getProgesteroneByRoute('rectal')!;
+const oral = getProgesteroneByRoute('oral')!;
+
+const doses: Dose[] = [
+  { day: 0, dose: 4, medication: EV },
+  { day: 0, dose: 200, medication: rectal },
+  { day: 3, dose: 200, medication: rectal },
+  { day: 5, dose: 4, medication: EV }
+];
+
+describe('getSameDayConflict', () => {
+  it('should allow one injection of each type and one rectal progesterone per day', () => {
+    expect(getSameDayConflict(EV, 0, doses)).toMatch(/already has an injection/);
+    expect(getSameDayConflict(EV, 3, doses)).toBeNull();
+    expect(getSameDayConflict(rectal, 3, doses)).toMatch(/rectal/);
+    expect(getSameDayConflict(oral, 3, doses)).toBeNull();
+  });
+});
+
+describe('moveDoses', () => {
+  it('should move doses in place, keeping their spacing', () => {
+    const result = moveDoses(doses, [0, 3], 1, { scheduleLength: 7 });
+
+    expect(result.error).toBeNull();
+    expect(result.doses.map(d => d.day)).toEqual([1, 0, 3, 6]);
+    expect(result.indices).toEqual([0, 3]);
+  });
+
+  it('should append copies and leave the originals', () => {
+    const result = moveDoses(doses, [3], -3, { copy: true, scheduleLength: 7 });
+
+    expect(result.error).toBeNull();
+    expect(result.doses).toHaveLength(5);
+    expect(result.doses[4]).toEqual({ ...doses[3], day: 2 });
+    expect(result.indices).toEqual([4]);
+  });
+
+  it('should reject drops that break a same-day rule', () => {
+    const result = moveDoses(doses, [1], 3, { scheduleLength: 7 });
+
+    expect(result.error).toMatch(/rectal/);
+    expect(result.doses).toBe(doses);
+  });
+
+  it('should reject drops outside the schedule', () => {
+    expect(moveDoses(doses, [0, 3], 2, { scheduleLength: 7 }).error).toMatch(/Day 7 is outside/);
+  });
+
+  it('should not count doses moving away as conflicts', () => {
+    // Both rectal doses shift by 3: day 0 → 3 while day 3 → 6
+    expect(moveDoses(doses, [1, 2], 3, { scheduleLength: 7 }).error).toBeNull();
+  });
+});
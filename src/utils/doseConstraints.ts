@@ -0,0 +1,108 @@
+import { Dose } from '../data/estradiolEsters';
+import { AnyMedication, isEstradiolMedication, isProgesteroneMedication } from '../types/medication';
+
+/**
+ * Rules for which medications can share a day, used by the optimizer and when moving doses
+ */
+
+export const MAX_ORAL_VAGINAL_PROGESTERONE_PER_DAY = 4;
+
+/**
+ * Check if a day already has rectal progesterone
+ */
+export function hasRectalProgesteroneOnDay(doses: Dose[], day: number, excludeIndex?: number): boolean {
+  return doses.some((d, idx) =>
+    d.day === day &&
+    idx !== excludeIndex &&
+    isProgesteroneMedication(d.medication) &&
+    'route' in d.medication &&
+    d.medication.route === 'rectal'
+  );
+}
+
+/**
+ * Count oral/vaginal progesterone doses on a specific day
+ */
+export function countOralVaginalProgesteroneOnDay(doses: Dose[], day: number): number {
+  return doses.filter(d =>
+    d.day === day &&
+    isProgesteroneMedication(d.medication) &&
+    'route' in d.medication &&
+    (d.medication.route === 'oral' || d.medication.route === 'vaginal')
+  ).length;
+}
+
+/**
+ * Explain why a medication can't be added to a day, or null if it can
+ */
+export function getSameDayConflict(medication: AnyMedication, day: number, doses: Dose[]): string | null {
+  // Estradiol: only one injection of each type per day
+  if (isEstradiolMedication(medication) && doses.some(d => d.day === day && d.medication.name === medication.name)) {
+    return `Day ${day} already has an injection of ${medication.name}`;
+  }
+
+  if (isProgesteroneMedication(medication) && 'route' in medication) {
+    // Rectal: only one per day (can't use multiple suppositories)
+    if (medication.route === 'rectal' && hasRectalProgesteroneOnDay(doses, day)) {
+      return `Day ${day} already has a rectal progesterone dose`;
+    }
+    if ((medication.route === 'oral' || medication.route === 'vaginal') &&
+        countOralVaginalProgesteroneOnDay(doses, day) >= MAX_ORAL_VAGINAL_PROGESTERONE_PER_DAY) {
+      return `Day ${day} already has ${MAX_ORAL_VAGINAL_PROGESTERONE_PER_DAY} oral/vaginal progesterone doses`;
+    }
+  }
+
+  return null;
+}
+
+export interface DoseMoveResult {
+  doses: Dose[];
+  indices: number[]; // Where the moved (or copied) doses ended up
+  error: string | null;
+}
+
+/**
+ * Move or copy doses by a number of days, keeping their spacing. Nothing changes
+ * if any dose would land outside the schedule or break a same-day rule.
+ */
+export function moveDoses(
+  doses: Dose[],
+  indices: number[],
+  dayOffset: number,
+  { copy = false, scheduleLength }: { copy?: boolean; scheduleLength: number }
+): DoseMoveResult {
+  const unchanged = { doses, indices, error: null };
+  const moving = Array.from(new Set(indices)).filter(i => i >= 0 && i < doses.length).sort((a, b) => a - b);
+  if (moving.length === 0 || (dayOffset === 0 && !copy)) return unchanged;
+
+  const outOfRange = moving.map(i => doses[i]!.day + dayOffset).find(day => day < 0 || day >= scheduleLength);
+  if (outOfRange !== undefined) {
+    return { ...unchanged, error: `Day ${outOfRange} is outside the ${scheduleLength}-day schedule` };
+  }
+
+  // Place each dose in turn, checking against the doses that stay put and those already placed
+  const placed = copy ? [...doses] : doses.filter((_, i) => !moving.includes(i));
+  const moved: Dose[] = [];
+  for (const index of moving) {
+    const dose = { ...doses[index]!, day: doses[index]!.day + dayOffset };
+    const conflict = getSameDayConflict(dose.medication, dose.day, placed);
+    if (conflict) return { ...unchanged, error: conflict };
+    placed.push(dose);
+    moved.push(dose);
+  }
+
+  if (copy) {
+    return {
+      doses: [...doses, ...moved],
+      indices: moved.map((_, i) => doses.length + i),
+      error: null
+    };
+  }
+
+  // Moved doses keep their positions so selections stay valid
+  const newDoses = [...doses];
+  moving.forEach((index, i) => {
+    newDoses[index] = moved[i]!;
+  });
+  return { doses: newDoses, indices: moving, error: null };
+}
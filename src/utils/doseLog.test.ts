@@ -0,0 +1,79 @@
+import { buildHistorySchedule, loggedDosesToSchedule, logPlannedDoses, splitHistorySeries, LoggedDose } from './doseLog';
+import { calculateTotalConcentration, generateTimePoints } from './pharmacokinetics';
+import { dayOfDateTime } from './dates';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const START = '2025-03-03';
+
+const entry = (date: string, dose: number, time?: number): LoggedDose => ({
+  id: `${date}-${time ?? ''}`,
+  date,
+  dose,
+  medication: EV,
+  ...(time !== undefined ? { time } : {})
+});
+
+describe('loggedDosesToSchedule', () => {
+  it('should place entries on the day axis including time of day', () => {
+    const doses = loggedDosesToSchedule([entry('2025-03-10', 5, 18), entry('2025-03-03', 4)], START);
+
+    expect(doses.map(d => d.day)).toEqual([0, 7.75]);
+    expect(doses[1]!.time).toBe(18);
+  });
+
+  it('should keep doses taken before the start date', () => {
+    expect(loggedDosesToSchedule([entry('2025-02-24', 4)], START)[0]!.day).toBe(-7);
+  });
+});
+
+describe('buildHistorySchedule', () => {
+  const planned: Dose[] = [0, 7, 14, 21].map(day => ({ day, dose: 5, medication: EV }));
+
+  it('should replace past planned doses with the log', () => {
+    // Day 7 dose was taken a day late and doubled; now is day 10
+    const schedule = buildHistorySchedule(planned, [entry('2025-03-03', 5), entry('2025-03-11', 10)], START, 10.5);
+
+    expect(schedule.map(d => [d.day, d.dose])).toEqual([[0, 5], [8, 10], [14, 5], [21, 5]]);
+  });
+
+  it('should keep today\'s planned dose until something is logged today', () => {
+    const nothingToday = buildHistorySchedule(planned, [entry('2025-03-03', 5)], START, 7.25);
+    expect(nothingToday.map(d => d.day)).toEqual([0, 7, 14, 21]);
+
+    const loggedToday = buildHistorySchedule(planned, [entry('2025-03-03', 5), entry('2025-03-10', 5, 6)], START, 7.25);
+    expect(loggedToday.map(d => d.day)).toEqual([0, 7.25, 14, 21]);
+  });
+
+  it('should ignore log entries dated in the future', () => {
+    const schedule = buildHistorySchedule(planned, [entry('2025-03-20', 5)], START, 3);
+    expect(schedule.map(d => d.day)).toEqual([7, 14, 21]);
+  });
+});
+
+describe('splitHistorySeries', () => {
+  it('should split at now and share the point nearest to now', () => {
+    const points = calculateTotalConcentration([{ day: 0, dose: 5, medication: EV }], generateTimePoints(4, 1));
+    const series = splitHistorySeries(points, 2.2);
+
+    expect(series.map(p => p.actualEstradiol !== null)).toEqual([true, true, true, false, false]);
+    expect(series.map(p => p.projectedEstradiol !== null)).toEqual([false, false, true, true, true]);
+    expect(series[0]!.actualProgesterone).toBeNull();
+  });
+});
+
+describe('logPlannedDoses', () => {
+  it('should copy the planned doses for a day into log entries', () => {
+    const planned: Dose[] = [{ day: 7, time: 20, dose: 5, medication: EV }, { day: 8, dose: 5, medication: EV }];
+    const log = logPlannedDoses(planned, 7, '2025-03-10');
+
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ date: '2025-03-10', time: 20, dose: 5, medication: EV });
+  });
+});
+
+describe('dayOfDateTime', () => {
+  it('should give the fractional day of a local time', () => {
+    expect(dayOfDateTime(START, new Date(2025, 2, 10, 18, 0))).toBe(7.75);
+  });
+});
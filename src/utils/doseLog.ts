@@ -0,0 +1,104 @@
+import { Dose } from '../data/estradiolEsters';
+import { AnyMedication } from '../types/medication';
+import { ConcentrationPoint } from './pharmacokinetics';
+import { daysBetween } from './dates';
+
+/**
+ * Dose history: what was actually taken, kept separately from the planned schedule
+ */
+export interface LoggedDose {
+  id: string;
+  date: string; // ISO YYYY-MM-DD the dose was taken
+  time?: number; // Hour of day (0-24), if recorded
+  dose: number; // Same unit as Dose.dose for the medication
+  medication: AnyMedication;
+  note?: string;
+}
+
+export interface HistoryPoint {
+  time: number;
+  actualEstradiol: number | null; // Set up to now
+  projectedEstradiol: number | null; // Set from now on
+  actualProgesterone: number | null;
+  projectedProgesterone: number | null;
+}
+
+/**
+ * Place logged doses on the schedule's day axis. Unlike planned doses, the
+ * time of day is kept as a fractional day so late doses shift the curve.
+ */
+export function loggedDosesToSchedule(log: LoggedDose[], startDate: string): Dose[] {
+  const doses: Dose[] = [];
+  log.forEach(entry => {
+    const day = daysBetween(startDate, entry.date);
+    if (day === null) return;
+    doses.push({
+      day: day + (entry.time ?? 0) / 24,
+      dose: entry.dose,
+      medication: entry.medication,
+      ...(entry.time !== undefined ? { time: entry.time } : {})
+    });
+  });
+  return doses.sort((a, b) => a.day - b.day);
+}
+
+/**
+ * Combine history with the plan: logged doses up to today, planned doses afterwards.
+ * Planned doses for today still count as upcoming until something is logged today.
+ *
+ * @param plannedDoses - Planned doses already expanded for repeat/steady state
+ * @param nowDay - Current fractional schedule day
+ */
+export function buildHistorySchedule(
+  plannedDoses: Dose[],
+  log: LoggedDose[],
+  startDate: string,
+  nowDay: number
+): Dose[] {
+  const today = Math.floor(nowDay);
+  const taken = loggedDosesToSchedule(log, startDate).filter(d => d.day < today + 1);
+  const loggedToday = taken.some(d => Math.floor(d.day) === today);
+  const firstProjectedDay = loggedToday ? today + 1 : today;
+
+  return [...taken, ...plannedDoses.filter(d => d.day >= firstProjectedDay)];
+}
+
+/**
+ * Split a concentration curve at `nowDay` into "actual so far" and "projected" segments.
+ * The point nearest to now belongs to both so the two lines join up.
+ */
+export function splitHistorySeries(points: ConcentrationPoint[], nowDay: number): HistoryPoint[] {
+  if (points.length === 0) return [];
+
+  const nearest = points.reduce((best, p) =>
+    Math.abs(p.time - nowDay) < Math.abs(best.time - nowDay) ? p : best
+  );
+  const hasProgesterone = points.some(p => p.progesteroneConcentration > 0);
+
+  return points.map(p => {
+    const isActual = p.time <= nowDay || p === nearest;
+    const isProjected = p.time >= nowDay || p === nearest;
+    return {
+      time: p.time,
+      actualEstradiol: isActual ? p.estradiolConcentration : null,
+      projectedEstradiol: isProjected ? p.estradiolConcentration : null,
+      actualProgesterone: hasProgesterone && isActual ? p.progesteroneConcentration : null,
+      projectedProgesterone: hasProgesterone && isProjected ? p.progesteroneConcentration : null
+    };
+  });
+}
+
+/**
+ * Log entries for planned doses falling on a given day, e.g. to mark today's doses as taken
+ */
+export function logPlannedDoses(plannedDoses: Dose[], day: number, date: string): LoggedDose[] {
+  return plannedDoses
+    .filter(d => Math.floor(d.day) === day)
+    .map((d, i) => ({
+      id: `${Date.now().toString(36)}-${i}`,
+      date,
+      ...(d.time !== undefined ? { time: d.time } : {}),
+      dose: d.dose,
+      medication: d.medication
+    }));
+}
@@ -0,0 +1,42 @@
+import { formatDisplayedDose, getDisplayedDose, isRoundedDose, roundToSyringe, volumeToMg } from './doseUnits';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const oralP4 = PROGESTERONE_ROUTES[0]!;
+
+describe('getDisplayedDose', () => {
+  it('should show injectables as mL or U-100 units', () => {
+    expect(formatDisplayedDose(getDisplayedDose(6, EV, 40, { unit: 'mL', syringeResolutionMl: 0.01 }))).toBe('0.15 mL');
+    expect(formatDisplayedDose(getDisplayedDose(6, EV, 40, { unit: 'units', syringeResolutionMl: 0.01 }))).toBe('15 U');
+  });
+
+  it('should keep mg, and the own unit of non-injectables', () => {
+    expect(formatDisplayedDose(getDisplayedDose(6, EV, 40, { unit: 'mg', syringeResolutionMl: 0.01 }))).toBe('6 mg');
+    expect(formatDisplayedDose(getDisplayedDose(100, oralP4, 40, { unit: 'mL', syringeResolutionMl: 0.01 }))).toBe('100 mg');
+  });
+
+  it('should report the mg the rounded volume delivers', () => {
+    const displayed = getDisplayedDose(5, EV, 40, { unit: 'units', syringeResolutionMl: 0.02 });
+
+    expect(formatDisplayedDose(displayed)).toBe('12 U'); // 0.125 mL rounds to 0.12 mL
+    expect(displayed.effectiveMg).toBeCloseTo(4.8);
+    expect(isRoundedDose(displayed, 5)).toBe(true);
+    expect(isRoundedDose(getDisplayedDose(4.8, EV, 40, { unit: 'units', syringeResolutionMl: 0.02 }), 4.8)).toBe(false);
+  });
+});
+
+describe('volumeToMg', () => {
+  it('should convert entered volumes back to mg', () => {
+    expect(volumeToMg(0.15, 'mL', 40)).toBeCloseTo(6);
+    expect(volumeToMg(15, 'units', 40)).toBeCloseTo(6);
+    expect(volumeToMg(6, 'mg', 40)).toBe(6);
+  });
+});
+
+describe('roundToSyringe', () => {
+  it('should round to the nearest syringe mark', () => {
+    expect(roundToSyringe(0.134, 0.01)).toBeCloseTo(0.13);
+    expect(roundToSyringe(0.134, 0.05)).toBeCloseTo(0.15);
+  });
+});
@@ -0,0 +1,95 @@
+import { AnyMedication, getDoseUnit, isEstradiolMedication } from '../types/medication';
+import { DEFAULTS } from '../constants/pharmacokinetics';
+import { formatNumber } from './formatters';
+
+/**
+ * Showing injectable doses as the volume to draw up (mL or insulin-syringe units)
+ * rather than mg. Doses are always stored in mg; these helpers only convert for display and entry.
+ */
+
+export type DoseDisplayUnit = 'mg' | 'mL' | 'units';
+
+export interface DoseDisplaySettings {
+  unit: DoseDisplayUnit;
+  syringeResolutionMl: number; // Smallest measurable volume; 0.01 mL is 1 unit on a U-100 syringe
+}
+
+export const U100_UNITS_PER_ML = 100;
+
+export const DEFAULT_DOSE_DISPLAY: DoseDisplaySettings = { unit: 'mg', syringeResolutionMl: 0.01 };
+
+export const SYRINGE_RESOLUTIONS_ML = [0.005, 0.01, 0.02, 0.05, 0.1];
+
+export const DOSE_DISPLAY_UNIT_NAMES: Record<DoseDisplayUnit, string> = {
+  mg: 'mg',
+  mL: 'mL',
+  units: 'U-100 units'
+};
+
+const UNIT_SUFFIXES: Record<DoseDisplayUnit, string> = { mg: 'mg', mL: 'mL', units: 'U' };
+
+export interface DisplayedDose {
+  amount: number; // In `unit`, rounded to the syringe resolution for volumes
+  unit: string;
+  effectiveMg: number; // What the rounded volume actually delivers
+  isVolume: boolean;
+}
+
+export const getConcentration = (esterConcentrations: Record<string, number>, medicationName: string) =>
+  esterConcentrations[medicationName] || DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML;
+
+/**
+ * Only injectables have a volume; everything else keeps its own unit
+ */
+export const showsVolume = (medication: AnyMedication, settings: DoseDisplaySettings) =>
+  settings.unit !== 'mg' && isEstradiolMedication(medication);
+
+const mlPerUnit = (unit: DoseDisplayUnit) => (unit === 'units' ? 1 / U100_UNITS_PER_ML : 1);
+
+export function roundToSyringe(volumeMl: number, resolutionMl: number): number {
+  return resolutionMl > 0 ? Math.round(volumeMl / resolutionMl) * resolutionMl : volumeMl;
+}
+
+export function mgToVolume(mg: number, unit: DoseDisplayUnit, concentration: number): number {
+  return unit === 'mg' ? mg : mg / concentration / mlPerUnit(unit);
+}
+
+/**
+ * Syringe resolution in the display unit, as the step for volume entry
+ */
+export const getSyringeStep = (settings: DoseDisplaySettings) => settings.syringeResolutionMl / mlPerUnit(settings.unit);
+
+/**
+ * Convert an amount entered in a volume unit back to mg
+ */
+export function volumeToMg(amount: number, unit: DoseDisplayUnit, concentration: number): number {
+  return unit === 'mg' ? amount : amount * mlPerUnit(unit) * concentration;
+}
+
+export function getDisplayedDose(
+  dose: number,
+  medication: AnyMedication,
+  concentration: number,
+  settings: DoseDisplaySettings
+): DisplayedDose {
+  if (!showsVolume(medication, settings)) {
+    return { amount: dose, unit: getDoseUnit(medication), effectiveMg: dose, isVolume: false };
+  }
+
+  const volumeMl = roundToSyringe(dose / concentration, settings.syringeResolutionMl);
+  return {
+    amount: volumeMl / mlPerUnit(settings.unit),
+    unit: UNIT_SUFFIXES[settings.unit],
+    effectiveMg: volumeMl * concentration,
+    isVolume: true
+  };
+}
+
+export const formatDisplayedDose = (displayed: DisplayedDose, separator = ' ') =>
+  `${formatNumber(displayed.amount, displayed.isVolume ? 3 : 2)}${separator}${displayed.unit}`;
+
+/**
+ * Whether rounding to the syringe changes the amount delivered enough to show
+ */
+export const isRoundedDose = (displayed: DisplayedDose, dose: number) =>
+  displayed.isVolume && formatNumber(displayed.effectiveMg) !== formatNumber(dose);
@@ -0,0 +1,91 @@
+import { escapeICSText, generateICS, getRepeatRule } from './icsExport';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const oralP4 = PROGESTERONE_ROUTES[0]!;
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+const contentLines = (ics: string) => unfold(ics).split('\r\n');
+
+const exportSchedule = (doses: Dose[], repeat = false, scheduleLength = 7) => generateICS({
+  doses,
+  scheduleLength,
+  repeat,
+  esterConcentrations: { 'Estradiol valerate': 20 },
+  startDate: '2025-03-03',
+  timestamp: new Date(Date.UTC(2025, 0, 2, 3, 4, 5))
+});
+
+describe('generateICS', () => {
+  it('should wrap events in a calendar with CRLF line endings', () => {
+    const ics = exportSchedule([{ day: 0, dose: 4, medication: EV }]);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(contentLines(ics)).toContain('DTSTAMP:20250102T030405Z');
+  });
+
+  it('should describe injections with their volume', () => {
+    const lines = contentLines(exportSchedule([{ day: 2, dose: 4, medication: EV }]));
+
+    expect(lines).toContain('SUMMARY:Estradiol valerate 4 mg (0.2 mL)');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250305');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250306');
+    expect(lines.find(l => l.startsWith('DESCRIPTION:'))).toContain('0.2 mL @ 20 mg/mL');
+  });
+
+  it('should lead with the syringe amount when a volume unit is chosen', () => {
+    const lines = contentLines(generateICS({
+      doses: [{ day: 0, dose: 4.1, medication: EV }],
+      scheduleLength: 7,
+      repeat: false,
+      esterConcentrations: { 'Estradiol valerate': 20 },
+      startDate: '2025-03-03',
+      doseDisplay: { unit: 'units', syringeResolutionMl: 0.02 }
+    }));
+
+    expect(lines).toContain('SUMMARY:Estradiol valerate 20 U (4 mg)');
+    expect(lines.find(l => l.startsWith('DESCRIPTION:'))).toContain('scheduled 4.1 mg\\, rounded to the syringe');
+  });
+
+  it('should use the dose time of day', () => {
+    const lines = contentLines(exportSchedule([{ day: 1, time: 21.5, dose: 100, medication: oralP4 }]));
+
+    expect(lines).toContain('DTSTART:20250304T213000');
+    expect(lines).toContain('SUMMARY:Progesterone (oral) 100 mg');
+  });
+
+  it('should keep a dose at midnight on its own date', () => {
+    const lines = contentLines(exportSchedule([{ day: 1, time: 24, dose: 100, medication: oralP4 }]));
+
+    expect(lines).toContain('DTSTART:20250304T235900');
+  });
+
+  it('should add a recurrence rule only for repeating schedules', () => {
+    const doses = [{ day: 0, dose: 4, medication: EV }];
+    expect(contentLines(exportSchedule(doses, true, 14))).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2');
+    expect(contentLines(exportSchedule(doses, false, 14)).some(l => l.startsWith('RRULE'))).toBe(false);
+  });
+
+  it('should fold long lines to 75 octets', () => {
+    const ics = exportSchedule([{ day: 0, dose: 4, medication: { ...EV, name: 'Ester with a very long name — ünïcode '.repeat(3) } }]);
+    ics.split('\r\n').forEach(line => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    });
+  });
+});
+
+describe('getRepeatRule', () => {
+  it('should prefer weekly rules for whole weeks', () => {
+    expect(getRepeatRule(7)).toBe('FREQ=WEEKLY;INTERVAL=1');
+    expect(getRepeatRule(5)).toBe('FREQ=DAILY;INTERVAL=5');
+  });
+});
+
+describe('escapeICSText', () => {
+  it('should escape special characters', () => {
+    expect(escapeICSText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
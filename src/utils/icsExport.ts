@@ -0,0 +1,194 @@
+import { Dose } from '../data/estradiolEsters';
+import { getDoseUnit, isEstradiolMedication } from '../types/medication';
+import { formatNumber } from './formatters';
+import { DoseDisplaySettings, DEFAULT_DOSE_DISPLAY, formatDisplayedDose, getConcentration, getDisplayedDose, isRoundedDose } from './doseUnits';
+import { dateForDay } from './dates';
+import { downloadTextFile } from './download';
+
+/**
+ * iCalendar (RFC 5545) export of the dose schedule
+ */
+
+export interface ICSExportOptions {
+  doses: Dose[];
+  scheduleLength: number;
+  repeat: boolean;
+  esterConcentrations: Record<string, number>;
+  startDate: string; // ISO YYYY-MM-DD of day 0
+  timestamp?: Date; // DTSTAMP, defaults to now
+  doseDisplay?: DoseDisplaySettings; // Lead with the volume to draw up when set to mL or units
+}
+
+const PRODUCT_ID = '-//jessibug-os//Estradiol Schedule//EN';
+const TIMED_EVENT_DURATION = 'PT15M';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1), without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = utf8Length(char.codePointAt(0)!);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatICSDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const formatICSTimestamp = (date: Date) =>
+  `${formatICSDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Local (floating) time of day, so events stay at the same wall-clock time wherever the calendar is.
+ * Times at or past midnight are kept at 23:59 rather than wrapping to the start of the same date.
+ */
+const formatTimeOfDay = (hours: number) => {
+  const minutes = Math.min(Math.max(Math.round(hours * 60), 0), 24 * 60 - 1);
+  return `T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+};
+
+/**
+ * Repeat rule for a schedule of the given length, preferring weekly rules for whole weeks
+ */
+export function getRepeatRule(scheduleLength: number): string {
+  if (scheduleLength % 7 === 0) {
+    return `FREQ=WEEKLY;INTERVAL=${scheduleLength / 7}`;
+  }
+  return `FREQ=DAILY;INTERVAL=${scheduleLength}`;
+}
+
+/**
+ * Event title and description for a dose, including injection volume for injectables
+ */
+function describeDose(
+  dose: Dose,
+  esterConcentrations: Record<string, number>,
+  doseDisplay: DoseDisplaySettings
+): { summary: string; description: string } {
+  const { medication } = dose;
+  const amount = `${formatNumber(dose.dose)} ${getDoseUnit(medication)}`;
+
+  if (!isEstradiolMedication(medication)) {
+    return { summary: `${medication.name} ${amount}`, description: `${amount} ${medication.name}` };
+  }
+
+  const concentration = getConcentration(esterConcentrations, medication.name);
+  const displayed = getDisplayedDose(dose.dose, medication, concentration, doseDisplay);
+  if (displayed.isVolume) {
+    const effective = `${formatNumber(displayed.effectiveMg)} mg`;
+    const rounding = isRoundedDose(displayed, dose.dose) ? ` (scheduled ${amount}, rounded to the syringe)` : '';
+    return {
+      summary: `${medication.name} ${formatDisplayedDose(displayed)} (${effective})`,
+      description: `${formatDisplayedDose(displayed)} ${medication.name} = ${effective} @ ${concentration} mg/mL${rounding}`
+    };
+  }
+
+  const volume = formatNumber(dose.dose / concentration, 3);
+  return {
+    summary: `${medication.name} ${amount} (${volume} mL)`,
+    description: `${amount} ${medication.name} = ${volume} mL @ ${concentration} mg/mL`
+  };
+}
+
+/**
+ * Build an .ics calendar with one event per dose. Repeating schedules become
+ * recurring events with an RRULE rather than a fixed number of copies.
+ */
+export function generateICS({
+  doses,
+  scheduleLength,
+  repeat,
+  esterConcentrations,
+  startDate,
+  timestamp = new Date(),
+  doseDisplay = DEFAULT_DOSE_DISPLAY
+}: ICSExportOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  doses.forEach((dose, index) => {
+    const date = dateForDay(startDate, dose.day);
+    if (!date) return;
+
+    const { summary, description } = describeDose(dose, esterConcentrations, doseDisplay);
+    const scheduleNote = repeat
+      ? `Day ${dose.day} of a repeating ${scheduleLength}-day schedule`
+      : `Day ${dose.day} of the schedule`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${startDate}-${index}-${dose.day}@estradiol-schedule`,
+      `DTSTAMP:${formatICSTimestamp(timestamp)}`
+    );
+
+    if (dose.time !== undefined) {
+      lines.push(
+        `DTSTART:${formatICSDate(date)}${formatTimeOfDay(dose.time)}`,
+        `DURATION:${TIMED_EVENT_DURATION}`
+      );
+    } else {
+      const nextDay = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatICSDate(date)}`,
+        `DTEND;VALUE=DATE:${formatICSDate(nextDay)}`
+      );
+    }
+
+    if (repeat) {
+      lines.push(`RRULE:${getRepeatRule(scheduleLength)}`);
+    }
+
+    lines.push(
+      `SUMMARY:${escapeICSText(summary)}`,
+      `DESCRIPTION:${escapeICSText(`${description}\n${scheduleNote}`)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Save an .ics file through the browser
+ */
+export function downloadICS(content: string, filename: string) {
+  downloadTextFile(content, filename, 'text/calendar;charset=utf-8');
+}
@@ -0,0 +1,68 @@
+import { forecastSupply, monthlyConsumption, Vial } from './inventory';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const weekly: Dose[] = [{ day: 0, dose: 5, medication: EV }];
+
+const vial = (overrides: Partial<Vial> = {}): Vial => ({
+  id: 'v1',
+  medicationName: EV.name,
+  concentration: 40,
+  volumeMl: 1, // 40 mg: eight weekly 5 mg doses
+  discardAfterDays: 365,
+  ...overrides
+});
+
+const forecast = (vials: Vial[], doses = weekly) => forecastSupply(vials, {
+  doses,
+  scheduleLength: 7,
+  repeat: true,
+  startDate: '2025-01-01',
+  today: '2025-01-01'
+});
+
+describe('forecastSupply', () => {
+  it('should find when the stock runs out', () => {
+    const [result] = forecast([vial()]);
+
+    expect(result!.stockMg).toBe(40);
+    expect(result!.daysOfSupply).toBe(56); // The ninth dose
+    expect(result!.refillDate).toBe('2025-02-26');
+    expect(result!.warnings).toEqual([]);
+  });
+
+  it('should warn when an opened vial reaches its discard date with drug left', () => {
+    const [result] = forecast([vial({ openedDate: '2024-12-20', discardAfterDays: 28 })]);
+
+    // Opened 20 Dec, last usable 16 Jan: doses on 1, 8 and 15 Jan use 15 mg
+    expect(result!.daysOfSupply).toBe(21);
+    expect(result!.warnings).toHaveLength(1);
+    expect(result!.warnings[0]).toContain('must be discarded 28 days after opening on 2025-01-16 with 0.63 mL (25 mg) unused');
+  });
+
+  it('should use opened vials before sealed ones and sealed ones by expiry', () => {
+    const [result] = forecast([
+      vial({ id: 'late', expiryDate: '2026-01-01' }),
+      vial({ id: 'soon', expiryDate: '2025-02-01', volumeMl: 0.25 }),
+      vial({ id: 'open', openedDate: '2025-01-01', volumeMl: 0.125 })
+    ]);
+
+    // 5 mg + 10 mg before the early vial expires, then 40 mg from the last
+    expect(result!.daysOfSupply).toBe(77);
+    expect(result!.warnings).toEqual([]);
+  });
+
+  it('should report vials with no scheduled use', () => {
+    const [result] = forecast([vial({ medicationName: 'Estradiol cypionate' })], []);
+
+    expect(result!.medicationName).toBe('Estradiol cypionate');
+    expect(result!.mgPerMonth).toBe(0);
+    expect(result!.daysOfSupply).toBeNull();
+  });
+});
+
+describe('monthlyConsumption', () => {
+  it('should average the schedule over 30 days', () => {
+    expect(monthlyConsumption(weekly, 7, EV.name)).toBeCloseTo(5 * 30 / 7);
+  });
+});
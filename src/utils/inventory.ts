@@ -0,0 +1,154 @@
+import { Dose } from '../data/estradiolEsters';
+import { isEstradiolMedication } from '../types/medication';
+import { dateForDay, daysBetween, toISODate } from './dates';
+import { formatNumber } from './formatters';
+
+/**
+ * Vials on hand and how long they last on the current schedule
+ */
+
+export interface Vial {
+  id: string;
+  medicationName: string;
+  concentration: number; // mg/mL
+  volumeMl: number; // Volume remaining
+  openedDate?: string; // ISO YYYY-MM-DD of the first puncture; unopened when absent
+  expiryDate?: string; // ISO YYYY-MM-DD printed on the vial
+  discardAfterDays: number; // Use within this many days of opening
+}
+
+export interface SupplyForecastOptions {
+  doses: Dose[];
+  scheduleLength: number;
+  repeat: boolean;
+  startDate: string | null; // Without one, today is taken to be day 0
+  today: string;
+  horizonDays?: number;
+}
+
+export interface SupplyForecast {
+  medicationName: string;
+  mgPerMonth: number;
+  stockMg: number; // Usable drug in vials on hand
+  daysOfSupply: number | null; // Until a dose can't be drawn up; null if stock outlasts the forecast
+  refillDate: string | null; // Day the first uncovered dose falls on
+  warnings: string[];
+}
+
+export const DEFAULT_DISCARD_AFTER_DAYS = 28;
+export const INVENTORY_FORECAST_DAYS = 730;
+const DAYS_PER_MONTH = 30;
+const EMPTY_ML = 1e-6;
+
+interface VialState {
+  vial: Vial;
+  remainingMl: number;
+  openedDay: number | null; // Relative to today
+  expiryDay: number | null;
+}
+
+let idCounter = 0;
+export const generateVialId = () => `vial-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+const describeVial = (vial: Vial) => `${vial.medicationName} ${formatNumber(vial.concentration)} mg/mL`;
+
+const lastUsableDay = (state: VialState): number => Math.min(
+  state.expiryDay ?? Infinity,
+  state.openedDay !== null ? state.openedDay + state.vial.discardAfterDays - 1 : Infinity
+);
+
+/**
+ * Average drug use of a medication per 30 days on the schedule
+ */
+export function monthlyConsumption(doses: Dose[], scheduleLength: number, medicationName: string): number {
+  const total = doses.filter(d => d.medication.name === medicationName).reduce((sum, d) => sum + d.dose, 0);
+  return scheduleLength > 0 ? (total / scheduleLength) * DAYS_PER_MONTH : 0;
+}
+
+/**
+ * Walk the schedule forward from today drawing each injection from the vials on hand:
+ * opened vials first, then sealed ones by expiry. Vials that reach their discard or
+ * expiry date with drug left in them produce a warning.
+ */
+export function forecastSupply(vials: Vial[], options: SupplyForecastOptions): SupplyForecast[] {
+  const { doses, scheduleLength, repeat, startDate, today, horizonDays = INVENTORY_FORECAST_DAYS } = options;
+  const todayDay = startDate ? daysBetween(startDate, today) ?? 0 : 0;
+  const dateAfter = (offset: number) => toISODate(dateForDay(today, offset)!);
+
+  const medicationNames = Array.from(new Set([
+    ...doses.filter(d => isEstradiolMedication(d.medication)).map(d => d.medication.name),
+    ...vials.map(v => v.medicationName)
+  ]));
+
+  return medicationNames.map(medicationName => {
+    const scheduled = doses.filter(d => d.medication.name === medicationName);
+    const states: VialState[] = vials
+      .filter(v => v.medicationName === medicationName)
+      .map(vial => ({
+        vial,
+        remainingMl: vial.volumeMl,
+        openedDay: vial.openedDate ? daysBetween(today, vial.openedDate) : null,
+        expiryDay: vial.expiryDate ? daysBetween(today, vial.expiryDate) : null
+      }));
+    const warnings: string[] = [];
+    let runOutDay: number | null = null;
+
+    const stockMg = states
+      .filter(s => lastUsableDay(s) >= 0)
+      .reduce((sum, s) => sum + s.remainingMl * s.vial.concentration, 0);
+
+    const discardUnused = (state: VialState, day: number) => {
+      if (state.remainingMl <= EMPTY_ML) return;
+      const reason = state.openedDay !== null && day === state.openedDay + state.vial.discardAfterDays - 1
+        ? `must be discarded ${state.vial.discardAfterDays} days after opening`
+        : 'expires';
+      warnings.push(
+        `${describeVial(state.vial)} ${reason} on ${dateAfter(day)} with ` +
+        `${formatNumber(state.remainingMl)} mL (${formatNumber(state.remainingMl * state.vial.concentration)} mg) unused`
+      );
+      state.remainingMl = 0;
+    };
+
+    const nextVial = (day: number) => {
+      const usable = states.filter(s => s.remainingMl > EMPTY_ML && lastUsableDay(s) >= day);
+      const opened = usable.filter(s => s.openedDay !== null).sort((a, b) => lastUsableDay(a) - lastUsableDay(b));
+      return opened[0] ?? usable.sort((a, b) => (a.expiryDay ?? Infinity) - (b.expiryDay ?? Infinity))[0];
+    };
+
+    states.filter(s => lastUsableDay(s) < 0).forEach(s => discardUnused(s, lastUsableDay(s)));
+
+    for (let offset = 0; offset < horizonDays && runOutDay === null; offset++) {
+      const scheduleDay = todayDay + offset;
+      if (!repeat && scheduleDay >= scheduleLength) break;
+      const cycleDay = repeat ? ((scheduleDay % scheduleLength) + scheduleLength) % scheduleLength : scheduleDay;
+
+      for (const dose of scheduled.filter(d => Math.floor(d.day) === cycleDay)) {
+        let neededMg = dose.dose;
+        while (neededMg > EMPTY_ML) {
+          const state = nextVial(offset);
+          if (!state) {
+            runOutDay = offset;
+            break;
+          }
+          if (state.openedDay === null) state.openedDay = offset;
+          const drawnMl = Math.min(state.remainingMl, neededMg / state.vial.concentration);
+          state.remainingMl -= drawnMl;
+          neededMg -= drawnMl * state.vial.concentration;
+        }
+        if (runOutDay !== null) break;
+      }
+
+      // Vials with drug left at the end of their last usable day go to waste
+      states.filter(s => lastUsableDay(s) === offset).forEach(s => discardUnused(s, offset));
+    }
+
+    return {
+      medicationName,
+      mgPerMonth: monthlyConsumption(doses, scheduleLength, medicationName),
+      stockMg,
+      daysOfSupply: runOutDay,
+      refillDate: runOutDay !== null ? dateAfter(runOutDay) : null,
+      warnings
+    };
+  });
+}
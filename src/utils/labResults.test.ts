@@ -0,0 +1,70 @@
+import { compareLabResults, LabResult, migrateBloodDraws } from './labResults';
+import { calculateTotalConcentration } from './pharmacokinetics';
+import { toModelUnits } from './units';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+describe('toModelUnits', () => {
+  it('should convert estradiol to pg/mL', () => {
+    expect(toModelUnits(150, 'estradiol', 'pg/mL')).toBe(150);
+    expect(toModelUnits(0.15, 'estradiol', 'ng/mL')).toBeCloseTo(150);
+    expect(toModelUnits(367, 'estradiol', 'pmol/L')).toBeCloseTo(100);
+  });
+
+  it('should convert progesterone to ng/mL', () => {
+    expect(toModelUnits(10, 'progesterone', 'ng/mL')).toBe(10);
+    expect(toModelUnits(31.8, 'progesterone', 'nmol/L')).toBeCloseTo(10);
+  });
+
+  it('should reject units that do not apply to the hormone', () => {
+    expect(toModelUnits(10, 'progesterone', 'pg/mL')).toBeNaN();
+    expect(toModelUnits(10, 'estradiol', 'nmol/L')).toBeNaN();
+  });
+});
+
+describe('compareLabResults', () => {
+  const doses: Dose[] = [
+    { day: 0, dose: 5, medication: ESTRADIOL_ESTERS[1]! },
+    { day: 1, dose: 100, medication: PROGESTERONE_ROUTES[0]! }
+  ];
+
+  it('should compute residuals against the model at the time of each result', () => {
+    const results: LabResult[] = [
+      { id: 'e2', day: 2.5, hormone: 'estradiol', value: 0.2, unit: 'ng/mL', note: 'Trough' },
+      { id: 'p4', day: 1.25, hormone: 'progesterone', value: 5, unit: 'ng/mL' }
+    ];
+    const [e2Point, p4Point] = calculateTotalConcentration(doses, [2.5, 1.25]);
+
+    const comparisons = compareLabResults(results, doses);
+
+    expect(comparisons).toHaveLength(2);
+    expect(comparisons[0]!.observed).toBeCloseTo(200);
+    expect(comparisons[0]!.predicted).toBeCloseTo(e2Point!.estradiolConcentration);
+    expect(comparisons[0]!.residual).toBeCloseTo(200 - e2Point!.estradiolConcentration);
+    expect(comparisons[1]!.predicted).toBeCloseTo(p4Point!.progesteroneConcentration);
+  });
+
+  it('should skip results with invalid units or negative days', () => {
+    const results: LabResult[] = [
+      { id: 'bad-unit', day: 2, hormone: 'progesterone', value: 5, unit: 'pmol/L' },
+      { id: 'negative', day: -1, hormone: 'estradiol', value: 100, unit: 'pg/mL' }
+    ];
+
+    expect(compareLabResults(results, doses)).toEqual([]);
+  });
+});
+
+describe('migrateBloodDraws', () => {
+  it('should place draws on the day axis and drop unreadable ones', () => {
+    const draws = [
+      { id: 'a', date: '2024-01-01', injectionDay: 7, hoursSinceInjection: 36, value: 0.2, unit: 'ng/mL' },
+      { id: 'b', date: '', injectionDay: 0, hoursSinceInjection: -1, value: 200, unit: 'pg/mL' },
+      { id: 'c', injectionDay: 0, hoursSinceInjection: 12, value: 200, unit: 'nmol/L' }
+    ];
+
+    expect(migrateBloodDraws(draws)).toEqual([
+      { id: 'a', day: 8.5, hormone: 'estradiol', value: 0.2, unit: 'ng/mL', note: '2024-01-01' }
+    ]);
+    expect(migrateBloodDraws({ draws })).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { Dose } from '../data/estradiolEsters';
+import { calculateTotalConcentration } from './pharmacokinetics';
+import { ESTRADIOL_UNITS, Hormone, LabUnit, toModelUnits } from './units';
+
+/**
+ * Measured hormone levels, placed on the same day axis as the concentration graph
+ */
+export interface LabResult {
+  id: string;
+  day: number; // Days from the start of the graph (fractional for time of day)
+  hormone: Hormone;
+  value: number;
+  unit: LabUnit;
+  note?: string;
+}
+
+export interface LabComparison {
+  result: LabResult;
+  observed: number; // Model units (pg/mL estradiol, ng/mL progesterone)
+  predicted: number;
+  residual: number; // observed - predicted
+}
+
+/**
+ * Compare lab results with the modelled level at the moment each was taken
+ *
+ * @param doses - Doses already expanded for repeat/steady state, as used for the graph
+ */
+export function compareLabResults(results: LabResult[], doses: Dose[]): LabComparison[] {
+  const valid = results.filter(r => r.day >= 0 && isFinite(toModelUnits(r.value, r.hormone, r.unit)));
+  if (valid.length === 0) return [];
+
+  const points = calculateTotalConcentration(doses, valid.map(r => r.day));
+
+  return valid.map((result, i) => {
+    const point = points[i]!;
+    const observed = toModelUnits(result.value, result.hormone, result.unit);
+    const predicted = result.hormone === 'estradiol' ? point.estradiolConcentration : point.progesteroneConcentration;
+    return { result, observed, predicted, residual: observed - predicted };
+  });
+}
+
+/**
+ * Convert estradiol draws saved by older versions of the bloodwork dialog, which kept its own store.
+ * Each draw was timed as hours after a schedule day's injection; its date becomes the note.
+ */
+export function migrateBloodDraws(raw: unknown): LabResult[] {
+  if (!Array.isArray(raw)) return [];
+
+  const knownUnits = ESTRADIOL_UNITS as string[];
+  return raw
+    .filter(draw =>
+      draw &&
+      typeof draw.id === 'string' &&
+      Number.isFinite(draw.injectionDay) && draw.injectionDay >= 0 &&
+      Number.isFinite(draw.hoursSinceInjection) && draw.hoursSinceInjection >= 0 &&
+      Number.isFinite(draw.value) && draw.value > 0 &&
+      knownUnits.includes(draw.unit)
+    )
+    .map(draw => ({
+      id: draw.id,
+      day: draw.injectionDay + draw.hoursSinceInjection / 24,
+      hormone: 'estradiol' as const,
+      value: draw.value,
+      unit: draw.unit,
+      ...(typeof draw.date === 'string' && draw.date ? { note: draw.date } : {})
+    }));
+}
@@ -0,0 +1,78 @@
+import { Dose } from '../data/estradiolEsters';
+import { optimizeSchedule, OptimizationParams, OptimizationResult, ProgressCallback } from './scheduleOptimizer';
+import { OptimizerRequest, OptimizerResponse } from '../workers/optimizerProtocol';
+
+export interface RunOptimizerOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+  onIntermediate?: (doses: Dose[], score: number) => void;
+}
+
+function abortError(): Error {
+  const error = new Error('Optimization aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Run the schedule optimizer off the main thread.
+ * Aborting the signal terminates the worker immediately and rejects with an AbortError.
+ * Falls back to running in-thread where Web Workers aren't available (e.g. tests).
+ */
+export async function runOptimizer(
+  params: OptimizationParams,
+  options: RunOptimizerOptions = {}
+): Promise<OptimizationResult> {
+  const { signal, onProgress, onIntermediate } = options;
+
+  if (typeof Worker === 'undefined') {
+    return optimizeSchedule(params, onProgress, { signal, onIntermediate });
+  }
+
+  if (signal?.aborted) throw abortError();
+  const { createOptimizerWorker } = await import('../workers/createOptimizerWorker');
+  if (signal?.aborted) throw abortError();
+
+  const worker = createOptimizerWorker();
+
+  return new Promise<OptimizationResult>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<OptimizerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress, message.score, message.iteration);
+          break;
+        case 'intermediate':
+          onIntermediate?.(message.doses, message.score);
+          break;
+        case 'result':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Optimizer worker failed'));
+    };
+
+    const request: OptimizerRequest = { type: 'start', params };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,52 @@
+import { applyPattern, DosePattern, generatePatternDoses, getPatternDays } from './patternGenerator';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const pattern = (overrides: Partial<DosePattern> = {}): DosePattern => ({
+  days: { kind: 'interval', interval: 5, startDay: 1 },
+  medication: EV,
+  dose: 4,
+  ramp: { kind: 'none' },
+  ...overrides
+});
+
+describe('getPatternDays', () => {
+  it('should repeat every N days from the start day', () => {
+    expect(getPatternDays({ kind: 'interval', interval: 5, startDay: 1 }, 14, null)).toEqual([1, 6, 11]);
+  });
+
+  it('should pick weekdays from the start date', () => {
+    // 2024-01-01 is a Monday
+    expect(getPatternDays({ kind: 'weekdays', weekdays: [1, 4] }, 14, '2024-01-01')).toEqual([0, 3, 7, 10]);
+    expect(getPatternDays({ kind: 'weekdays', weekdays: [1, 4] }, 14, null)).toEqual([]);
+  });
+});
+
+describe('generatePatternDoses', () => {
+  it('should ramp linearly from the starting dose to the end dose', () => {
+    const doses = generatePatternDoses(pattern({ ramp: { kind: 'linear', endDose: 6 } }), 14, null);
+    expect(doses.map(d => d.dose)).toEqual([4, 5, 6]);
+  });
+
+  it('should step the dose up at fixed intervals', () => {
+    const doses = generatePatternDoses(pattern({ ramp: { kind: 'stepped', everyDays: 7, step: 0.5 } }), 14, null);
+    expect(doses.map(d => d.dose)).toEqual([4, 4, 4.5]);
+  });
+});
+
+describe('applyPattern', () => {
+  const generated = generatePatternDoses(pattern(), 14, null);
+  const existing = [{ day: 6, dose: 3, medication: EV }, { day: 2, dose: 100, medication: ESTRADIOL_ESTERS[0]! }];
+
+  it('should replace the schedule', () => {
+    expect(applyPattern(existing, generated, 'replace')).toEqual({ doses: generated, skipped: 0 });
+  });
+
+  it('should merge, skipping doses that clash with existing ones', () => {
+    const result = applyPattern(existing, generated, 'merge');
+
+    expect(result.skipped).toBe(1);
+    expect(result.doses.map(d => d.day)).toEqual([1, 2, 6, 11]);
+    expect(result.doses.find(d => d.day === 6)!.dose).toBe(3);
+  });
+});
@@ -0,0 +1,94 @@
+import { Dose } from '../data/estradiolEsters';
+import { AnyMedication } from '../types/medication';
+import { dateForDay } from './dates';
+import { getSameDayConflict } from './doseConstraints';
+
+/**
+ * Generate regular dosing patterns ("every N days from day X", "Mon/Thu") with optional dose ramps
+ */
+
+export type PatternDays =
+  | { kind: 'interval'; interval: number; startDay: number }
+  | { kind: 'weekdays'; weekdays: number[] }; // 0 = Sunday, as Date.getUTCDay
+
+export type DoseRamp =
+  | { kind: 'none' }
+  | { kind: 'linear'; endDose: number } // From the starting dose on the first day to endDose on the last
+  | { kind: 'stepped'; everyDays: number; step: number }; // Add `step` every `everyDays` days
+
+export interface DosePattern {
+  days: PatternDays;
+  medication: AnyMedication;
+  dose: number;
+  ramp: DoseRamp;
+}
+
+export type PatternApplyMode = 'replace' | 'merge';
+
+export interface PatternApplyResult {
+  doses: Dose[];
+  skipped: number; // Generated doses left out because they clash with doses already on that day
+}
+
+const roundDose = (dose: number) => Math.round(dose * 100) / 100;
+
+/**
+ * Days in the schedule that the pattern falls on. Weekday patterns need a start date.
+ */
+export function getPatternDays(days: PatternDays, scheduleLength: number, startDate: string | null): number[] {
+  const allDays = Array.from({ length: scheduleLength }, (_, day) => day);
+
+  if (days.kind === 'weekdays') {
+    if (!startDate) return [];
+    return allDays.filter(day => {
+      const date = dateForDay(startDate, day);
+      return date !== null && days.weekdays.includes(date.getUTCDay());
+    });
+  }
+
+  if (days.interval < 1) return [];
+  return allDays.filter(day => day >= days.startDay && (day - days.startDay) % days.interval === 0);
+}
+
+function rampedDose(pattern: DosePattern, day: number, firstDay: number, lastDay: number): number {
+  const { ramp, dose } = pattern;
+  if (ramp.kind === 'linear') {
+    const progress = lastDay > firstDay ? (day - firstDay) / (lastDay - firstDay) : 0;
+    return roundDose(dose + (ramp.endDose - dose) * progress);
+  }
+  if (ramp.kind === 'stepped' && ramp.everyDays >= 1) {
+    return roundDose(dose + Math.floor((day - firstDay) / ramp.everyDays) * ramp.step);
+  }
+  return dose;
+}
+
+export function generatePatternDoses(pattern: DosePattern, scheduleLength: number, startDate: string | null): Dose[] {
+  const days = getPatternDays(pattern.days, scheduleLength, startDate);
+  const firstDay = days[0] ?? 0;
+  const lastDay = days[days.length - 1] ?? 0;
+
+  return days
+    .map(day => ({ day, dose: rampedDose(pattern, day, firstDay, lastDay), medication: pattern.medication }))
+    .filter(d => d.dose > 0);
+}
+
+/**
+ * Put generated doses into the schedule, either instead of the current doses or alongside
+ * them. When merging, doses that would break a same-day rule are skipped.
+ */
+export function applyPattern(existing: Dose[], generated: Dose[], mode: PatternApplyMode): PatternApplyResult {
+  if (mode === 'replace') {
+    return { doses: generated, skipped: 0 };
+  }
+
+  const doses = [...existing];
+  let skipped = 0;
+  generated.forEach(dose => {
+    if (getSameDayConflict(dose.medication, dose.day, doses)) {
+      skipped++;
+    } else {
+      doses.push(dose);
+    }
+  });
+  return { doses: doses.sort((a, b) => a.day - b.day), skipped };
+}
@@ -1,9 +1,14 @@
 import {
   calculateConcentration,
+  calculateTransdermalConcentration,
+  calculateOralEstradiolConcentration,
+  calculateOralEstroneConcentration,
   calculateTotalConcentration,
   generateTimePoints,
 } from './pharmacokinetics';
 import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { TRANSDERMAL_PATCHES } from '../data/transdermalPatches';
+import { ORAL_ESTRADIOL_ROUTES } from '../data/oralEstradiolRoutes';
 import { PHARMACOKINETICS } from '../constants/pharmacokinetics';
 
 describe('generateTimePoints', () => {
@@ -283,3 +288,90 @@ describe('calculateTotalConcentration', () => {
     });
   });
 });
+
+describe('calculateTransdermalConcentration', () => {
+  const twiceWeekly = TRANSDERMAL_PATCHES[0]!;
+  const weekly = TRANSDERMAL_PATCHES[1]!;
+
+  it('should return 0 before the patch is applied', () => {
+    expect(calculateTransdermalConcentration(0.5, 1, 100, twiceWeekly)).toBe(0);
+  });
+
+  it('should plateau near strength × concentrationPerRate while worn', () => {
+    const concentration = calculateTransdermalConcentration(3, 0, 100, twiceWeekly);
+    expect(concentration).toBeCloseTo(100 * twiceWeekly.concentrationPerRate, 0);
+  });
+
+  it('should scale linearly with patch strength', () => {
+    const c50 = calculateTransdermalConcentration(2, 0, 50, weekly);
+    const c100 = calculateTransdermalConcentration(2, 0, 100, weekly);
+    expect(c100).toBeCloseTo(c50 * 2, 5);
+  });
+
+  it('should decline after removal and be near zero a day later', () => {
+    const atRemoval = calculateTransdermalConcentration(twiceWeekly.wearDays, 0, 100, twiceWeekly);
+    const halfDayLater = calculateTransdermalConcentration(twiceWeekly.wearDays + 0.5, 0, 100, twiceWeekly);
+    const dayLater = calculateTransdermalConcentration(twiceWeekly.wearDays + 1.5, 0, 100, twiceWeekly);
+
+    expect(halfDayLater).toBeLessThan(atRemoval);
+    expect(dayLater).toBeLessThan(atRemoval * 0.05);
+  });
+
+  it('should be summed into total estradiol concentration', () => {
+    const EV = ESTRADIOL_ESTERS[1]!;
+    const doses = [
+      { day: 0, dose: 5, medication: EV },
+      { day: 0, dose: 100, medication: weekly },
+    ];
+
+    const [combined] = calculateTotalConcentration(doses, [3]);
+    const injectionOnly = calculateConcentration(3, 0, 5, EV);
+    const patchOnly = calculateTransdermalConcentration(3, 0, 100, weekly);
+
+    expect(combined!.estradiolConcentration).toBeCloseTo(injectionOnly + patchOnly, 5);
+    expect(combined!.progesteroneConcentration).toBe(0);
+  });
+});
+
+describe('oral and sublingual estradiol', () => {
+  const oral = ORAL_ESTRADIOL_ROUTES[0]!;
+  const sublingual = ORAL_ESTRADIOL_ROUTES[1]!;
+
+  const peakOf = (fn: (t: number) => number) => {
+    const points = generateTimePoints(2, 1 / 48).map(t => ({ t, value: fn(t) }));
+    return points.reduce((best, p) => (p.value > best.value ? p : best));
+  };
+
+  it('should return 0 before the dose', () => {
+    expect(calculateOralEstradiolConcentration(0, 1, 2, oral)).toBe(0);
+    expect(calculateOralEstroneConcentration(0, 1, 2, oral)).toBe(0);
+  });
+
+  it('should peak later and lower for oral than sublingual', () => {
+    const oralPeak = peakOf(t => calculateOralEstradiolConcentration(t, 0, 1, oral));
+    const sublingualPeak = peakOf(t => calculateOralEstradiolConcentration(t, 0, 1, sublingual));
+
+    expect(sublingualPeak.t).toBeLessThan(oralPeak.t);
+    expect(sublingualPeak.value).toBeGreaterThan(oralPeak.value);
+  });
+
+  it('should produce a higher E1:E2 ratio orally than sublingually', () => {
+    const ratio = (med: typeof oral) =>
+      calculateOralEstroneConcentration(0.25, 0, 2, med) / calculateOralEstradiolConcentration(0.25, 0, 2, med);
+
+    expect(ratio(oral)).toBeGreaterThan(3);
+    expect(ratio(sublingual)).toBeLessThan(ratio(oral));
+  });
+
+  it('should add estradiol and estrone to total concentration', () => {
+    const [point] = calculateTotalConcentration([{ day: 0, dose: 2, medication: oral }], [0.25]);
+
+    expect(point!.estradiolConcentration).toBeCloseTo(calculateOralEstradiolConcentration(0.25, 0, 2, oral), 5);
+    expect(point!.estroneConcentration).toBeCloseTo(calculateOralEstroneConcentration(0.25, 0, 2, oral), 5);
+  });
+
+  it('should not report estrone for injections', () => {
+    const [point] = calculateTotalConcentration([{ day: 0, dose: 5, medication: ESTRADIOL_ESTERS[1]! }], [2]);
+    expect(point!.estroneConcentration).toBe(0);
+  });
+});
@@ -1,14 +1,18 @@
 import { Dose } from '../data/estradiolEsters';
-import { EstradiolMedication, ProgesteroneMedication, MedicationType, AnyMedication } from '../types/medication';
+import { EstradiolMedication, ProgesteroneMedication, TransdermalMedication, OralEstradiolMedication, MedicationType, AnyMedication } from '../types/medication';
 import { PHARMACOKINETICS } from '../constants/pharmacokinetics';
 
 export interface ConcentrationPoint {
   time: number;
   estradiolConcentration: number;
   progesteroneConcentration: number;
+  estroneConcentration?: number; // pg/mL, from first-pass metabolism of oral/sublingual estradiol
   concentration?: number;
 }
 
+/** Converts mg/L to pg/mL */
+const MG_PER_L_TO_PG_PER_ML = 1e6;
+
 export function calculateConcentration(
   t: number,
   day: number,
@@ -53,11 +57,24 @@ export function calculateProgesteroneConcentration(
   const deltaT = (t - day) * 24; // Convert days to hours
   const { bioavailability, absorptionRate, eliminationRate, volumeOfDistribution } = medication;
 
-  const F = bioavailability;
-  const ka = absorptionRate; // 1/hour
-  const ke = eliminationRate; // 1/hour
-  const Vd = volumeOfDistribution;
+  return oneCompartmentConcentration(deltaT, dose, bioavailability, absorptionRate, eliminationRate, volumeOfDistribution);
+}
 
+/**
+ * One-compartment model with first-order absorption
+ * C(t) = (F * Dose * ka) / (Vd * (ka - ke)) * (e^(-ke*t) - e^(-ka*t))
+ *
+ * @param deltaT - Time since dose (hours)
+ * @returns Concentration in dose units per Vd unit
+ */
+function oneCompartmentConcentration(
+  deltaT: number,
+  dose: number,
+  F: number,
+  ka: number,
+  ke: number,
+  Vd: number
+): number {
   if (Math.abs(ka - ke) < 1e-10) {
     const concentration = (F * dose * ka * deltaT / Vd) * Math.exp(-ke * deltaT);
     return Math.max(0, concentration);
@@ -69,6 +86,85 @@ export function calculateProgesteroneConcentration(
   return Math.max(0, concentration);
 }
 
+/**
+ * Calculate estradiol concentration from a transdermal patch
+ * Zero-order delivery while worn, approaching steady state through the skin depot:
+ *   C(t) = Css * (1 - e^(-ka*t))            for t <= wear period
+ *   C(t) = C(wear) * e^(-ke*(t - wear))     after removal
+ *
+ * @param t - Current time (days)
+ * @param day - Day the patch is applied
+ * @param rate - Patch strength (µg/day)
+ * @param medication - Transdermal medication with PK parameters
+ * @returns Concentration in pg/mL
+ */
+export function calculateTransdermalConcentration(
+  t: number,
+  day: number,
+  rate: number,
+  medication: TransdermalMedication
+): number {
+  const { wearDays, concentrationPerRate, absorptionRate, eliminationRate } = medication;
+  if (t < day || t > day + wearDays + PHARMACOKINETICS.PATCH_TAIL_DURATION_DAYS) {
+    return 0;
+  }
+
+  const deltaT = t - day;
+  const steadyState = rate * concentrationPerRate;
+
+  if (deltaT <= wearDays) {
+    return Math.max(0, steadyState * (1 - Math.exp(-absorptionRate * deltaT)));
+  }
+
+  const atRemoval = steadyState * (1 - Math.exp(-absorptionRate * wearDays));
+  return Math.max(0, atRemoval * Math.exp(-eliminationRate * (deltaT - wearDays)));
+}
+
+/**
+ * Calculate estradiol concentration from an oral or sublingual dose
+ *
+ * @param t - Current time (days)
+ * @param day - Day of dose administration
+ * @param dose - Dose amount (mg)
+ * @param medication - Oral estradiol medication with PK parameters
+ * @returns Concentration in pg/mL
+ */
+export function calculateOralEstradiolConcentration(
+  t: number,
+  day: number,
+  dose: number,
+  medication: OralEstradiolMedication
+): number {
+  if (t < day) return 0;
+
+  const deltaT = (t - day) * 24; // Convert days to hours
+  const { bioavailability, absorptionRate, eliminationRate, volumeOfDistribution } = medication;
+
+  return MG_PER_L_TO_PG_PER_ML *
+    oneCompartmentConcentration(deltaT, dose, bioavailability, absorptionRate, eliminationRate, volumeOfDistribution);
+}
+
+/**
+ * Calculate estrone concentration formed by first-pass metabolism of an oral or sublingual dose
+ * Uses the same absorption rate as estradiol with estrone's own elimination rate
+ *
+ * @returns Concentration in pg/mL
+ */
+export function calculateOralEstroneConcentration(
+  t: number,
+  day: number,
+  dose: number,
+  medication: OralEstradiolMedication
+): number {
+  if (t < day) return 0;
+
+  const deltaT = (t - day) * 24; // Convert days to hours
+  const { estroneFraction, absorptionRate, estroneEliminationRate, volumeOfDistribution } = medication;
+
+  return MG_PER_L_TO_PG_PER_ML *
+    oneCompartmentConcentration(deltaT, dose, estroneFraction, absorptionRate, estroneEliminationRate, volumeOfDistribution);
+}
+
 /**
  * Generic medication concentration calculator that handles both E and P
  */
@@ -82,6 +178,10 @@ export function calculateMedicationConcentration(
     return calculateConcentration(t, day, dose, medication as EstradiolMedication);
   } else if (medication.type === MedicationType.PROGESTERONE) {
     return calculateProgesteroneConcentration(t, day, dose, medication as ProgesteroneMedication);
+  } else if (medication.type === MedicationType.TRANSDERMAL) {
+    return calculateTransdermalConcentration(t, day, dose, medication as TransdermalMedication);
+  } else if (medication.type === MedicationType.ORAL_ESTRADIOL) {
+    return calculateOralEstradiolConcentration(t, day, dose, medication as OralEstradiolMedication);
   }
   return 0;
 }
@@ -98,6 +198,19 @@ export function calculateTotalConcentration(
       if (med.type === MedicationType.ESTRADIOL) {
         return sum + calculateConcentration(t, day, dose, med as EstradiolMedication);
       }
+      if (med.type === MedicationType.TRANSDERMAL) {
+        return sum + calculateTransdermalConcentration(t, day, dose, med as TransdermalMedication);
+      }
+      if (med.type === MedicationType.ORAL_ESTRADIOL) {
+        return sum + calculateOralEstradiolConcentration(t, day, dose, med as OralEstradiolMedication);
+      }
+      return sum;
+    }, 0);
+
+    const estroneTotal = doses.reduce((sum, { day, dose, medication }) => {
+      if (medication?.type === MedicationType.ORAL_ESTRADIOL) {
+        return sum + calculateOralEstroneConcentration(t, day, dose, medication as OralEstradiolMedication);
+      }
       return sum;
     }, 0);
 
@@ -114,6 +227,7 @@ export function calculateTotalConcentration(
       time: t,
       estradiolConcentration: Math.max(0, estradiolTotal),
       progesteroneConcentration: Math.max(0, progesteroneTotal),
+      estroneConcentration: Math.max(0, estroneTotal),
       concentration: Math.max(0, estradiolTotal)
     };
   });
@@ -125,4 +239,33 @@ export function generateTimePoints(maxDays: number, step: number = PHARMACOKINET
     points.push(t);
   }
   return points;
-}
\ No newline at end of file
+}
+/**
+ * Expand a schedule into the concrete doses that affect a window of `displayDays`.
+ * Repeating schedules are tiled every `scheduleLength` days; steady state also
+ * prepends earlier cycles so the window starts with accumulated levels.
+ */
+export function expandRepeatedDoses(
+  doses: Dose[],
+  scheduleLength: number,
+  displayDays: number,
+  repeat: boolean,
+  steadyState: boolean
+): Dose[] {
+  if (!repeat || doses.length === 0) return doses;
+
+  const repeatedDoses: Dose[] = [];
+  const startCycle = steadyState ? PHARMACOKINETICS.STEADY_STATE_START_CYCLE : 0;
+  const numCycles = Math.ceil(displayDays / scheduleLength) + (steadyState ? PHARMACOKINETICS.STEADY_STATE_CYCLES : 0);
+
+  for (let cycle = startCycle; cycle < numCycles; cycle++) {
+    doses.forEach(dose => {
+      repeatedDoses.push({
+        ...dose,
+        day: dose.day + (cycle * scheduleLength)
+      });
+    });
+  }
+
+  return repeatedDoses.filter(d => d.day <= displayDays);
+}
@@ -0,0 +1,93 @@
+import { fitPersonalParameters, applyScaleFactors, getPersonalisedName } from './pkFitting';
+import { LabResult } from './labResults';
+import { calculateTotalConcentration, expandRepeatedDoses } from './pharmacokinetics';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+describe('fitPersonalParameters', () => {
+  const EV = ESTRADIOL_ESTERS[1]!; // Estradiol valerate
+  const doses: Dose[] = [
+    { day: 0, dose: 5, medication: EV },
+    { day: 7, dose: 5, medication: EV }
+  ];
+
+  // Simulate labs from a patient who absorbs EV more slowly and reaches higher levels than average
+  const patient = applyScaleFactors(EV, { D: 1.4, k1: 0.7, k2: 1, k3: 1 });
+  const simulateDraw = (id: string, injectionDay: number, hours: number): LabResult => {
+    const t = injectionDay + hours / 24;
+    const patientDoses = expandRepeatedDoses(
+      doses.map(d => ({ ...d, medication: patient })),
+      14,
+      t,
+      true,
+      true
+    );
+    const [point] = calculateTotalConcentration(patientDoses, [t]);
+    return { id, day: t, hormone: 'estradiol', value: point!.estradiolConcentration, unit: 'pg/mL' };
+  };
+
+  const draws = [
+    simulateDraw('a', 0, 24),
+    simulateDraw('b', 0, 96),
+    simulateDraw('c', 7, 48),
+    simulateDraw('d', 7, 160)
+  ];
+
+  it('should return null without draws or injectable esters', () => {
+    expect(fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: [] })).toBeNull();
+
+    const progesteroneOnly: Dose[] = [{ day: 0, dose: 100, medication: PROGESTERONE_ROUTES[0]! }];
+    expect(fitPersonalParameters({ doses: progesteroneOnly, scheduleLength: 14, repeat: true, steadyState: true, results: draws })).toBeNull();
+  });
+
+  it('should fit labs better than the population parameters', () => {
+    const result = fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: draws })!;
+
+    const populationDoses = expandRepeatedDoses(doses, 14, 14, true, true);
+    const populationErrors = draws.map(draw => {
+      const [point] = calculateTotalConcentration(populationDoses, [draw.day]);
+      return (point!.estradiolConcentration - draw.value) ** 2;
+    });
+    const populationRmse = Math.sqrt(populationErrors.reduce((a, b) => a + b, 0) / draws.length);
+
+    expect(result.residuals).toHaveLength(4);
+    expect(result.rmse).toBeLessThan(populationRmse / 2);
+    expect(result.meanAbsolutePercentError).toBeLessThan(10);
+    expect(result.rSquared).toBeGreaterThan(0.9);
+    expect(result.scales.D).toBeGreaterThan(1);
+  });
+
+  it('should accept draws in ng/mL', () => {
+    const inPg = fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: draws })!;
+    const inNg = fitPersonalParameters({
+      doses,
+      scheduleLength: 14,
+      repeat: true,
+      steadyState: true,
+      results: draws.map(d => ({ ...d, value: d.value / 1000, unit: 'ng/mL' as const }))
+    })!;
+
+    expect(inNg.scales.D).toBeCloseTo(inPg.scales.D, 3);
+    expect(inNg.residuals[0]!.observed).toBeCloseTo(draws[0]!.value, 6);
+  });
+
+  it('should name personalised medications after the ester they came from', () => {
+    const result = fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: draws })!;
+
+    expect(result.personalisedMedications).toHaveLength(1);
+    expect(result.personalisedMedications[0]!.name).toBe('Estradiol valerate (personalised)');
+    expect(getPersonalisedName(result.personalisedMedications[0]!.name)).toBe('Estradiol valerate (personalised)');
+  });
+
+  it('should ignore progesterone results', () => {
+    const progesterone: LabResult = { id: 'p', day: 3, hormone: 'progesterone', value: 10, unit: 'ng/mL' };
+    const result = fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: [...draws, progesterone] })!;
+
+    expect(result.residuals.map(r => r.resultId)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should not report R² for a single draw', () => {
+    const result = fitPersonalParameters({ doses, scheduleLength: 14, repeat: true, steadyState: true, results: [draws[0]!] })!;
+    expect(result.rSquared).toBeNull();
+  });
+});
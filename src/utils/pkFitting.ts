@@ -0,0 +1,243 @@
+import { Dose } from '../data/estradiolEsters';
+import { EstradiolMedication, isEstradiolMedication } from '../types/medication';
+import { calculateTotalConcentration, expandRepeatedDoses } from './pharmacokinetics';
+import { LabResult } from './labResults';
+import { toModelUnits } from './units';
+
+/**
+ * Fit personal pharmacokinetic parameters from measured estradiol levels.
+ *
+ * The population parameters of every ester in the schedule are multiplied by
+ * shared scale factors for D, k1, k2 and k3. The factors are found by minimising
+ * the squared log-ratio between predicted and measured levels, with a weak prior
+ * pulling each factor back towards 1 so that a single blood draw can't produce
+ * wild rate constants.
+ */
+
+export interface PKScaleFactors {
+  D: number;
+  k1: number;
+  k2: number;
+  k3: number;
+}
+
+export interface FitResidual {
+  resultId: string;
+  time: number; // Schedule day (fractional)
+  observed: number; // pg/mL
+  predicted: number; // pg/mL
+}
+
+export interface PKFitResult {
+  scales: PKScaleFactors;
+  personalisedMedications: EstradiolMedication[];
+  residuals: FitResidual[];
+  rmse: number; // pg/mL
+  meanAbsolutePercentError: number;
+  rSquared: number | null; // null for fewer than two results
+  iterations: number;
+  converged: boolean;
+}
+
+export interface PKFitInput {
+  doses: Dose[];
+  scheduleLength: number;
+  repeat: boolean;
+  steadyState: boolean;
+  results: LabResult[]; // Results for other hormones are ignored
+}
+
+export const PERSONALISED_SUFFIX = ' (personalised)';
+
+const FIT_CONSTANTS = {
+  /** Weight of the prior on log scale factors relative to the data term */
+  PRIOR_WEIGHT: 0.05,
+  /** Scale factors are limited to [1/MAX_SCALE, MAX_SCALE] */
+  MAX_SCALE: 4,
+  MAX_ITERATIONS: 400,
+  TOLERANCE: 1e-8,
+  /** Floor for concentrations inside the log so zero predictions stay finite */
+  MIN_CONCENTRATION: 1,
+} as const;
+
+const PARAMETER_KEYS: (keyof PKScaleFactors)[] = ['D', 'k1', 'k2', 'k3'];
+
+/**
+ * Name of the personalised variant of a medication
+ */
+export function getPersonalisedName(name: string): string {
+  return name.endsWith(PERSONALISED_SUFFIX) ? name : `${name}${PERSONALISED_SUFFIX}`;
+}
+
+/**
+ * Apply scale factors to an ester, producing its personalised variant
+ */
+export function applyScaleFactors(ester: EstradiolMedication, scales: PKScaleFactors): EstradiolMedication {
+  return {
+    ...ester,
+    name: getPersonalisedName(ester.name),
+    D: ester.D * scales.D,
+    k1: ester.k1 * scales.k1,
+    k2: ester.k2 * scales.k2,
+    k3: ester.k3 * scales.k3
+  };
+}
+
+function scalesFromLog(logScales: number[]): PKScaleFactors {
+  const limit = Math.log(FIT_CONSTANTS.MAX_SCALE);
+  const scales = PARAMETER_KEYS.map((_, i) => Math.exp(Math.max(-limit, Math.min(limit, logScales[i] ?? 0))));
+  return { D: scales[0]!, k1: scales[1]!, k2: scales[2]!, k3: scales[3]! };
+}
+
+/**
+ * Predict estradiol levels at each result with the esters in the schedule rescaled
+ */
+function predictResults(input: PKFitInput, scales: PKScaleFactors): number[] {
+  const times = input.results.map(r => r.day);
+  const horizon = Math.max(...times, input.scheduleLength);
+
+  const scaledDoses = input.doses.map(dose =>
+    isEstradiolMedication(dose.medication)
+      ? { ...dose, medication: applyScaleFactors(dose.medication, scales) }
+      : dose
+  );
+  const expanded = expandRepeatedDoses(scaledDoses, input.scheduleLength, horizon, input.repeat, input.steadyState);
+
+  return calculateTotalConcentration(expanded, times).map(point => point.estradiolConcentration);
+}
+
+function objective(input: PKFitInput, observed: number[], logScales: number[]): number {
+  const predicted = predictResults(input, scalesFromLog(logScales));
+
+  let dataTerm = 0;
+  for (let i = 0; i < observed.length; i++) {
+    const p = predicted[i]!;
+    if (!isFinite(p)) return Infinity;
+    const ratio = Math.log(Math.max(p, FIT_CONSTANTS.MIN_CONCENTRATION) / Math.max(observed[i]!, FIT_CONSTANTS.MIN_CONCENTRATION));
+    dataTerm += ratio * ratio;
+  }
+
+  const prior = logScales.reduce((sum, s) => sum + s * s, 0);
+  return dataTerm / observed.length + FIT_CONSTANTS.PRIOR_WEIGHT * prior;
+}
+
+/**
+ * Nelder-Mead simplex minimisation
+ */
+function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  step: number,
+  maxIterations: number,
+  tolerance: number
+): { x: number[]; iterations: number; converged: boolean } {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step : v)))]
+    .map(x => ({ x, fx: f(x) }));
+
+  const combine = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i]! - v));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.fx - b.fx);
+    const best = simplex[0]!;
+    const worst = simplex[n]!;
+
+    if (Math.abs(worst.fx - best.fx) < tolerance) {
+      return { x: best.x, iterations: iteration, converged: true };
+    }
+
+    const centroid = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        centroid[j] = centroid[j]! + simplex[i]!.x[j]! / n;
+      }
+    }
+
+    const reflected = combine(centroid, worst.x, -1);
+    const fReflected = f(reflected);
+
+    if (fReflected < best.fx) {
+      const expanded = combine(centroid, worst.x, -2);
+      const fExpanded = f(expanded);
+      simplex[n] = fExpanded < fReflected ? { x: expanded, fx: fExpanded } : { x: reflected, fx: fReflected };
+    } else if (fReflected < simplex[n - 1]!.fx) {
+      simplex[n] = { x: reflected, fx: fReflected };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const fContracted = f(contracted);
+      if (fContracted < worst.fx) {
+        simplex[n] = { x: contracted, fx: fContracted };
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = combine(best.x, p.x, 0.5);
+          return { x, fx: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.fx - b.fx);
+  return { x: simplex[0]!.x, iterations: maxIterations, converged: false };
+}
+
+/**
+ * Fit personal scale factors for the esters used in a schedule
+ *
+ * @returns The fit, or null if there are no usable estradiol results or no injectable esters in the schedule
+ */
+export function fitPersonalParameters(input: PKFitInput): PKFitResult | null {
+  const results = input.results.filter(r =>
+    r.hormone === 'estradiol' && r.day >= 0 && toModelUnits(r.value, r.hormone, r.unit) > 0
+  );
+  const esters = input.doses
+    .map(d => d.medication)
+    .filter(isEstradiolMedication)
+    .filter((ester, index, all) => all.findIndex(e => e.name === ester.name) === index);
+
+  if (results.length === 0 || esters.length === 0) return null;
+
+  const fitInput = { ...input, results };
+  const observed = results.map(r => toModelUnits(r.value, r.hormone, r.unit));
+
+  const { x, iterations, converged } = nelderMead(
+    logScales => objective(fitInput, observed, logScales),
+    PARAMETER_KEYS.map(() => 0),
+    0.3,
+    FIT_CONSTANTS.MAX_ITERATIONS,
+    FIT_CONSTANTS.TOLERANCE
+  );
+
+  const scales = scalesFromLog(x);
+  const predicted = predictResults(fitInput, scales);
+  const residuals = results.map((result, i) => ({
+    resultId: result.id,
+    time: result.day,
+    observed: observed[i]!,
+    predicted: predicted[i]!
+  }));
+
+  const squaredErrors = residuals.map(r => (r.predicted - r.observed) ** 2);
+  const rmse = Math.sqrt(squaredErrors.reduce((a, b) => a + b, 0) / residuals.length);
+  const meanAbsolutePercentError =
+    residuals.reduce((sum, r) => sum + Math.abs(r.predicted - r.observed) / r.observed, 0) / residuals.length * 100;
+
+  let rSquared: number | null = null;
+  if (residuals.length >= 2) {
+    const mean = observed.reduce((a, b) => a + b, 0) / observed.length;
+    const totalVariance = observed.reduce((sum, o) => sum + (o - mean) ** 2, 0);
+    rSquared = totalVariance > 0 ? 1 - squaredErrors.reduce((a, b) => a + b, 0) / totalVariance : null;
+  }
+
+  return {
+    scales,
+    personalisedMedications: esters.map(ester => applyScaleFactors(ester, scales)),
+    residuals,
+    rmse,
+    meanAbsolutePercentError,
+    rSquared,
+    iterations,
+    converged
+  };
+}
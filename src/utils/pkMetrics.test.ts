@@ -0,0 +1,105 @@
+import { calculateHormoneMetrics, calculateRangeMetrics, calculateCycleMetrics } from './pkMetrics';
+import { ConcentrationPoint } from './pharmacokinetics';
+
+const point = (time: number, estradiol: number, progesterone = 0): ConcentrationPoint => ({
+  time,
+  estradiolConcentration: estradiol,
+  progesteroneConcentration: progesterone
+});
+
+describe('calculateHormoneMetrics', () => {
+  it('should report peak, trough, average and AUC', () => {
+    const metrics = calculateHormoneMetrics([
+      { time: 0, value: 100 },
+      { time: 1, value: 300 },
+      { time: 2, value: 100 }
+    ])!;
+
+    expect(metrics.peak).toBe(300);
+    expect(metrics.trough).toBe(100);
+    expect(metrics.timeToPeak).toBe(1);
+    expect(metrics.auc).toBe(400);
+    expect(metrics.average).toBe(200);
+    expect(metrics.peakTroughRatio).toBe(3);
+    expect(metrics.fluctuationPercent).toBe(100);
+  });
+
+  it('should leave the peak/trough ratio undefined when the trough is zero', () => {
+    const metrics = calculateHormoneMetrics([
+      { time: 0, value: 0 },
+      { time: 1, value: 50 }
+    ])!;
+    expect(metrics.peakTroughRatio).toBeNull();
+  });
+
+  it('should return null without samples', () => {
+    expect(calculateHormoneMetrics([])).toBeNull();
+  });
+});
+
+describe('calculateRangeMetrics', () => {
+  it('should split time below, within and above the range', () => {
+    const range = calculateRangeMetrics([
+      { time: 0, value: 10 },
+      { time: 1, value: 10 },
+      { time: 2, value: 100 },
+      { time: 3, value: 100 },
+      { time: 4, value: 500 },
+      { time: 5, value: 500 }
+    ], 50, 200);
+
+    // Steps are classified by their midpoint: 10, 55, 100, 300, 500
+    expect(range.daysBelow).toBe(1);
+    expect(range.daysWithin).toBe(2);
+    expect(range.daysAbove).toBe(2);
+    expect(range.percentWithin).toBeCloseTo(40);
+  });
+});
+
+describe('calculateCycleMetrics', () => {
+  const data = Array.from({ length: 61 }, (_, i) => point(i * 0.5, i <= 20 ? 100 : 200));
+
+  it('should summarise each full cycle in view', () => {
+    const cycles = calculateCycleMetrics(data, 10, 30);
+    expect(cycles.map(c => [c.startDay, c.endDay])).toEqual([[0, 10], [10, 20], [20, 30]]);
+    expect(cycles[0]!.estradiol.peak).toBe(100);
+    expect(cycles[2]!.estradiol.trough).toBe(200);
+    expect(cycles[0]!.progesterone).toBeNull();
+    expect(cycles[0]!.estradiolRange).toBeNull();
+  });
+
+  it('should drop a trailing partial cycle', () => {
+    expect(calculateCycleMetrics(data, 12, 30)).toHaveLength(2);
+  });
+
+  it('should use the reference cycle min-max as the target range', () => {
+    const reference = [
+      { day: 0, estradiol: 50, progesterone: 1 },
+      { day: 14, estradiol: 150, progesterone: 10 }
+    ];
+    const cycles = calculateCycleMetrics(data, 10, 30, reference);
+    expect(cycles[0]!.estradiolRange!.percentWithin).toBe(100);
+    expect(cycles[2]!.estradiolRange!.daysAbove).toBe(10);
+    expect(cycles[0]!.progesteroneRange).toBeNull();
+  });
+
+  it('should measure time in range against a daily band when given', () => {
+    const band = Array.from({ length: 31 }, (_, day) => ({
+      day,
+      estradiol: 150,
+      estradiolRange: (day < 5 ? [50, 150] : [150, 250]) as [number, number]
+    }));
+    const cycles = calculateCycleMetrics(data, 10, 30, [{ day: 0, estradiol: 0 }, { day: 1, estradiol: 1000 }], band);
+
+    expect(cycles[0]!.estradiolRange!.daysWithin).toBeCloseTo(4.5);
+    expect(cycles[0]!.estradiolRange!.min).toBe(50);
+    expect(cycles[2]!.estradiolRange!.percentWithin).toBe(100);
+    expect(cycles[0]!.progesteroneRange).toBeNull();
+  });
+
+  it('should include progesterone when present', () => {
+    const withProgesterone = data.map(p => ({ ...p, progesteroneConcentration: 5 }));
+    const cycles = calculateCycleMetrics(withProgesterone, 10, 30);
+    expect(cycles[0]!.progesterone!.average).toBe(5);
+  });
+});
@@ -0,0 +1,195 @@
+import { ConcentrationPoint } from './pharmacokinetics';
+import { ReferencePoint, ReferenceRangePoint } from '../data/referenceData';
+
+/**
+ * Summary pharmacokinetic metrics over concentration curves
+ */
+
+export interface HormoneMetrics {
+  peak: number; // Cmax
+  trough: number; // Cmin
+  timeToPeak: number; // Days from the start of the window (Tmax)
+  average: number; // Cavg = AUC / duration
+  auc: number; // Concentration × days, trapezoidal
+  peakTroughRatio: number | null; // null when the trough is zero
+  fluctuationPercent: number; // (Cmax - Cmin) / Cavg × 100
+}
+
+export interface RangeMetrics {
+  min: number;
+  max: number;
+  daysBelow: number;
+  daysWithin: number;
+  daysAbove: number;
+  percentWithin: number;
+}
+
+export interface CycleMetrics {
+  cycle: number; // 0-based index of the window
+  startDay: number;
+  endDay: number;
+  estradiol: HormoneMetrics;
+  progesterone: HormoneMetrics | null; // null when no progesterone is present
+  estradiolRange: RangeMetrics | null;
+  progesteroneRange: RangeMetrics | null;
+}
+
+interface Sample {
+  time: number;
+  value: number;
+}
+
+/**
+ * Calculate peak/trough/average metrics for samples ordered by time
+ */
+export function calculateHormoneMetrics(samples: Sample[]): HormoneMetrics | null {
+  if (samples.length === 0) return null;
+
+  let peak = -Infinity;
+  let trough = Infinity;
+  let timeToPeak = 0;
+  let auc = 0;
+  const start = samples[0]!.time;
+
+  samples.forEach((sample, i) => {
+    if (sample.value > peak) {
+      peak = sample.value;
+      timeToPeak = sample.time - start;
+    }
+    trough = Math.min(trough, sample.value);
+    if (i > 0) {
+      const previous = samples[i - 1]!;
+      auc += (sample.time - previous.time) * (sample.value + previous.value) / 2;
+    }
+  });
+
+  const duration = samples[samples.length - 1]!.time - start;
+  const average = duration > 0 ? auc / duration : peak;
+
+  return {
+    peak,
+    trough,
+    timeToPeak,
+    average,
+    auc,
+    peakTroughRatio: trough > 0 ? peak / trough : null,
+    fluctuationPercent: average > 0 ? (peak - trough) / average * 100 : 0
+  };
+}
+
+/**
+ * Time spent below, within and above a band that may change over time, weighting each sample
+ * by its time step. `min` and `max` report the lowest and highest bounds the band reaches.
+ */
+export function calculateBandMetrics(samples: Sample[], boundsAt: (time: number) => [number, number]): RangeMetrics {
+  let daysBelow = 0;
+  let daysWithin = 0;
+  let daysAbove = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 1; i < samples.length; i++) {
+    const step = samples[i]!.time - samples[i - 1]!.time;
+    const value = (samples[i]!.value + samples[i - 1]!.value) / 2;
+    const [low, high] = boundsAt((samples[i]!.time + samples[i - 1]!.time) / 2);
+    min = Math.min(min, low);
+    max = Math.max(max, high);
+    if (value < low) daysBelow += step;
+    else if (value > high) daysAbove += step;
+    else daysWithin += step;
+  }
+
+  const total = daysBelow + daysWithin + daysAbove;
+  return {
+    min,
+    max,
+    daysBelow,
+    daysWithin,
+    daysAbove,
+    percentWithin: total > 0 ? daysWithin / total * 100 : 0
+  };
+}
+
+/**
+ * Time spent below, within and above [min, max]
+ */
+export function calculateRangeMetrics(samples: Sample[], min: number, max: number): RangeMetrics {
+  return { ...calculateBandMetrics(samples, () => [min, max]), min, max };
+}
+
+function referenceRange(reference: ReferencePoint[], key: 'estradiol' | 'progesterone'): [number, number] | null {
+  const values = reference.map(p => p[key]).filter((v): v is number => typeof v === 'number');
+  if (values.length === 0) return null;
+  return [Math.min(...values), Math.max(...values)];
+}
+
+type Bounds = (time: number) => [number, number];
+
+const constantBounds = (range: [number, number] | null): Bounds | null => (range ? () => range : null);
+
+/**
+ * Bounds of a daily band (one point per day from day 0), interpolated between days
+ */
+function bandBounds(band: ReferenceRangePoint[], key: 'estradiolRange' | 'progesteroneRange'): Bounds | null {
+  if (band.length === 0 || !band.every(p => p[key])) return null;
+
+  return (time) => {
+    const index = Math.min(Math.max(Math.floor(time), 0), band.length - 1);
+    const [lowA, highA] = band[index]![key]!;
+    const [lowB, highB] = (band[index + 1] ?? band[index]!)[key]!;
+    const fraction = Math.min(Math.max(time - index, 0), 1);
+    return [lowA + (lowB - lowA) * fraction, highA + (highB - highA) * fraction];
+  };
+}
+
+/**
+ * Split concentration data into schedule-length windows and summarise each.
+ * A trailing partial window is dropped unless it is the only one.
+ *
+ * @param reference - Reference cycle points; their min-max sets the target range
+ * @param band - Daily target band (percentile range or steady level); replaces the reference min-max when given
+ */
+export function calculateCycleMetrics(
+  data: ConcentrationPoint[],
+  cycleLength: number,
+  viewDays: number,
+  reference: ReferencePoint[] = [],
+  band?: ReferenceRangePoint[]
+): CycleMetrics[] {
+  const visible = data.filter(p => p.time >= 0 && p.time <= viewDays);
+  if (visible.length < 2 || cycleLength <= 0) return [];
+
+  const cycleCount = Math.max(1, Math.floor(viewDays / cycleLength));
+  const estradiolBounds = band
+    ? bandBounds(band, 'estradiolRange')
+    : constantBounds(referenceRange(reference, 'estradiol'));
+  const progesteroneBounds = band
+    ? bandBounds(band, 'progesteroneRange')
+    : constantBounds(referenceRange(reference, 'progesterone'));
+
+  const metrics: CycleMetrics[] = [];
+  for (let cycle = 0; cycle < cycleCount; cycle++) {
+    const startDay = cycle * cycleLength;
+    const endDay = cycleCount === 1 ? Math.min(viewDays, startDay + cycleLength) : startDay + cycleLength;
+    const window = visible.filter(p => p.time >= startDay && p.time <= endDay);
+    if (window.length < 2) continue;
+
+    const estradiolSamples = window.map(p => ({ time: p.time, value: p.estradiolConcentration }));
+    const progesteroneSamples = window.map(p => ({ time: p.time, value: p.progesteroneConcentration }));
+    const hasProgesterone = progesteroneSamples.some(s => s.value > 0);
+
+    metrics.push({
+      cycle,
+      startDay,
+      endDay,
+      estradiol: calculateHormoneMetrics(estradiolSamples)!,
+      progesterone: hasProgesterone ? calculateHormoneMetrics(progesteroneSamples) : null,
+      estradiolRange: estradiolBounds ? calculateBandMetrics(estradiolSamples, estradiolBounds) : null,
+      progesteroneRange: hasProgesterone && progesteroneBounds
+        ? calculateBandMetrics(progesteroneSamples, progesteroneBounds)
+        : null
+    });
+  }
+
+  return metrics;
+}
@@ -0,0 +1,83 @@
+import {
+  COMPARISON_PALETTE,
+  calculateScheduleConcentrations,
+  createPinnedSchedule,
+  getNextComparisonColor,
+  isSameSchedule,
+  summariseSchedule,
+  weeklyInjectedDose,
+  ScheduleSettings
+} from './scheduleComparison';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const EC = ESTRADIOL_ESTERS.find(e => e.name === 'Estradiol cypionate')!;
+
+const evEvery5: ScheduleSettings = {
+  doses: [{ day: 0, dose: 4, medication: EV }],
+  scheduleLength: 5,
+  repeat: true,
+  steadyState: true
+};
+const ecWeekly: ScheduleSettings = {
+  doses: [{ day: 0, dose: 5, medication: EC }],
+  scheduleLength: 7,
+  repeat: true,
+  steadyState: true
+};
+
+describe('pinned schedules', () => {
+  it('should give each new pin an unused colour', () => {
+    const first = createPinnedSchedule('EV every 5 days', evEvery5, []);
+    const second = createPinnedSchedule('EC weekly', ecWeekly, [first]);
+
+    expect(first.color).toBe(COMPARISON_PALETTE[0]);
+    expect(second.color).toBe(COMPARISON_PALETTE[1]);
+    expect(getNextComparisonColor([{ ...first, color: COMPARISON_PALETTE[1]! }])).toBe(COMPARISON_PALETTE[0]);
+  });
+
+  it('should copy doses so later edits to the active schedule do not leak in', () => {
+    const pinned = createPinnedSchedule('EV', evEvery5, []);
+
+    expect(pinned.doses).toEqual(evEvery5.doses);
+    expect(pinned.doses[0]).not.toBe(evEvery5.doses[0]);
+    expect(pinned.visible).toBe(true);
+  });
+
+  it('should compare schedules regardless of dose order', () => {
+    const a = { ...evEvery5, doses: [{ day: 0, dose: 4, medication: EV }, { day: 2, dose: 1, medication: EC }] };
+    const b = { ...evEvery5, doses: [{ day: 2, dose: 1, medication: EC }, { day: 0, dose: 4, medication: EV }] };
+
+    expect(isSameSchedule(a, b)).toBe(true);
+    expect(isSameSchedule(a, { ...b, steadyState: false })).toBe(false);
+    expect(isSameSchedule(evEvery5, ecWeekly)).toBe(false);
+  });
+});
+
+describe('schedule summaries', () => {
+  it('should compute curves over the whole window', () => {
+    const points = calculateScheduleConcentrations(ecWeekly, 28);
+
+    expect(points[0]!.time).toBe(0);
+    expect(points[points.length - 1]!.time).toBe(28);
+    expect(points[0]!.estradiolConcentration).toBeGreaterThan(0); // steady state
+  });
+
+  it('should summarise the last cycle', () => {
+    const summary = summariseSchedule(calculateScheduleConcentrations(ecWeekly, 28), 7, 28)!;
+
+    expect(summary.cycle).toBe(3);
+    expect(summary.estradiol.peak).toBeGreaterThan(summary.estradiol.trough);
+  });
+
+  it('should count only injected estradiol towards the weekly dose', () => {
+    const withProgesterone = {
+      ...evEvery5,
+      doses: [...evEvery5.doses, { day: 1, dose: 100, medication: PROGESTERONE_ROUTES[0]! }]
+    };
+
+    expect(weeklyInjectedDose(withProgesterone)).toBeCloseTo(5.6);
+    expect(weeklyInjectedDose(ecWeekly)).toBe(5);
+  });
+});
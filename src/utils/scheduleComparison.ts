@@ -0,0 +1,95 @@
+import { Dose } from '../data/estradiolEsters';
+import { isEstradiolMedication } from '../types/medication';
+import { PHARMACOKINETICS } from '../constants/pharmacokinetics';
+import { calculateTotalConcentration, expandRepeatedDoses, generateTimePoints, ConcentrationPoint } from './pharmacokinetics';
+import { calculateCycleMetrics, CycleMetrics } from './pkMetrics';
+
+/**
+ * Pinned schedules shown alongside the active one for comparison
+ */
+
+export interface ScheduleSettings {
+  doses: Dose[];
+  scheduleLength: number;
+  repeat: boolean;
+  steadyState: boolean;
+}
+
+export interface PinnedSchedule extends ScheduleSettings {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean; // Whether the curve is drawn on the graph
+}
+
+export interface ComparisonSeries {
+  id: string;
+  name: string;
+  color: string;
+  points: ConcentrationPoint[];
+}
+
+export const COMPARISON_PALETTE = ['#e76f51', '#2a9d8f', '#e9c46a', '#264653', '#f4a261', '#8ab17d'];
+
+/**
+ * First palette colour not already used by a pinned schedule, cycling once all are taken
+ */
+export function getNextComparisonColor(pinned: PinnedSchedule[]): string {
+  const used = new Set(pinned.map(p => p.color));
+  return COMPARISON_PALETTE.find(color => !used.has(color)) ?? COMPARISON_PALETTE[pinned.length % COMPARISON_PALETTE.length]!;
+}
+
+export function createPinnedSchedule(name: string, settings: ScheduleSettings, existing: PinnedSchedule[]): PinnedSchedule {
+  return {
+    id: `${Date.now().toString(36)}-${existing.length}`,
+    name,
+    color: getNextComparisonColor(existing),
+    visible: true,
+    doses: settings.doses.map(d => ({ ...d })),
+    scheduleLength: settings.scheduleLength,
+    repeat: settings.repeat,
+    steadyState: settings.steadyState
+  };
+}
+
+/**
+ * Whether two schedules would produce the same curve, ignoring dose order
+ */
+export function isSameSchedule(a: ScheduleSettings, b: ScheduleSettings): boolean {
+  const key = (s: ScheduleSettings) => s.doses
+    .map(d => `${d.day}:${d.medication.name}:${d.dose}`)
+    .sort()
+    .join('|');
+  return a.scheduleLength === b.scheduleLength &&
+    a.repeat === b.repeat &&
+    a.steadyState === b.steadyState &&
+    key(a) === key(b);
+}
+
+/**
+ * Concentration curve of a schedule over the graph window, computed the same way as the active schedule
+ */
+export function calculateScheduleConcentrations(settings: ScheduleSettings, displayDays: number): ConcentrationPoint[] {
+  const doses = expandRepeatedDoses(settings.doses, settings.scheduleLength, displayDays, settings.repeat, settings.steadyState);
+  const timePoints = generateTimePoints(displayDays, PHARMACOKINETICS.TIME_POINT_STEP);
+  return calculateTotalConcentration(doses, timePoints).filter(p => p.time >= 0);
+}
+
+/**
+ * Metrics for the last full cycle in the window, which is closest to steady state
+ */
+export function summariseSchedule(points: ConcentrationPoint[], scheduleLength: number, displayDays: number): CycleMetrics | null {
+  const cycles = calculateCycleMetrics(points, scheduleLength, displayDays);
+  return cycles[cycles.length - 1] ?? null;
+}
+
+/**
+ * Average injected estradiol ester per week in mg
+ */
+export function weeklyInjectedDose(settings: ScheduleSettings): number {
+  if (settings.scheduleLength <= 0) return 0;
+  const total = settings.doses
+    .filter(d => isEstradiolMedication(d.medication))
+    .reduce((sum, d) => sum + d.dose, 0);
+  return (total / settings.scheduleLength) * 7;
+}
@@ -0,0 +1,74 @@
+import { diffSchedules, getScheduleEditKey, isSameSnapshot, ScheduleSnapshot } from './scheduleDiff';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const EC = ESTRADIOL_ESTERS[2]!;
+
+const base: ScheduleSnapshot = {
+  doses: [{ day: 0, dose: 4, medication: EV }, { day: 7, dose: 4, medication: EV }],
+  scheduleLength: 14,
+  repeat: true,
+  steadyState: false,
+  cycleType: 'typical'
+};
+
+describe('diffSchedules', () => {
+  it('should report nothing for identical schedules in a different order', () => {
+    expect(diffSchedules(base, { ...base, doses: [...base.doses].reverse() })).toEqual([]);
+    expect(isSameSnapshot(base, { ...base, doses: base.doses.map(d => ({ ...d })) })).toBe(true);
+  });
+
+  it('should describe setting changes', () => {
+    const changes = diffSchedules(base, { ...base, scheduleLength: 10, repeat: false, steadyState: true, cycleType: 'hrt-target' });
+
+    expect(changes.map(c => c.kind)).toEqual(['setting', 'setting', 'setting', 'setting']);
+    expect(changes[0]!.description).toBe('Schedule length 14 → 10 days');
+    expect(changes[1]!.description).toBe('Repeat on → off');
+  });
+
+  it('should describe added, removed and changed doses in day order', () => {
+    const after: ScheduleSnapshot = {
+      ...base,
+      doses: [{ day: 0, dose: 5, medication: EV }, { day: 3, dose: 2, medication: EC }]
+    };
+
+    expect(diffSchedules(base, after)).toEqual([
+      { kind: 'changed', description: `Day 0: 5 mg ${EV.name} (was 4)` },
+      { kind: 'added', description: `Day 3: 2 mg ${EC.name}` },
+      { kind: 'removed', description: `Day 7: 4 mg ${EV.name}` }
+    ]);
+  });
+
+  it('should pair repeated doses on the same day one to one', () => {
+    const twice = { ...base, doses: [...base.doses, { day: 0, dose: 4, medication: EV }] };
+
+    expect(diffSchedules(base, twice)).toEqual([{ kind: 'added', description: `Day 0: 4 mg ${EV.name}` }]);
+  });
+});
+
+describe('getScheduleEditKey', () => {
+  const withDose = (index: number, dose: number) => ({
+    ...base,
+    doses: base.doses.map((d, i) => (i === index ? { ...d, dose } : d))
+  });
+
+  it('should key amount edits by the dose they change', () => {
+    expect(getScheduleEditKey(base, withDose(1, 5))).toBe('dose:1');
+    expect(getScheduleEditKey(withDose(1, 5), withDose(1, 6))).toBe('dose:1');
+    expect(getScheduleEditKey(base, withDose(0, 5))).toBe('dose:0');
+  });
+
+  it('should give a length change and the doses it trims the same key', () => {
+    const shorter = { ...base, scheduleLength: 7 };
+
+    expect(getScheduleEditKey(base, shorter)).toBe('scheduleLength');
+    expect(getScheduleEditKey(shorter, { ...shorter, doses: [base.doses[0]!] })).toBe('scheduleLength');
+  });
+
+  it('should not key additions, removals, moves or settings', () => {
+    expect(getScheduleEditKey(base, { ...base, doses: [...base.doses, { day: 3, dose: 4, medication: EV }] })).toBeNull();
+    expect(getScheduleEditKey(base, { ...base, doses: [base.doses[0]!] })).toBeNull();
+    expect(getScheduleEditKey(base, { ...base, doses: [base.doses[0]!, { ...base.doses[1]!, day: 8 }] })).toBeNull();
+    expect(getScheduleEditKey(base, { ...base, repeat: false })).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { Dose } from '../data/estradiolEsters';
+import { findReferenceCycle, ReferenceCycleInfo, ReferenceCycleType } from '../data/referenceData';
+import { getDoseUnit } from '../types/medication';
+import { formatNumber } from './formatters';
+
+/**
+ * Differences between two versions of the schedule, for undo/redo history
+ */
+
+export interface ScheduleSnapshot {
+  doses: Dose[];
+  scheduleLength: number;
+  repeat: boolean;
+  steadyState: boolean;
+  cycleType: ReferenceCycleType;
+}
+
+export type ScheduleChangeKind = 'added' | 'removed' | 'changed' | 'setting';
+
+export interface ScheduleChange {
+  kind: ScheduleChangeKind;
+  description: string;
+}
+
+const doseKey = (dose: Dose) => `${dose.day}:${dose.time ?? ''}:${dose.medication.name}`;
+
+const describeDose = (dose: Dose) =>
+  `Day ${dose.day}: ${formatNumber(dose.dose)} ${getDoseUnit(dose.medication)} ${dose.medication.name}`;
+
+const onOff = (value: boolean) => (value ? 'on' : 'off');
+
+const cycleName = (type: ReferenceCycleType, customCycles: ReferenceCycleInfo[]) =>
+  findReferenceCycle(type, customCycles)?.name ?? type;
+
+/**
+ * List what changed from `before` to `after`. Doses are matched by day, time and
+ * medication, so changing a dose's amount is one change while moving it is a removal plus an addition.
+ */
+export function diffSchedules(
+  before: ScheduleSnapshot,
+  after: ScheduleSnapshot,
+  customCycles: ReferenceCycleInfo[] = []
+): ScheduleChange[] {
+  const changes: ScheduleChange[] = [];
+
+  if (before.scheduleLength !== after.scheduleLength) {
+    changes.push({ kind: 'setting', description: `Schedule length ${before.scheduleLength} → ${after.scheduleLength} days` });
+  }
+  if (before.repeat !== after.repeat) {
+    changes.push({ kind: 'setting', description: `Repeat ${onOff(before.repeat)} → ${onOff(after.repeat)}` });
+  }
+  if (before.steadyState !== after.steadyState) {
+    changes.push({ kind: 'setting', description: `Steady state ${onOff(before.steadyState)} → ${onOff(after.steadyState)}` });
+  }
+  if (before.cycleType !== after.cycleType) {
+    changes.push({
+      kind: 'setting',
+      description: `Reference ${cycleName(before.cycleType, customCycles)} → ${cycleName(after.cycleType, customCycles)}`
+    });
+  }
+
+  // Pair up doses with the same key in order; leftovers are additions or removals
+  const remaining = new Map<string, Dose[]>();
+  before.doses.forEach(dose => {
+    remaining.set(doseKey(dose), [...(remaining.get(doseKey(dose)) ?? []), dose]);
+  });
+
+  const doseChanges: { day: number; change: ScheduleChange }[] = [];
+  after.doses.forEach(dose => {
+    const candidates = remaining.get(doseKey(dose));
+    const previous = candidates?.shift();
+    if (!previous) {
+      doseChanges.push({ day: dose.day, change: { kind: 'added', description: describeDose(dose) } });
+    } else if (previous.dose !== dose.dose) {
+      doseChanges.push({
+        day: dose.day,
+        change: {
+          kind: 'changed',
+          description: `${describeDose(dose)} (was ${formatNumber(previous.dose)})`
+        }
+      });
+    }
+  });
+  remaining.forEach(doses => doses.forEach(dose => {
+    doseChanges.push({ day: dose.day, change: { kind: 'removed', description: describeDose(dose) } });
+  }));
+
+  doseChanges.sort((a, b) => a.day - b.day).forEach(({ change }) => changes.push(change));
+  return changes;
+}
+
+export function isSameSnapshot(a: ScheduleSnapshot, b: ScheduleSnapshot): boolean {
+  return a === b || diffSchedules(a, b).length === 0;
+}
+
+const isSameDose = (a: Dose | undefined, b: Dose | undefined) =>
+  !!a && !!b && doseKey(a) === doseKey(b) && a.dose === b.dose;
+
+/**
+ * What a single edit touched, so undo history can merge continuous edits of the same thing:
+ * typing a dose amount, or a length change and the doses past the new end that it trims.
+ * Returns null for any other change, which always gets its own undo step.
+ */
+export function getScheduleEditKey(before: ScheduleSnapshot, after: ScheduleSnapshot): string | null {
+  if (before.repeat !== after.repeat || before.steadyState !== after.steadyState || before.cycleType !== after.cycleType) {
+    return null;
+  }
+
+  if (before.scheduleLength !== after.scheduleLength) {
+    return diffSchedules({ ...before, scheduleLength: after.scheduleLength }, after).length === 0 ? 'scheduleLength' : null;
+  }
+
+  const kept = before.doses.filter(d => d.day < after.scheduleLength);
+  if (kept.length < before.doses.length) {
+    return diffSchedules({ ...before, doses: kept }, after).length === 0 ? 'scheduleLength' : null;
+  }
+
+  if (before.doses.length !== after.doses.length) return null;
+  const changed = after.doses.flatMap((dose, i) => (isSameDose(dose, before.doses[i]) ? [] : [i]));
+  const index = changed[0];
+  if (changed.length !== 1 || index === undefined || doseKey(after.doses[index]!) !== doseKey(before.doses[index]!)) {
+    return null;
+  }
+  return `dose:${index}`;
+}
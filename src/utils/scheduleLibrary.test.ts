@@ -0,0 +1,123 @@
+import {
+  SCHEDULE_LIBRARY_VERSION,
+  createSavedSchedule,
+  duplicateSavedSchedule,
+  getLibraryTags,
+  mergeScheduleLibraries,
+  parseScheduleLibrary,
+  serializeScheduleLibrary,
+  updateSavedSchedule
+} from './scheduleLibrary';
+import { ScheduleData } from './urlEncoding';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { MedicationType } from '../types/medication';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const NOW = new Date('2025-03-03T12:00:00Z');
+const LATER = new Date('2025-03-04T12:00:00Z');
+
+const schedule: ScheduleData = {
+  doses: [{ day: 0, dose: 4, medication: EV }, { day: 5, dose: 4, medication: EV }],
+  scheduleLength: 10,
+  graphDays: 60,
+  repeat: true,
+  steadyState: true,
+  cycleType: 'typical'
+};
+
+describe('library entries', () => {
+  it('should create entries with normalised tags', () => {
+    const entry = createSavedSchedule('  EV every 5 days ', schedule, ['Injection', 'injection ', ''], NOW);
+
+    expect(entry.name).toBe('EV every 5 days');
+    expect(entry.tags).toEqual(['injection']);
+    expect(entry.createdAt).toBe(NOW.toISOString());
+    expect(entry.schedule.doses[0]).not.toBe(schedule.doses[0]);
+  });
+
+  it('should duplicate with a new id and name', () => {
+    const entry = createSavedSchedule('EV', schedule, ['a'], NOW);
+    const copy = duplicateSavedSchedule(entry, LATER);
+
+    expect(copy.id).not.toBe(entry.id);
+    expect(copy.name).toBe('EV (copy)');
+    expect(copy.tags).toEqual(['a']);
+  });
+
+  it('should rename and retag one entry', () => {
+    const library = [createSavedSchedule('A', schedule, [], NOW), createSavedSchedule('B', schedule, ['x'], NOW)];
+    const updated = updateSavedSchedule(library, library[0]!.id, { name: 'Renamed', tags: ['Y', 'x'] }, LATER);
+
+    expect(updated[0]).toMatchObject({ name: 'Renamed', tags: ['y', 'x'], updatedAt: LATER.toISOString() });
+    expect(updated[1]).toBe(library[1]);
+    expect(getLibraryTags(updated)).toEqual(['x', 'y']);
+  });
+});
+
+describe('import and export', () => {
+  it('should round-trip the versioned format', () => {
+    const library = [createSavedSchedule('EV', { ...schedule, startDate: '2025-03-03' }, ['weekly'], NOW)];
+    const json = serializeScheduleLibrary(library, NOW);
+
+    expect(JSON.parse(json).version).toBe(SCHEDULE_LIBRARY_VERSION);
+    expect(parseScheduleLibrary(json)).toEqual({ schedules: library, error: null });
+  });
+
+  it('should migrate bare ScheduleData objects and arrays', () => {
+    const single = parseScheduleLibrary(JSON.stringify(schedule), NOW);
+    expect(single.error).toBeNull();
+    expect(single.schedules[0]!.name).toBe('Imported schedule');
+    expect(single.schedules[0]!.schedule).toEqual(schedule);
+
+    const several = parseScheduleLibrary(JSON.stringify([schedule, { ...schedule, scheduleLength: 7 }]), NOW);
+    expect(several.schedules.map(s => s.schedule.scheduleLength)).toEqual([10, 7]);
+  });
+
+  it('should migrate legacy ester doses and fill in missing settings', () => {
+    const legacy = {
+      doses: [{ day: 0, dose: 5, ester: { name: 'Estradiol valerate', D: 1, k1: 1, k2: 1, k3: 1 } }],
+      scheduleLength: 7
+    };
+    const { schedules } = parseScheduleLibrary(JSON.stringify(legacy), NOW);
+
+    expect(schedules[0]!.schedule).toMatchObject({ graphDays: 7, repeat: false, steadyState: false, cycleType: 'typical' });
+    expect(schedules[0]!.schedule.doses[0]!.medication.type).toBe(MedicationType.ESTRADIOL);
+
+    const missingRates = { ...legacy, doses: [{ day: 0, dose: 5, ester: { name: 'Estradiol old', D: 1 } }] };
+    expect(parseScheduleLibrary(JSON.stringify(missingRates), NOW).schedules).toHaveLength(0);
+  });
+
+  it('should swap built-in medications for the built-in entry and reject invalid ones', () => {
+    const stale = { ...schedule, doses: [{ day: 0, dose: 4, medication: { ...EV, name: 'Estradiol Valerate', k1: 99 } }] };
+    const { schedules } = parseScheduleLibrary(JSON.stringify(stale), NOW);
+    expect(schedules[0]!.schedule.doses[0]!.medication).toBe(EV);
+
+    const custom = { ...EV, name: 'Estradiol custom' };
+    const broken = [
+      { ...schedule, doses: [{ day: 0, dose: 4, medication: custom }] },
+      { ...schedule, doses: [{ day: 0, dose: 4, medication: { ...custom, k1: -1 } }] },
+      { ...schedule, doses: [{ day: 0, dose: 4, medication: { name: 'Oral', type: MedicationType.ORAL_ESTRADIOL } }] }
+    ];
+    const result = parseScheduleLibrary(JSON.stringify(broken), NOW);
+    expect(result.schedules).toHaveLength(1);
+    expect(result.schedules[0]!.schedule.doses[0]!.medication).toEqual(custom);
+  });
+
+  it('should skip invalid entries and report files with nothing usable', () => {
+    const mixed = parseScheduleLibrary(JSON.stringify([schedule, { doses: 'nope' }]), NOW);
+    expect(mixed.schedules).toHaveLength(1);
+
+    expect(parseScheduleLibrary('{').error).toBe('File is not valid JSON');
+    expect(parseScheduleLibrary(JSON.stringify([{ doses: [] }])).error).toBe('None of the schedules in the file could be read');
+    expect(parseScheduleLibrary(JSON.stringify({ version: 99, schedules: [] })).error).toMatch(/Unsupported library version 99/);
+  });
+
+  it('should keep the most recently updated copy when ids collide', () => {
+    const original = createSavedSchedule('EV', schedule, [], NOW);
+    const newer = { ...original, name: 'EV (edited)', updatedAt: LATER.toISOString() };
+    const other = createSavedSchedule('Other', schedule, [], NOW);
+
+    expect(mergeScheduleLibraries([original], [newer, other]).map(s => s.name)).toEqual(['EV (edited)', 'Other']);
+    expect(mergeScheduleLibraries([newer], [original]).map(s => s.name)).toEqual(['EV (edited)']);
+  });
+});
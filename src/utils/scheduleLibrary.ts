@@ -0,0 +1,249 @@
+import { Dose, EstradiolEster, esterToMedication } from '../data/estradiolEsters';
+import { REFERENCE_CYCLES, ReferenceCycleType } from '../data/referenceData';
+import { ScheduleData } from './urlEncoding';
+import { parseISODate } from './dates';
+import { downloadTextFile } from './download';
+import { isCustomReferenceCycleType } from './customReferenceCycles';
+import { resolveImportedMedication } from './customMedications';
+
+/**
+ * Local library of named schedules, stored and exported in a versioned format
+ *
+ * Version history:
+ * - 1: { format, version, exportedAt, schedules: SavedSchedule[] }
+ * - Unversioned: bare ScheduleData objects (or arrays of them), as held in app state
+ *   and produced by decoding share links; these are wrapped into library entries on import
+ */
+
+export const SCHEDULE_LIBRARY_FORMAT = 'estradiol-schedule-library';
+export const SCHEDULE_LIBRARY_VERSION = 1;
+
+export interface SavedSchedule {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  schedule: ScheduleData;
+}
+
+export interface ScheduleLibraryFile {
+  format: typeof SCHEDULE_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  schedules: SavedSchedule[];
+}
+
+export interface ScheduleLibraryParseResult {
+  schedules: SavedSchedule[];
+  error: string | null;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLegacyEster = (value: unknown): value is EstradiolEster =>
+  isRecord(value) && typeof value.name === 'string' &&
+  [value.D, value.k1, value.k2, value.k3].every(n => typeof n === 'number' && isFinite(n));
+
+const knownCycleTypes = REFERENCE_CYCLES.map(c => c.id) as string[];
+
+let idCounter = 0;
+const generateId = () => `${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+/**
+ * Normalise tags: trimmed, lower-case, unique and non-empty
+ */
+export function normaliseTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function createSavedSchedule(name: string, schedule: ScheduleData, tags: string[] = [], now = new Date()): SavedSchedule {
+  const timestamp = now.toISOString();
+  return {
+    id: generateId(),
+    name: name.trim() || 'Untitled schedule',
+    tags: normaliseTags(tags),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    schedule: { ...schedule, doses: schedule.doses.map(d => ({ ...d })) }
+  };
+}
+
+export function duplicateSavedSchedule(original: SavedSchedule, now = new Date()): SavedSchedule {
+  return createSavedSchedule(`${original.name} (copy)`, original.schedule, original.tags, now);
+}
+
+/**
+ * Apply changes to one entry, bumping its update time
+ */
+export function updateSavedSchedule(
+  library: SavedSchedule[],
+  id: string,
+  changes: Partial<Pick<SavedSchedule, 'name' | 'tags' | 'schedule'>>,
+  now = new Date()
+): SavedSchedule[] {
+  return library.map(entry => (entry.id === id
+    ? {
+      ...entry,
+      ...changes,
+      ...(changes.tags ? { tags: normaliseTags(changes.tags) } : {}),
+      updatedAt: now.toISOString()
+    }
+    : entry));
+}
+
+/**
+ * All tags used in the library, sorted
+ */
+export function getLibraryTags(library: SavedSchedule[]): string[] {
+  return Array.from(new Set(library.flatMap(entry => entry.tags))).sort();
+}
+
+function migrateDose(raw: unknown): Dose | null {
+  if (!isRecord(raw) || typeof raw.day !== 'number' || typeof raw.dose !== 'number') return null;
+
+  // Old schedules stored estradiol esters without a medication type
+  let stored: unknown = raw.medication;
+  if (stored === undefined && isLegacyEster(raw.ester)) {
+    stored = esterToMedication(raw.ester);
+  }
+  const medication = resolveImportedMedication(stored);
+  if (!medication) return null;
+
+  return {
+    day: raw.day,
+    dose: raw.dose,
+    medication,
+    ...(typeof raw.time === 'number' ? { time: raw.time } : {})
+  };
+}
+
+/**
+ * Validate a stored dose list, upgrading legacy ester doses and swapping built-in medications
+ * for the current built-in entries. Returns null if any dose is unreadable.
+ */
+export function migrateDoses(raw: unknown): Dose[] | null {
+  if (!Array.isArray(raw)) return null;
+  const doses = raw.map(migrateDose);
+  return doses.some(d => d === null) ? null : doses as Dose[];
+}
+
+function migrateScheduleData(raw: unknown): ScheduleData | null {
+  if (!isRecord(raw) || typeof raw.scheduleLength !== 'number' || raw.scheduleLength < 1) {
+    return null;
+  }
+
+  const doses = migrateDoses(raw.doses);
+  if (!doses) return null;
+
+  return {
+    doses,
+    scheduleLength: raw.scheduleLength,
+    graphDays: typeof raw.graphDays === 'number' && raw.graphDays >= 1 ? raw.graphDays : raw.scheduleLength,
+    repeat: raw.repeat === true,
+    steadyState: raw.steadyState === true,
+    cycleType: typeof raw.cycleType === 'string' &&
+      (knownCycleTypes.includes(raw.cycleType) || isCustomReferenceCycleType(raw.cycleType))
+      ? raw.cycleType as ReferenceCycleType
+      : 'typical',
+    ...(typeof raw.startDate === 'string' && parseISODate(raw.startDate) ? { startDate: raw.startDate } : {})
+  };
+}
+
+function migrateSavedSchedule(raw: unknown, now: Date): SavedSchedule | null {
+  if (!isRecord(raw)) return null;
+
+  // Unversioned entries are bare ScheduleData
+  if (!('schedule' in raw)) {
+    const schedule = migrateScheduleData(raw);
+    return schedule ? createSavedSchedule(typeof raw.name === 'string' ? raw.name : 'Imported schedule', schedule, [], now) : null;
+  }
+
+  const schedule = migrateScheduleData(raw.schedule);
+  if (!schedule || typeof raw.name !== 'string') return null;
+
+  const timestamp = now.toISOString();
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    name: raw.name,
+    tags: Array.isArray(raw.tags) ? normaliseTags(raw.tags.filter((t): t is string => typeof t === 'string')) : [],
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : timestamp,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : timestamp,
+    schedule
+  };
+}
+
+/**
+ * Read a library in any supported version. Individual entries that fail validation
+ * are skipped; the error is set only when nothing usable was found.
+ */
+export function migrateScheduleLibrary(raw: unknown, now = new Date()): ScheduleLibraryParseResult {
+  let entries: unknown[];
+
+  if (isRecord(raw) && 'version' in raw) {
+    if (typeof raw.version !== 'number' || raw.version > SCHEDULE_LIBRARY_VERSION) {
+      return { schedules: [], error: `Unsupported library version ${String(raw.version)}. Please update the app.` };
+    }
+    entries = Array.isArray(raw.schedules) ? raw.schedules : [];
+  } else if (Array.isArray(raw)) {
+    entries = raw;
+  } else if (isRecord(raw)) {
+    entries = [raw];
+  } else {
+    return { schedules: [], error: 'File does not contain any schedules' };
+  }
+
+  const schedules = entries
+    .map(entry => migrateSavedSchedule(entry, now))
+    .filter((entry): entry is SavedSchedule => entry !== null);
+
+  if (schedules.length === 0 && entries.length > 0) {
+    return { schedules: [], error: 'None of the schedules in the file could be read' };
+  }
+  return { schedules, error: null };
+}
+
+export function parseScheduleLibrary(json: string, now = new Date()): ScheduleLibraryParseResult {
+  try {
+    return migrateScheduleLibrary(JSON.parse(json), now);
+  } catch (e) {
+    return { schedules: [], error: 'File is not valid JSON' };
+  }
+}
+
+export function serializeScheduleLibrary(schedules: SavedSchedule[], now = new Date()): string {
+  const file: ScheduleLibraryFile = {
+    format: SCHEDULE_LIBRARY_FORMAT,
+    version: SCHEDULE_LIBRARY_VERSION,
+    exportedAt: now.toISOString(),
+    schedules
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Add imported entries to the library. Entries with an id already present replace
+ * the existing one only if they were updated more recently.
+ */
+export function mergeScheduleLibraries(existing: SavedSchedule[], incoming: SavedSchedule[]): SavedSchedule[] {
+  const merged = [...existing];
+  incoming.forEach(entry => {
+    const index = merged.findIndex(e => e.id === entry.id);
+    if (index < 0) {
+      merged.push(entry);
+    } else if (entry.updatedAt > merged[index]!.updatedAt) {
+      merged[index] = entry;
+    }
+  });
+  return merged;
+}
+
+/**
+ * Save the library as a JSON file through the browser
+ */
+export function downloadScheduleLibrary(schedules: SavedSchedule[], filename: string) {
+  downloadTextFile(serializeScheduleLibrary(schedules), filename, 'application/json');
+}
@@ -1,4 +1,5 @@
-import { optimizeSchedule } from './scheduleOptimizer';
+import { calculateMSE, optimizeSchedule, isAbortError } from './scheduleOptimizer';
+import { runOptimizer } from './optimizerClient';
 import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
 import { ReferenceCycleType } from '../data/referenceData';
 
@@ -109,6 +110,74 @@ describe('scheduleOptimizer integration tests', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    const params = {
+      availableEsters: [ESTRADIOL_ESTERS[1]!],
+      scheduleLength: 14,
+      referenceCycleType: 'typical' as ReferenceCycleType,
+      steadyState: true,
+      granularity: 0.05,
+      maxDosePerInjection: 10,
+      minDosePerInjection: 1,
+      maxInjectionsPerCycle: 3,
+      esterConcentrations
+    };
+
+    it('rejects with an AbortError when the signal is aborted', async () => {
+      const controller = new AbortController();
+
+      const run = optimizeSchedule(params, (_progress, _score, iteration) => {
+        if (iteration >= 5) controller.abort();
+      }, { signal: controller.signal });
+
+      await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const onProgress = jest.fn();
+
+      const error = await optimizeSchedule(params, onProgress, { signal: controller.signal }).catch(e => e);
+
+      expect(isAbortError(error)).toBe(true);
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+
+    it('reports intermediate best schedules', async () => {
+      const intermediateScores: number[] = [];
+
+      await optimizeSchedule(params, undefined, {
+        onIntermediate: (doses, score) => {
+          expect(doses.length).toBeGreaterThan(0);
+          intermediateScores.push(score);
+        }
+      });
+
+      // Intermediate results are only reported when the best schedule improves
+      expect(intermediateScores.length).toBeGreaterThan(0);
+      for (let i = 1; i < intermediateScores.length; i++) {
+        expect(intermediateScores[i]).toBeLessThan(intermediateScores[i - 1]!);
+      }
+    });
+
+    it('can be aborted mid-run without a progress callback', async () => {
+      const controller = new AbortController();
+
+      const run = optimizeSchedule(params, undefined, {
+        signal: controller.signal,
+        onIntermediate: () => controller.abort()
+      });
+
+      await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('runs in-thread through the client when workers are unavailable', async () => {
+      const result = await runOptimizer({ ...params, scheduleLength: 7, maxInjectionsPerCycle: 1 });
+      expect(result.doses.length).toBeLessThanOrEqual(1);
+    });
+  });
+
   describe('Constraint validation', () => {
     it('respects maxInjectionsPerCycle constraint', async () => {
       const result = await optimizeSchedule({
@@ -191,6 +260,67 @@ describe('scheduleOptimizer integration tests', () => {
     });
   });
 
+  describe('Range target', () => {
+    const doses = [{ day: 0, dose: 5, medication: ESTRADIOL_ESTERS[1]! }];
+
+    it('only penalises levels outside the band', () => {
+      const curve = [0, 1, 2, 3].map(day => ({ day, estradiol: 50 }));
+      const wideBand = curve.map(point => ({ ...point, estradiolRange: [0, 10000] as [number, number] }));
+      const lowBand = curve.map(point => ({ ...point, estradiolRange: [0, 2] as [number, number] }));
+
+      expect(calculateMSE(doses, curve, 4)).toBeGreaterThan(0);
+      expect(calculateMSE(doses, wideBand, 4)).toBe(0);
+      expect(calculateMSE(doses, lowBand, 4)).toBeGreaterThan(0);
+    });
+
+    it('optimizes to stay within the percentile range', async () => {
+      const result = await optimizeSchedule({
+        availableEsters: [ESTRADIOL_ESTERS[1]!],
+        scheduleLength: 28,
+        referenceCycleType: 'typical',
+        referenceTarget: 'range',
+        steadyState: true,
+        granularity: 0.05,
+        maxDosePerInjection: 10,
+        minDosePerInjection: 1,
+        maxInjectionsPerCycle: 4,
+        esterConcentrations
+      });
+
+      expect(result.doses.length).toBeGreaterThan(0);
+      expect(result.doses.length).toBeLessThanOrEqual(4);
+    });
+  });
+
+  describe('Flat target', () => {
+    it('penalises the peak/trough ratio when weighted', () => {
+      const band = [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, estradiol: 150, estradiolRange: [0, 10000] as [number, number] }));
+      const weekly = [{ day: 0, dose: 5, medication: ESTRADIOL_ESTERS[1]! }];
+
+      expect(calculateMSE(weekly, band, 7, true)).toBe(0);
+      expect(calculateMSE(weekly, band, 7, true, 0.05)).toBeGreaterThan(0);
+    });
+
+    it('keeps levels above the minimum of a steady target', async () => {
+      const result = await optimizeSchedule({
+        availableEsters: [ESTRADIOL_ESTERS[1]!],
+        scheduleLength: 7,
+        referenceCycleType: 'typical',
+        referenceTarget: 'flat',
+        flatTarget: { kind: 'range', min: 100, max: 300 },
+        steadyState: true,
+        granularity: 0.05,
+        maxDosePerInjection: 10,
+        minDosePerInjection: 1,
+        maxInjectionsPerCycle: 2,
+        esterConcentrations
+      });
+
+      expect(result.doses.length).toBeGreaterThan(0);
+      expect(result.score).toBeLessThan(0.5);
+    });
+  });
+
   describe('Edge cases', () => {
     it('handles very short schedule length', async () => {
       const result = await optimizeSchedule({
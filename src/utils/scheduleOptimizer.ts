@@ -1,13 +1,24 @@
 import { Dose } from '../data/estradiolEsters';
 import { AnyMedication, isProgesteroneMedication, isEstradiolMedication, EstradiolMedication } from '../types/medication';
 import { calculateTotalConcentration, generateTimePoints, ConcentrationPoint } from './pharmacokinetics';
-import { generateReferenceCycle, ReferenceCycleType } from '../data/referenceData';
+import {
+  generateReferenceCycle,
+  generateReferenceRange,
+  generateFlatTarget,
+  FlatTarget,
+  DEFAULT_FLAT_TARGET,
+  ReferenceCycleInfo,
+  ReferenceCycleType,
+  ReferencePoint,
+  ReferenceRangePoint,
+  ReferenceTarget
+} from '../data/referenceData';
 import { PHARMACOKINETICS } from '../constants/pharmacokinetics';
+import { getSameDayConflict, hasRectalProgesteroneOnDay } from './doseConstraints';
 
 const OPTIMIZATION_CONSTANTS = {
   DEFAULT_ESTRADIOL_STARTING_VOLUME_ML: 0.15,
   MAX_DOSE_ADJUSTMENT_STEPS: 10,
-  MAX_ORAL_VAGINAL_PROGESTERONE_PER_DAY: 4,
   PROGRESS_CONVERGENCE_RATE: 10,
   MAX_DISPLAYED_PROGRESS_UNTIL_COMPLETE: 95,
   SAMPLES_PER_DAY: 4,
@@ -28,12 +39,21 @@ const OPTIMIZATION_CONSTANTS = {
   DOSE_COMPLEXITY_WEIGHT: 0.001,
   PREFER_FEWER_MEDICATIONS: false,
   MEDICATION_VARIETY_PENALTY: 0.0,
+  UNSTOCKED_MEDICATION_PENALTY: 0.05,
+  FLAT_TARGET_FLUCTUATION_WEIGHT: 0.05, // Per unit of peak/trough ratio above 1
+  FLAT_TARGET_VOLUME_WEIGHT: 0.02, // Per mL injected over the schedule
 } as const;
 
+// Reference levels to score against; points with ranges only penalise levels outside them
+type TargetPoint = ReferencePoint & Partial<Pick<ReferenceRangePoint, 'estradiolRange' | 'progesteroneRange'>>;
+
 export interface OptimizationParams {
   availableEsters: AnyMedication[];
   scheduleLength: number;
   referenceCycleType: ReferenceCycleType;
+  customReferenceCycles?: ReferenceCycleInfo[]; // Imported curves `referenceCycleType` may name
+  referenceTarget?: ReferenceTarget; // 'range' and 'flat' ignore `referenceCycleType`
+  flatTarget?: FlatTarget; // Band or average for the 'flat' target
   steadyState?: boolean;
   granularity?: number; // In mL
   maxDosePerInjection?: number;
@@ -42,6 +62,7 @@ export interface OptimizationParams {
   esterConcentrations: Record<string, number>;
   progesteroneDoses?: number[];
   optimizeForAccuracyOnly?: boolean;
+  stockedMedications?: string[]; // When non-empty, injections of other esters are penalised to use up stock
 }
 
 export interface OptimizationResult {
@@ -52,6 +73,28 @@ export interface OptimizationResult {
 
 export type ProgressCallback = (progress: number, currentScore: number, iteration: number) => void;
 
+export interface OptimizeOptions {
+  /** Stops the search at the next iteration; the returned promise rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Receives the best schedule found so far each time progress is reported and it has improved */
+  onIntermediate?: (doses: Dose[], score: number) => void;
+}
+
+/**
+ * Whether an error came from aborting an optimization run
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    const error = new Error('Optimization aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
 interface OptimizationState {
   currentDoses: Dose[];
   currentScore: number;
@@ -74,7 +117,8 @@ function createConcentrationLookup(
   return lookup;
 }
 
-const mseCache = new Map<string, number>();
+// Scores are cached per reference curve, so each new reference array starts with an empty cache
+const mseCache = new WeakMap<object, Map<string, number>>();
 
 function hashDoses(doses: Dose[]): string {
   return doses
@@ -101,14 +145,40 @@ function getConcentrationAtTime(
   return null;
 }
 
-function calculateMSE(
+/**
+ * Error of a level relative to its target: the distance from the reference level, or
+ * only the distance outside the band when a range is given
+ */
+function relativeError(level: number, target: number, range?: [number, number]): number {
+  if (!range) return (level - target) / (target || 1);
+  const [low, high] = range;
+  if (level < low) return (low - level) / (low || 1);
+  if (level > high) return (level - high) / (high || 1);
+  return 0;
+}
+
+/**
+ * Normalised squared error of a schedule against daily reference levels over
+ * [0, scheduleLength). Doses on negative days still contribute to the curve.
+ *
+ * @param steadyState - Prepend earlier repeats of `doses` so the window starts at steady state
+ * @param fluctuationWeight - Also penalise the estradiol peak/trough ratio, for flat targets
+ */
+export function calculateMSE(
   doses: Dose[],
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
-  steadyState: boolean = false
+  steadyState: boolean = false,
+  fluctuationWeight: number = 0
 ): number {
-  const cacheKey = `${hashDoses(doses)}:${scheduleLength}:${steadyState}`;
-  const cached = mseCache.get(cacheKey);
+  let cache = mseCache.get(referenceData);
+  if (!cache) {
+    cache = new Map<string, number>();
+    mseCache.set(referenceData, cache);
+  }
+
+  const cacheKey = `${hashDoses(doses)}:${scheduleLength}:${steadyState}:${fluctuationWeight}`;
+  const cached = cache.get(cacheKey);
   if (cached !== undefined) {
     return cached;
   }
@@ -155,13 +225,17 @@ function calculateMSE(
       if (!genPoint) continue;
 
       // Calculate error for estradiol (normalized by reference value to make scale-independent)
-      const estradiolError = (genPoint.estradiolConcentration - refPoint.estradiol) / (refPoint.estradiol || 1);
+      const estradiolError = relativeError(genPoint.estradiolConcentration, refPoint.estradiol, refPoint.estradiolRange);
       estradiolSumSquaredError += estradiolError * estradiolError;
       estradiolCount++;
 
       // Calculate error for progesterone if reference data includes it
       if (refPoint.progesterone !== undefined && refPoint.progesterone > 0) {
-        const progesteroneError = (genPoint.progesteroneConcentration - refPoint.progesterone) / refPoint.progesterone;
+        const progesteroneError = relativeError(
+          genPoint.progesteroneConcentration,
+          refPoint.progesterone,
+          refPoint.progesteroneRange
+        );
         progesteroneSumSquaredError += progesteroneError * progesteroneError;
         progesteroneCount++;
       }
@@ -173,36 +247,64 @@ function calculateMSE(
   const progesteroneMSE = progesteroneCount > 0 ? progesteroneSumSquaredError / progesteroneCount : 0;
 
   // Combine with equal weighting (or return estradiol-only if no progesterone data)
-  const result = progesteroneCount > 0
+  let result = progesteroneCount > 0
     ? (estradiolMSE + progesteroneMSE) / 2
     : estradiolMSE;
 
+  // Steady-level goals also want the smallest swing between injections
+  if (fluctuationWeight > 0) {
+    const levels = generated.filter(p => p.time < scheduleLength).map(p => p.estradiolConcentration);
+    if (levels.length > 0) {
+      const peakTroughRatio = Math.max(...levels) / Math.max(Math.min(...levels), 1);
+      result += fluctuationWeight * (peakTroughRatio - 1);
+    }
+  }
+
   // Cache the result
-  mseCache.set(cacheKey, result);
+  cache.set(cacheKey, result);
 
   return result;
 }
 
 
+interface ScoringOptions {
+  accuracyOnly: boolean; // If true, score only MSE (no simplicity penalties)
+  stockedMedications: string[];
+  fluctuationWeight: number; // Passed to calculateMSE
+  volumeWeight: number; // Penalty per mL of estradiol injected, so the smallest volume wins ties
+  esterConcentrations: Record<string, number>;
+}
+
+/**
+ * Penalize injecting esters that aren't in stock (prefer using up vials on hand)
+ */
+function calculateStockPenalty(doses: Dose[], stockedMedications: string[]): number {
+  if (stockedMedications.length === 0) return 0;
+  const unstockedCount = doses.filter(d =>
+    isEstradiolMedication(d.medication) && !stockedMedications.includes(d.medication.name)
+  ).length;
+  return unstockedCount * OPTIMIZATION_CONSTANTS.UNSTOCKED_MEDICATION_PENALTY;
+}
+
 /**
  * Calculate multi-objective score that balances accuracy with simplicity
  * Lower score is better
  * @param doses - Current dose schedule
  * @param mseScore - Mean squared error (accuracy metric)
- * @param accuracyOnly - If true, return only MSE (no simplicity penalties)
+ * @param scoring - Which penalties to apply
  */
 function calculateMultiObjectiveScore(
   doses: Dose[],
   mseScore: number,
-  accuracyOnly: boolean = false
+  scoring: ScoringOptions
 ): number {
-  // If optimizing for accuracy only (Find Best Fit), return pure MSE
-  if (accuracyOnly) {
-    return mseScore;
-  }
+  // Start with base MSE (accuracy) plus the stock preference, which applies in every mode
+  let totalScore = mseScore + calculateStockPenalty(doses, scoring.stockedMedications);
 
-  // Start with base MSE (accuracy)
-  let totalScore = mseScore;
+  // If optimizing for accuracy only (Find Best Fit), skip the simplicity penalties
+  if (scoring.accuracyOnly) {
+    return totalScore;
+  }
 
   // Penalize number of estradiol injections (simplicity)
   const estradiolCount = doses.filter(d => isEstradiolMedication(d.medication)).length;
@@ -221,6 +323,14 @@ function calculateMultiObjectiveScore(
     totalScore += medicationPenalty;
   }
 
+  // Penalize injected volume (flat targets: the least drug that holds the level)
+  if (scoring.volumeWeight > 0) {
+    const volumeMl = doses
+      .filter(d => isEstradiolMedication(d.medication))
+      .reduce((sum, d) => sum + d.dose / (scoring.esterConcentrations[d.medication.name] || 40), 0);
+    totalScore += volumeMl * scoring.volumeWeight;
+  }
+
   return totalScore;
 }
 
@@ -251,31 +361,6 @@ function consolidateDuplicateMedications(doses: Dose[]): Dose[] {
   return Array.from(consolidatedMap.values()).sort((a, b) => a.day - b.day);
 }
 
-/**
- * Check if a day already has rectal progesterone
- */
-function hasRectalProgesteroneOnDay(doses: Dose[], day: number, excludeIndex?: number): boolean {
-  return doses.some((d, idx) =>
-    d.day === day &&
-    idx !== excludeIndex &&
-    isProgesteroneMedication(d.medication) &&
-    'route' in d.medication &&
-    d.medication.route === 'rectal'
-  );
-}
-
-/**
- * Count oral/vaginal progesterone doses on a specific day
- */
-function countOralVaginalProgesteroneOnDay(doses: Dose[], day: number): number {
-  return doses.filter(d =>
-    d.day === day &&
-    isProgesteroneMedication(d.medication) &&
-    'route' in d.medication &&
-    (d.medication.route === 'oral' || d.medication.route === 'vaginal')
-  ).length;
-}
-
 /**
  * Check if adding a medication to a day would violate constraints
  */
@@ -285,15 +370,12 @@ function canAddMedicationToDay(
   currentDoses: Dose[],
   maxInjectionsPerCycle: number
 ): boolean {
-  const dosesOnDay = currentDoses.filter(d => d.day === day);
-  const medicationsOnDay = dosesOnDay.map(d => d.medication.name);
-
-  // For estradiol: only one injection of each type per day
-  if (isEstradiolMedication(medication) && medicationsOnDay.includes(medication.name)) {
+  if (getSameDayConflict(medication, day, currentDoses)) {
     return false;
   }
 
   // Check estradiol injection limit (only for estradiol)
+  // Oral and vaginal progesterone may repeat on a day; they're consolidated later (e.g., 2x 100mg → 200mg)
   if (isEstradiolMedication(medication)) {
     const totalEstradiolCount = currentDoses.filter(d => isEstradiolMedication(d.medication)).length;
     if (totalEstradiolCount >= maxInjectionsPerCycle) {
@@ -301,24 +383,6 @@ function canAddMedicationToDay(
     }
   }
 
-  // For progesterone: check route-specific constraints
-  if (isProgesteroneMedication(medication) && 'route' in medication) {
-    if (medication.route === 'rectal') {
-      // Rectal: only one per day (can't use multiple suppositories)
-      if (hasRectalProgesteroneOnDay(currentDoses, day)) {
-        return false;
-      }
-    } else if (medication.route === 'oral' || medication.route === 'vaginal') {
-      // Oral and vaginal: limit to max per day
-      const count = countOralVaginalProgesteroneOnDay(currentDoses, day);
-      if (count >= OPTIMIZATION_CONSTANTS.MAX_ORAL_VAGINAL_PROGESTERONE_PER_DAY) {
-        return false;
-      }
-      // IMPORTANT: Allow adding same medication multiple times to same day
-      // They will be consolidated later (e.g., 2x 100mg → 200mg)
-    }
-  }
-
   return true;
 }
 
@@ -366,7 +430,7 @@ function generateInitialDays(
   strategy: InitStrategy,
   scheduleLength: number,
   maxInjections: number,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[]
+  referenceData: TargetPoint[]
 ): number[] {
   switch (strategy) {
     case InitStrategy.PEAK_DAYS: {
@@ -452,11 +516,11 @@ function generateInitialDays(
  */
 function tryRemoveEstradiolDose(
   state: OptimizationState,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   steadyState: boolean,
   maxInjectionsPerCycle: number,
-  accuracyOnly: boolean
+  scoring: ScoringOptions
 ): { doses: Dose[]; score: number; improved: boolean } {
   const estradiolDoseCount = state.currentDoses.filter(d => isEstradiolMedication(d.medication)).length;
 
@@ -474,8 +538,8 @@ function tryRemoveEstradiolDose(
     const withoutDose = state.currentDoses.filter((_, idx) => idx !== i);
     if (withoutDose.length === 0) continue;
 
-    const mse = calculateMSE(withoutDose, referenceData, scheduleLength, steadyState);
-    const multiObjScore = calculateMultiObjectiveScore(withoutDose, mse, accuracyOnly);
+    const mse = calculateMSE(withoutDose, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+    const multiObjScore = calculateMultiObjectiveScore(withoutDose, mse, scoring);
 
     if (multiObjScore < bestRemovalScore) {
       bestRemovalScore = multiObjScore;
@@ -501,11 +565,11 @@ function tryRemoveEstradiolDose(
  */
 function tryAdjustDoses(
   state: OptimizationState,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   steadyState: boolean,
   params: OptimizationParams,
-  accuracyOnly: boolean
+  scoring: ScoringOptions
 ): { doses: Dose[]; score: number; improved: boolean } {
   const {
     granularity = 0.05,
@@ -537,8 +601,8 @@ function tryAdjustDoses(
         if (testDose > maxDosePerInjection || testDose < minDosePerInjection) continue;
 
         currentDoses[i]!.dose = testDose;
-        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState);
-        const newScore = calculateMultiObjectiveScore(currentDoses, mse, accuracyOnly);
+        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+        const newScore = calculateMultiObjectiveScore(currentDoses, mse, scoring);
 
         if (newScore < bestScore) {
           bestScore = newScore;
@@ -559,8 +623,8 @@ function tryAdjustDoses(
         if (testDose > maxDosePerInjection) break;
 
         currentDoses[i]!.dose = testDose;
-        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState);
-        const newScore = calculateMultiObjectiveScore(currentDoses, mse, accuracyOnly);
+        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+        const newScore = calculateMultiObjectiveScore(currentDoses, mse, scoring);
 
         if (newScore < bestScore) {
           bestScore = newScore;
@@ -579,8 +643,8 @@ function tryAdjustDoses(
         if (testDose < minDosePerInjection) break;
 
         currentDoses[i]!.dose = testDose;
-        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState);
-        const newScore = calculateMultiObjectiveScore(currentDoses, mse, accuracyOnly);
+        const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+        const newScore = calculateMultiObjectiveScore(currentDoses, mse, scoring);
 
         if (newScore < bestScore) {
           bestScore = newScore;
@@ -645,11 +709,11 @@ function selectBestEstersForGap(
  */
 function trySwitchMedications(
   state: OptimizationState,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   steadyState: boolean,
   params: OptimizationParams,
-  accuracyOnly: boolean
+  scoring: ScoringOptions
 ): { doses: Dose[]; score: number; improved: boolean } {
   const {
     availableEsters,
@@ -712,8 +776,8 @@ function trySwitchMedications(
 
       currentDoses[i]!.medication = ester;
       currentDoses[i]!.dose = testDose;
-      const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState);
-      const newScore = calculateMultiObjectiveScore(currentDoses, mse, accuracyOnly);
+      const mse = calculateMSE(currentDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+      const newScore = calculateMultiObjectiveScore(currentDoses, mse, scoring);
 
       if (newScore < bestEsterScore) {
         bestEsterScore = newScore;
@@ -736,7 +800,7 @@ function trySwitchMedications(
  * Returns days where reference concentration is above median
  */
 function getHighValueDays(
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   isProgesterone: boolean = false
 ): Set<number> {
@@ -762,10 +826,10 @@ function getHighValueDays(
  */
 function tryMoveDays(
   state: OptimizationState,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   steadyState: boolean,
-  accuracyOnly: boolean
+  scoring: ScoringOptions
 ): { doses: Dose[]; score: number; improved: boolean } {
   let currentDoses = [...state.currentDoses];
   let currentScore = state.currentScore;
@@ -806,8 +870,8 @@ function tryMoveDays(
         idx === i ? { ...d, day: newDay } : d
       );
 
-      const mse = calculateMSE(testDoses, referenceData, scheduleLength, steadyState);
-      const newScore = calculateMultiObjectiveScore(testDoses, mse, accuracyOnly);
+      const mse = calculateMSE(testDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+      const newScore = calculateMultiObjectiveScore(testDoses, mse, scoring);
 
       if (newScore < bestScore) {
         bestScore = newScore;
@@ -834,11 +898,11 @@ function tryMoveDays(
  */
 function tryAddMedications(
   state: OptimizationState,
-  referenceData: { day: number; estradiol: number; progesterone?: number }[],
+  referenceData: TargetPoint[],
   scheduleLength: number,
   steadyState: boolean,
   params: OptimizationParams,
-  accuracyOnly: boolean
+  scoring: ScoringOptions
 ): { doses: Dose[]; score: number; improved: boolean } {
   const {
     availableEsters,
@@ -894,8 +958,8 @@ function tryAddMedications(
       };
 
       const testDoses = [...currentDoses, newDose];
-      const mse = calculateMSE(testDoses, referenceData, scheduleLength, steadyState);
-      const newScore = calculateMultiObjectiveScore(testDoses, mse, accuracyOnly);
+      const mse = calculateMSE(testDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+      const newScore = calculateMultiObjectiveScore(testDoses, mse, scoring);
 
       if (newScore < currentScore) {
         currentDoses = testDoses;
@@ -914,12 +978,18 @@ function tryAddMedications(
  */
 export async function optimizeSchedule(
   params: OptimizationParams,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: OptimizeOptions = {}
 ): Promise<OptimizationResult> {
+  const { signal, onIntermediate } = options;
+
   const {
     availableEsters,
     scheduleLength,
     referenceCycleType,
+    customReferenceCycles = [],
+    referenceTarget = 'curve',
+    flatTarget = DEFAULT_FLAT_TARGET,
     steadyState = false,
     minDosePerInjection = 0.1,
     maxDosePerInjection = 10,
@@ -927,18 +997,37 @@ export async function optimizeSchedule(
     granularity = 0.05,
     esterConcentrations,
     progesteroneDoses = [100, 200], // Default: both doses available
-    optimizeForAccuracyOnly = false // Default: balance accuracy with simplicity
+    optimizeForAccuracyOnly = false, // Default: balance accuracy with simplicity
+    stockedMedications = []
   } = params;
+  const isFlatTarget = referenceTarget === 'flat';
+  const scoring: ScoringOptions = {
+    accuracyOnly: optimizeForAccuracyOnly,
+    stockedMedications,
+    fluctuationWeight: isFlatTarget ? OPTIMIZATION_CONSTANTS.FLAT_TARGET_FLUCTUATION_WEIGHT : 0,
+    volumeWeight: isFlatTarget ? OPTIMIZATION_CONSTANTS.FLAT_TARGET_VOLUME_WEIGHT : 0,
+    esterConcentrations
+  };
 
   if (availableEsters.length === 0) {
     throw new Error('At least one ester must be available');
   }
 
-  // Clear MSE cache for new optimization
-  mseCache.clear();
-
-  // Get reference cycle data
-  const referenceData = generateReferenceCycle(scheduleLength, referenceCycleType);
+  // Get reference cycle data (a fresh array, so scores aren't shared with earlier runs),
+  // resized to the schedule length so its ovulation peak lines up with the schedule
+  let referenceData: TargetPoint[];
+  if (isFlatTarget) {
+    referenceData = generateFlatTarget(scheduleLength, flatTarget);
+  } else if (referenceTarget === 'range') {
+    referenceData = generateReferenceRange(scheduleLength, scheduleLength);
+  } else {
+    referenceData = generateReferenceCycle(
+      scheduleLength,
+      referenceCycleType,
+      scheduleLength,
+      customReferenceCycles
+    );
+  }
 
   // Multi-start beam search: Try multiple initialization strategies
   const MULTI_START_STRATEGIES = [
@@ -988,8 +1077,8 @@ export async function optimizeSchedule(
       medication: primaryEster
     }));
 
-    const initialMSE = calculateMSE(initialDoses, referenceData, scheduleLength, steadyState);
-    const initialScore = calculateMultiObjectiveScore(initialDoses, initialMSE, optimizeForAccuracyOnly);
+    const initialMSE = calculateMSE(initialDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
+    const initialScore = calculateMultiObjectiveScore(initialDoses, initialMSE, scoring);
 
     initialBeam.push({
       currentDoses: initialDoses,
@@ -1010,22 +1099,31 @@ export async function optimizeSchedule(
 
   // Start from the best initialization (for greedy mode) or use beam (for beam search)
   let state: OptimizationState = beam[0]!;
+  let lastReportedScore = Infinity;
 
   // Optimization loop - run until no improvement found
   while (true) {
+    throwIfAborted(signal);
     state.iterations++;
     const previousScore = state.currentScore;
 
-    // Report progress and yield to event loop for UI updates
+    // Report progress and yield to event loop for UI updates and cancellation
     // OPTIMIZED: Only yield every 5 iterations to reduce overhead
-    if (onProgress && state.iterations % 5 === 0) {
-      const estimatedProgress = Math.min(
-        OPTIMIZATION_CONSTANTS.MAX_DISPLAYED_PROGRESS_UNTIL_COMPLETE,
-        Math.round((1 - Math.exp(-state.iterations / OPTIMIZATION_CONSTANTS.PROGRESS_CONVERGENCE_RATE)) * 100)
-      );
-      onProgress(estimatedProgress, state.currentScore, state.iterations);
+    if (state.iterations % 5 === 0) {
+      if (onProgress) {
+        const estimatedProgress = Math.min(
+          OPTIMIZATION_CONSTANTS.MAX_DISPLAYED_PROGRESS_UNTIL_COMPLETE,
+          Math.round((1 - Math.exp(-state.iterations / OPTIMIZATION_CONSTANTS.PROGRESS_CONVERGENCE_RATE)) * 100)
+        );
+        onProgress(estimatedProgress, state.currentScore, state.iterations);
+      }
+      if (onIntermediate && state.bestScoreThisRun < lastReportedScore) {
+        lastReportedScore = state.bestScoreThisRun;
+        onIntermediate([...state.bestDosesThisRun], state.bestScoreThisRun);
+      }
       // Yield to event loop every 5 iterations to allow UI updates
       await new Promise(resolve => setTimeout(resolve, 0));
+      throwIfAborted(signal);
     }
 
     // Phase 1: Remove excess estradiol doses if over limit
@@ -1035,7 +1133,7 @@ export async function optimizeSchedule(
       scheduleLength,
       steadyState,
       maxInjectionsPerCycle,
-      optimizeForAccuracyOnly
+      scoring
     );
     if (removalResult.improved) {
       state.currentDoses = removalResult.doses;
@@ -1049,7 +1147,7 @@ export async function optimizeSchedule(
       scheduleLength,
       steadyState,
       params,
-      optimizeForAccuracyOnly
+      scoring
     );
     if (adjustResult.improved) {
       state.currentDoses = adjustResult.doses;
@@ -1062,7 +1160,7 @@ export async function optimizeSchedule(
       referenceData,
       scheduleLength,
       steadyState,
-      optimizeForAccuracyOnly
+      scoring
     );
     if (moveDaysResult.improved) {
       state.currentDoses = moveDaysResult.doses;
@@ -1076,7 +1174,7 @@ export async function optimizeSchedule(
       scheduleLength,
       steadyState,
       params,
-      optimizeForAccuracyOnly
+      scoring
     );
     if (switchResult.improved) {
       state.currentDoses = switchResult.doses;
@@ -1090,7 +1188,7 @@ export async function optimizeSchedule(
       scheduleLength,
       steadyState,
       params,
-      optimizeForAccuracyOnly
+      scoring
     );
     if (addResult.improved) {
       state.currentDoses = addResult.doses;
@@ -1189,7 +1287,7 @@ export async function optimizeSchedule(
   finalDoses = finalDoses.filter(d => d.dose >= minDosePerInjection);
 
   // Recalculate final score (always report MSE, not the penalized score)
-  const finalScore = calculateMSE(finalDoses, referenceData, scheduleLength, steadyState);
+  const finalScore = calculateMSE(finalDoses, referenceData, scheduleLength, steadyState, scoring.fluctuationWeight);
 
   return {
     doses: finalDoses,
@@ -0,0 +1,269 @@
+import { STORAGE_KEYS } from '../constants/defaults';
+import { AnyMedication, MedicationType } from '../types/medication';
+import { LabResult, migrateBloodDraws } from './labResults';
+import { LoggedDose } from './doseLog';
+import { PinnedSchedule } from './scheduleComparison';
+import { SavedSchedule, migrateScheduleLibrary, serializeScheduleLibrary } from './scheduleLibrary';
+import { Preset } from '../data/presets';
+import { parsePresetFile, serializePresets } from './customPresets';
+import { Vial } from './inventory';
+import { ReferenceCycleInfo } from '../data/referenceData';
+import { migrateCustomReferences } from './customReferenceCycles';
+import { validateCustomMedication } from './customMedications';
+import { DoseDisplaySettings, DEFAULT_DOSE_DISPLAY, DOSE_DISPLAY_UNIT_NAMES } from './doseUnits';
+
+/**
+ * localStorage persistence for lab results, the dose log, pinned and saved schedules,
+ * user-defined presets, medications and reference curves, vial inventory and display preferences
+ */
+
+/**
+ * Draws from the bloodwork dialog's old separate store, converted to lab results
+ */
+function loadLegacyBloodDraws(): LabResult[] | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.BLOOD_DRAWS);
+    return stored ? migrateBloodDraws(JSON.parse(stored)) : null;
+  } catch (e) {
+    console.error('Failed to load blood draws from localStorage:', e);
+    return null;
+  }
+}
+
+/**
+ * Lab results also feed the bloodwork fit; draws saved by older versions are merged in once
+ */
+export function loadLabResults(): LabResult[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.LAB_RESULTS);
+    const parsed = stored ? JSON.parse(stored) : [];
+    const results: LabResult[] = Array.isArray(parsed) ? parsed : [];
+
+    const legacy = loadLegacyBloodDraws();
+    if (!legacy) return results;
+
+    const ids = new Set(results.map(r => r.id));
+    const merged = [...results, ...legacy.filter(r => !ids.has(r.id))].sort((a, b) => a.day - b.day);
+    saveLabResults(merged);
+    localStorage.removeItem(STORAGE_KEYS.BLOOD_DRAWS);
+    return merged;
+  } catch (e) {
+    console.error('Failed to load lab results from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveLabResults(results: LabResult[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.LAB_RESULTS, JSON.stringify(results));
+  } catch (e) {
+    console.error('Failed to save lab results to localStorage:', e);
+  }
+}
+
+export function loadCustomMedications(): AnyMedication[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.CUSTOM_MEDICATIONS);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    const knownTypes = Object.values(MedicationType) as string[];
+    return parsed.filter(m =>
+      m && typeof m.name === 'string' && knownTypes.includes(m.type) && validateCustomMedication(m) === null
+    );
+  } catch (e) {
+    console.error('Failed to load custom medications from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveCustomMedications(medications: AnyMedication[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_MEDICATIONS, JSON.stringify(medications));
+  } catch (e) {
+    console.error('Failed to save custom medications to localStorage:', e);
+  }
+}
+
+export function loadDoseLog(): LoggedDose[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.DOSE_LOG);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    const knownTypes = Object.values(MedicationType) as string[];
+    return parsed.filter(entry =>
+      entry &&
+      typeof entry.date === 'string' &&
+      typeof entry.dose === 'number' &&
+      entry.medication &&
+      typeof entry.medication.name === 'string' &&
+      knownTypes.includes(entry.medication.type)
+    );
+  } catch (e) {
+    console.error('Failed to load dose log from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveDoseLog(log: LoggedDose[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DOSE_LOG, JSON.stringify(log));
+  } catch (e) {
+    console.error('Failed to save dose log to localStorage:', e);
+  }
+}
+
+export function loadPinnedSchedules(): PinnedSchedule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.PINNED_SCHEDULES);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    const knownTypes = Object.values(MedicationType) as string[];
+    return parsed.filter(schedule =>
+      schedule &&
+      typeof schedule.id === 'string' &&
+      typeof schedule.name === 'string' &&
+      typeof schedule.scheduleLength === 'number' &&
+      Array.isArray(schedule.doses) &&
+      schedule.doses.every((d: { medication?: AnyMedication }) => d.medication && knownTypes.includes(d.medication.type))
+    );
+  } catch (e) {
+    console.error('Failed to load pinned schedules from localStorage:', e);
+    return [];
+  }
+}
+
+export function savePinnedSchedules(schedules: PinnedSchedule[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PINNED_SCHEDULES, JSON.stringify(schedules));
+  } catch (e) {
+    console.error('Failed to save pinned schedules to localStorage:', e);
+  }
+}
+
+/**
+ * The library is stored in its export format so older versions can be migrated on load
+ */
+export function loadScheduleLibrary(): SavedSchedule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SCHEDULE_LIBRARY);
+    if (!stored) return [];
+
+    return migrateScheduleLibrary(JSON.parse(stored)).schedules;
+  } catch (e) {
+    console.error('Failed to load schedule library from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveScheduleLibrary(schedules: SavedSchedule[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULE_LIBRARY, serializeScheduleLibrary(schedules));
+  } catch (e) {
+    console.error('Failed to save schedule library to localStorage:', e);
+  }
+}
+
+export function loadCustomPresets(): Preset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.CUSTOM_PRESETS);
+    if (!stored) return [];
+
+    return parsePresetFile(stored).presets;
+  } catch (e) {
+    console.error('Failed to load custom presets from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_PRESETS, serializePresets(presets));
+  } catch (e) {
+    console.error('Failed to save custom presets to localStorage:', e);
+  }
+}
+
+export function loadDoseDisplaySettings(): DoseDisplaySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.DOSE_DISPLAY);
+    if (!stored) return DEFAULT_DOSE_DISPLAY;
+
+    const parsed = JSON.parse(stored);
+    return {
+      unit: parsed.unit in DOSE_DISPLAY_UNIT_NAMES ? parsed.unit : DEFAULT_DOSE_DISPLAY.unit,
+      syringeResolutionMl: parsed.syringeResolutionMl > 0 ? parsed.syringeResolutionMl : DEFAULT_DOSE_DISPLAY.syringeResolutionMl
+    };
+  } catch (e) {
+    console.error('Failed to load dose display settings from localStorage:', e);
+    return DEFAULT_DOSE_DISPLAY;
+  }
+}
+
+export function saveDoseDisplaySettings(settings: DoseDisplaySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DOSE_DISPLAY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save dose display settings to localStorage:', e);
+  }
+}
+
+export function loadVialInventory(): Vial[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.VIAL_INVENTORY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter(vial =>
+      vial &&
+      typeof vial.id === 'string' &&
+      typeof vial.medicationName === 'string' &&
+      Number.isFinite(vial.concentration) && vial.concentration > 0 &&
+      Number.isFinite(vial.volumeMl) && vial.volumeMl >= 0 &&
+      Number.isFinite(vial.discardAfterDays) &&
+      (vial.openedDate === undefined || typeof vial.openedDate === 'string') &&
+      (vial.expiryDate === undefined || typeof vial.expiryDate === 'string')
+    );
+  } catch (e) {
+    console.error('Failed to load vial inventory from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveVialInventory(vials: Vial[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.VIAL_INVENTORY, JSON.stringify(vials));
+  } catch (e) {
+    console.error('Failed to save vial inventory to localStorage:', e);
+  }
+}
+
+export function loadCustomReferences(): ReferenceCycleInfo[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.CUSTOM_REFERENCES);
+    if (!stored) return [];
+
+    return migrateCustomReferences(JSON.parse(stored));
+  } catch (e) {
+    console.error('Failed to load custom reference curves from localStorage:', e);
+    return [];
+  }
+}
+
+export function saveCustomReferences(references: ReferenceCycleInfo[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_REFERENCES, JSON.stringify(references));
+  } catch (e) {
+    console.error('Failed to save custom reference curves to localStorage:', e);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Lab result unit conversions
+ *
+ * The model works in pg/mL for estradiol and ng/mL for progesterone.
+ * Molar conversions use the same factors as the reference cycle data
+ * (estradiol 3.67 pmol/L per pg/mL, progesterone 3.18 nmol/L per ng/mL).
+ */
+
+export type Hormone = 'estradiol' | 'progesterone';
+
+export type EstradiolUnit = 'pg/mL' | 'ng/mL' | 'pmol/L';
+export type ProgesteroneUnit = 'ng/mL' | 'nmol/L';
+export type LabUnit = EstradiolUnit | ProgesteroneUnit;
+
+export const ESTRADIOL_UNITS: EstradiolUnit[] = ['pg/mL', 'ng/mL', 'pmol/L'];
+export const PROGESTERONE_UNITS: ProgesteroneUnit[] = ['ng/mL', 'nmol/L'];
+
+export const LAB_UNITS: Record<Hormone, LabUnit[]> = {
+  estradiol: ESTRADIOL_UNITS,
+  progesterone: PROGESTERONE_UNITS
+};
+
+/** Unit the model reports each hormone in */
+export const MODEL_UNITS: Record<Hormone, LabUnit> = {
+  estradiol: 'pg/mL',
+  progesterone: 'ng/mL'
+};
+
+const PG_PER_ML_FACTORS: Record<EstradiolUnit, number> = {
+  'pg/mL': 1,
+  'ng/mL': 1000,
+  'pmol/L': 1 / 3.67
+};
+
+const NG_PER_ML_FACTORS: Record<ProgesteroneUnit, number> = {
+  'ng/mL': 1,
+  'nmol/L': 1 / 3.18
+};
+
+/**
+ * Convert an estradiol lab value to pg/mL, the unit used by the model
+ */
+export function estradiolToPgPerMl(value: number, unit: EstradiolUnit): number {
+  return value * PG_PER_ML_FACTORS[unit];
+}
+
+/**
+ * Convert a progesterone lab value to ng/mL, the unit used by the model
+ */
+export function progesteroneToNgPerMl(value: number, unit: ProgesteroneUnit): number {
+  return value * NG_PER_ML_FACTORS[unit];
+}
+
+/**
+ * Convert a lab value to the model's unit for that hormone
+ *
+ * @returns The converted value, or NaN if the unit doesn't apply to the hormone
+ */
+export function toModelUnits(value: number, hormone: Hormone, unit: LabUnit): number {
+  if (hormone === 'estradiol' && unit in PG_PER_ML_FACTORS) {
+    return estradiolToPgPerMl(value, unit as EstradiolUnit);
+  }
+  if (hormone === 'progesterone' && unit in NG_PER_ML_FACTORS) {
+    return progesteroneToNgPerMl(value, unit as ProgesteroneUnit);
+  }
+  return NaN;
+}
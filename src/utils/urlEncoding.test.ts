@@ -0,0 +1,123 @@
+import { encodeSchedule, decodeSchedule, decodeLegacySchedule, ScheduleData } from './urlEncoding';
+import { ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+import { EstradiolMedication, MedicationType } from '../types/medication';
+
+const toUrlSafe = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('encodeSchedule / decodeSchedule', () => {
+  const EV = ESTRADIOL_ESTERS[1]!;
+  const EC = ESTRADIOL_ESTERS[2]!;
+  const rectal = PROGESTERONE_ROUTES[1]!;
+
+  const baseData: ScheduleData = {
+    doses: [],
+    scheduleLength: 29,
+    graphDays: 90,
+    repeat: true,
+    steadyState: false,
+    cycleType: 'typical'
+  };
+
+  it('should round-trip estradiol doses', () => {
+    const data = { ...baseData, doses: [{ day: 0, dose: 4, medication: EV }, { day: 7, dose: 5.25, medication: EC }] };
+    const decoded = decodeSchedule(encodeSchedule(data));
+
+    expect(decoded).toEqual(data);
+  });
+
+  it('should preserve progesterone route and dose', () => {
+    const data = { ...baseData, doses: [{ day: 14, dose: 200, medication: rectal }] };
+    const decoded = decodeSchedule(encodeSchedule(data))!;
+
+    expect(decoded.doses[0]!.medication).toBe(rectal);
+    expect(decoded.doses[0]!.dose).toBe(200);
+  });
+
+  it('should preserve time of day', () => {
+    const data = { ...baseData, doses: [{ day: 3, time: 21.5, dose: 100, medication: PROGESTERONE_ROUTES[0]! }] };
+    const decoded = decodeSchedule(encodeSchedule(data))!;
+
+    expect(decoded.doses[0]!.time).toBe(21.5);
+  });
+
+  it('should preserve steady state and repeat flags', () => {
+    const decoded = decodeSchedule(encodeSchedule({ ...baseData, repeat: true, steadyState: true }))!;
+    expect(decoded.repeat).toBe(true);
+    expect(decoded.steadyState).toBe(true);
+
+    const decodedOff = decodeSchedule(encodeSchedule({ ...baseData, repeat: false, steadyState: false }))!;
+    expect(decodedOff.repeat).toBe(false);
+    expect(decodedOff.steadyState).toBe(false);
+  });
+
+  it('should preserve the calendar start date only when set', () => {
+    const decoded = decodeSchedule(encodeSchedule({ ...baseData, startDate: '2025-03-03' }))!;
+    expect(decoded.startDate).toBe('2025-03-03');
+
+    expect(decodeSchedule(encodeSchedule(baseData))!.startDate).toBeUndefined();
+    expect(decodeSchedule(toUrlSafe('2|||29|90|r|t|20250231'))!.startDate).toBeUndefined();
+  });
+
+  it('should embed custom medications in the registry', () => {
+    const custom: EstradiolMedication = {
+      type: MedicationType.ESTRADIOL,
+      name: 'Estradiol valerate (personalised) — ünïcode',
+      D: 3000,
+      k1: 2.1,
+      k2: 0.25,
+      k3: 1.4
+    };
+    const data = { ...baseData, doses: [{ day: 0, dose: 5, medication: custom }, { day: 5, dose: 5, medication: custom }] };
+    const decoded = decodeSchedule(encodeSchedule(data))!;
+
+    expect(decoded.doses).toHaveLength(2);
+    expect(decoded.doses[0]!.medication).toEqual(custom);
+  });
+
+  it('should drop custom medications with unusable parameters', () => {
+    const broken = { ...EV, name: 'Broken ester', k1: -1 };
+    const data = { ...baseData, doses: [{ day: 0, dose: 5, medication: broken }, { day: 1, dose: 5, medication: EV }] };
+    const decoded = decodeSchedule(encodeSchedule(data))!;
+
+    expect(decoded.doses.map(d => d.medication)).toEqual([EV]);
+  });
+
+  it('should treat modified built-in medications as custom', () => {
+    const tweaked = { ...EV, D: EV.D * 2 };
+    const decoded = decodeSchedule(encodeSchedule({ ...baseData, doses: [{ day: 0, dose: 5, medication: tweaked }] }))!;
+
+    expect(decoded.doses[0]!.medication).toEqual(tweaked);
+  });
+
+  it('should produce URL-safe output', () => {
+    const data = { ...baseData, doses: [{ day: 0, dose: 5, medication: { ...EV, name: 'Custom / ester + more' } }] };
+    expect(encodeSchedule(data)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should return null for garbage input', () => {
+    expect(decodeSchedule('%%%')).toBeNull();
+    expect(decodeSchedule(toUrlSafe('a|b'))).toBeNull();
+  });
+});
+
+describe('backwards compatibility', () => {
+  it('should decode version 1 compact links', () => {
+    const decoded = decodeSchedule(toUrlSafe('1,75,1;3,100,2|29|90|1|h'))!;
+
+    expect(decoded.doses).toEqual([
+      { day: 1, dose: 0.75, medication: ESTRADIOL_ESTERS[1] },
+      { day: 3, dose: 1, medication: ESTRADIOL_ESTERS[2] }
+    ]);
+    expect(decoded.repeat).toBe(true);
+    expect(decoded.cycleType).toBe('hrt-target');
+  });
+
+  it('should decode legacy JSON links', () => {
+    const decoded = decodeLegacySchedule(btoa(JSON.stringify([[[0, 5, 2]], 7, 60, true, 'typical'])))!;
+
+    expect(decoded.doses[0]!.medication).toBe(ESTRADIOL_ESTERS[2]);
+    expect(decoded.scheduleLength).toBe(7);
+    expect(decoded.repeat).toBe(true);
+  });
+});
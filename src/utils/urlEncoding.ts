@@ -1,18 +1,35 @@
 import { Dose, ESTRADIOL_ESTERS } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+import { TRANSDERMAL_PATCHES } from '../data/transdermalPatches';
+import { ORAL_ESTRADIOL_ROUTES } from '../data/oralEstradiolRoutes';
 import { ReferenceCycleType } from '../data/referenceData';
+import { AnyMedication, MedicationType } from '../types/medication';
+import { parseISODate } from './dates';
+import { validateMedicationParameters } from './customMedications';
 
 /**
  * Compact URL encoding for schedule data
  *
- * Format: d1,dose1,e1;d2,dose2,e2;...|schedLen|graphDays|r|c
- * - Each dose: day,dose*100,esterIndex (comma separated)
+ * Current format (v2): 2|registry|doses|schedLen|graphDays|flags|c[|startDate]
+ * - Registry: medications used by the schedule, separated by semicolons.
+ *   Built-in medications are a group code plus index (e.g. e1 = Estradiol valerate,
+ *   p0 = Progesterone (oral), t0 = twice-weekly patch); anything else is `x` followed by the URI-encoded JSON
+ *   of the full medication so custom parameters survive the round trip
+ * - Each dose: day,dose*100,registryIndex[,timeOfDayMinutes] (comma separated)
  * - Doses separated by semicolons
- * - Then: scheduleLength|graphDays|repeat(1/0)|cycleType(t/h/c/p)
+ * - Flags: any of r (repeat) and s (steady state)
+ * - Then: cycleType(t/h/c/p); imported curves only exist locally, so links use t for them
+ * - Optional start date as YYYYMMDD, present only when the schedule is pinned to the calendar
  *
- * Example: 1,75,1;3,75,1;5,100,1|29|90|1|t
- * This is much shorter than JSON and compresses better
+ * Example: 2|e1;p1|0,500,0;14,10000,1,1320|29|90|rs|t|20250303
+ *
+ * Version 1 format: d1,dose1,e1;d2,dose2,e2;...|schedLen|graphDays|r|c
+ * - Each dose: day,dose*100,esterIndex (estradiol esters only)
+ * - Still decoded so that previously shared links keep working
  */
 
+const FORMAT_VERSION = '2';
+
 const CYCLE_TYPE_MAP: Record<ReferenceCycleType, string> = {
   'typical': 't',
   'hrt-target': 'h',
@@ -27,86 +44,233 @@ const CYCLE_TYPE_REVERSE: Record<string, ReferenceCycleType> = {
   'p': 'high-physiological'
 };
 
+/**
+ * Built-in medication lists addressable by a one-letter group code.
+ * New groups must use a new code and existing lists may only be appended to,
+ * otherwise previously shared links would resolve to the wrong medication.
+ */
+const MEDICATION_GROUPS: Record<string, readonly AnyMedication[]> = {
+  e: ESTRADIOL_ESTERS,
+  p: PROGESTERONE_ROUTES,
+  t: TRANSDERMAL_PATCHES,
+  o: ORAL_ESTRADIOL_ROUTES
+};
+
+const CUSTOM_MEDICATION_PREFIX = 'x';
+
 export interface ScheduleData {
   doses: Dose[];
   scheduleLength: number;
   graphDays: number;
   repeat: boolean;
+  steadyState?: boolean;
   cycleType: ReferenceCycleType;
+  startDate?: string; // ISO YYYY-MM-DD of day 0; absent for abstract day numbers
+}
+
+function toUrlSafeBase64(value: string): string {
+  return btoa(value)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, ''); // Remove padding
+}
+
+function fromUrlSafeBase64(encoded: string): string {
+  // Restore standard base64
+  let base64 = encoded
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+
+  // Add padding if needed
+  while (base64.length % 4) {
+    base64 += '=';
+  }
+
+  return atob(base64);
+}
+
+/**
+ * Find the registry code of a built-in medication. Medications whose parameters
+ * differ from the built-in entry of the same name are treated as custom.
+ */
+function getBuiltinMedicationCode(medication: AnyMedication): string | null {
+  for (const [group, medications] of Object.entries(MEDICATION_GROUPS)) {
+    const index = medications.findIndex(m => m.name === medication.name);
+    if (index < 0) continue;
+
+    const builtin: Record<string, unknown> = { ...medications[index] };
+    const candidate: Record<string, unknown> = { ...medication };
+    const identical = Object.keys(builtin).every(key => builtin[key] === candidate[key]);
+    return identical ? `${group}${index}` : null;
+  }
+  return null;
+}
+
+function encodeMedication(medication: AnyMedication): string {
+  return getBuiltinMedicationCode(medication)
+    ?? `${CUSTOM_MEDICATION_PREFIX}${encodeURIComponent(JSON.stringify(medication))}`;
+}
+
+function decodeMedication(code: string): AnyMedication | null {
+  if (code.startsWith(CUSTOM_MEDICATION_PREFIX)) {
+    try {
+      const parsed = JSON.parse(decodeURIComponent(code.slice(CUSTOM_MEDICATION_PREFIX.length)));
+      const knownTypes = Object.values(MedicationType) as string[];
+      if (
+        parsed && typeof parsed.name === 'string' && knownTypes.includes(parsed.type) &&
+        validateMedicationParameters(parsed) === null
+      ) {
+        return parsed as AnyMedication;
+      }
+    } catch (e) {
+      // Fall through to null for malformed entries
+    }
+    return null;
+  }
+
+  const group = MEDICATION_GROUPS[code[0] || ''];
+  const index = parseInt(code.slice(1));
+  return (group && !isNaN(index) && group[index]) || null;
 }
 
 export function encodeSchedule(data: ScheduleData): string {
-  // Encode doses: day,dose*100,esterIndex
+  // Build registry of distinct medications, referenced by position from each dose
+  const registry: string[] = [];
+  const registryIndex = new Map<string, number>();
+
   const doseParts = data.doses.map(d => {
     const medication = d.medication || d.ester; // Backward compatibility
-    const esterIndex = ESTRADIOL_ESTERS.findIndex(e => e.name === medication?.name);
+    const code = encodeMedication(medication);
+    let index = registryIndex.get(code);
+    if (index === undefined) {
+      index = registry.length;
+      registry.push(code);
+      registryIndex.set(code, index);
+    }
+
     const doseInt = Math.round(d.dose * 100);
-    return `${d.day},${doseInt},${esterIndex}`;
+    const fields = [d.day, doseInt, index];
+    if (d.time !== undefined) {
+      fields.push(Math.round(d.time * 60));
+    }
+    return fields.join(',');
   });
 
-  const dosesStr = doseParts.join(';');
-  const repeatChar = data.repeat ? '1' : '0';
+  const flags = `${data.repeat ? 'r' : ''}${data.steadyState ? 's' : ''}`;
   const cycleChar = CYCLE_TYPE_MAP[data.cycleType] || 't';
 
-  const compact = `${dosesStr}|${data.scheduleLength}|${data.graphDays}|${repeatChar}|${cycleChar}`;
+  const fields: (string | number)[] = [
+    FORMAT_VERSION,
+    registry.join(';'),
+    doseParts.join(';'),
+    data.scheduleLength,
+    data.graphDays,
+    flags,
+    cycleChar
+  ];
+  if (data.startDate && parseISODate(data.startDate)) {
+    fields.push(data.startDate.replace(/-/g, ''));
+  }
+  const compact = fields.join('|');
 
-  // Use URL-safe base64
-  return btoa(compact)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, ''); // Remove padding
+  // Registry entries are URI-encoded, so the compact string is plain ASCII
+  return toUrlSafeBase64(compact);
 }
 
+/**
+ * Decode a schedule from the `s` URL parameter.
+ * Accepts the current format and the earlier estradiol-only compact format.
+ */
 export function decodeSchedule(encoded: string): ScheduleData | null {
   try {
-    // Restore standard base64
-    let base64 = encoded
-      .replace(/-/g, '+')
-      .replace(/_/g, '/');
-
-    // Add padding if needed
-    while (base64.length % 4) {
-      base64 += '=';
-    }
-
-    const compact = atob(base64);
+    const compact = fromUrlSafeBase64(encoded);
     const parts = compact.split('|');
 
-    if (parts.length !== 5) {
-      return null;
+    if (parts[0] === FORMAT_VERSION && (parts.length === 7 || parts.length === 8)) {
+      return decodeCompactV2(parts);
+    }
+    if (parts.length === 5) {
+      return decodeCompactV1(parts);
     }
+    return null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function decodeCompactV2(parts: string[]): ScheduleData {
+  const [, registryStr, dosesStr, schedLenStr, graphDaysStr, flags = '', cycleStr, startDateStr] = parts;
 
-    const [dosesStr, schedLenStr, graphDaysStr, repeatStr, cycleStr] = parts;
+  const registry = registryStr ? registryStr.split(';').map(decodeMedication) : [];
 
-    // Parse doses
-    const doses: Dose[] = [];
-    if (dosesStr) {
-      const doseParts = dosesStr.split(';');
-      for (const dosePart of doseParts) {
-        const [dayStr, doseStr, esterStr] = dosePart.split(',');
-        if (!dayStr || !doseStr || !esterStr) continue;
+  const doses: Dose[] = [];
+  if (dosesStr) {
+    for (const dosePart of dosesStr.split(';')) {
+      const [dayStr, doseStr, medStr, timeStr] = dosePart.split(',');
+      if (!dayStr || !doseStr || !medStr) continue;
 
-        const day = parseInt(dayStr);
-        const dose = parseInt(doseStr) / 100;
-        const esterIndex = parseInt(esterStr);
-        const medication = ESTRADIOL_ESTERS[esterIndex] || ESTRADIOL_ESTERS[1]!;
+      const day = parseInt(dayStr);
+      const dose = parseInt(doseStr) / 100;
+      const medication = registry[parseInt(medStr)];
+      if (isNaN(day) || isNaN(dose) || !medication) continue;
 
-        if (!isNaN(day) && !isNaN(dose) && medication) {
-          doses.push({ day, dose, medication });
+      const entry: Dose = { day, dose, medication };
+      if (timeStr) {
+        const minutes = parseInt(timeStr);
+        if (!isNaN(minutes)) {
+          entry.time = minutes / 60;
         }
       }
+      doses.push(entry);
     }
+  }
 
-    return {
-      doses,
-      scheduleLength: parseInt(schedLenStr || '29') || 29,
-      graphDays: parseInt(graphDaysStr || '90') || 90,
-      repeat: repeatStr === '1',
-      cycleType: (cycleStr && CYCLE_TYPE_REVERSE[cycleStr]) || 'typical'
-    };
-  } catch (e) {
-    return null;
+  return {
+    doses,
+    scheduleLength: parseInt(schedLenStr || '29') || 29,
+    graphDays: parseInt(graphDaysStr || '90') || 90,
+    repeat: flags.includes('r'),
+    steadyState: flags.includes('s'),
+    cycleType: (cycleStr && CYCLE_TYPE_REVERSE[cycleStr]) || 'typical',
+    startDate: decodeStartDate(startDateStr)
+  };
+}
+
+function decodeStartDate(value: string | undefined): string | undefined {
+  if (!value || !/^\d{8}$/.test(value)) return undefined;
+  const iso = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  return parseISODate(iso) ? iso : undefined;
+}
+
+function decodeCompactV1(parts: string[]): ScheduleData {
+  const [dosesStr, schedLenStr, graphDaysStr, repeatStr, cycleStr] = parts;
+
+  // Parse doses
+  const doses: Dose[] = [];
+  if (dosesStr) {
+    const doseParts = dosesStr.split(';');
+    for (const dosePart of doseParts) {
+      const [dayStr, doseStr, esterStr] = dosePart.split(',');
+      if (!dayStr || !doseStr || !esterStr) continue;
+
+      const day = parseInt(dayStr);
+      const dose = parseInt(doseStr) / 100;
+      const esterIndex = parseInt(esterStr);
+      const medication = ESTRADIOL_ESTERS[esterIndex] || ESTRADIOL_ESTERS[1]!;
+
+      if (!isNaN(day) && !isNaN(dose) && medication) {
+        doses.push({ day, dose, medication });
+      }
+    }
   }
+
+  return {
+    doses,
+    scheduleLength: parseInt(schedLenStr || '29') || 29,
+    graphDays: parseInt(graphDaysStr || '90') || 90,
+    repeat: repeatStr === '1',
+    cycleType: (cycleStr && CYCLE_TYPE_REVERSE[cycleStr]) || 'typical'
+  };
 }
 
 /**
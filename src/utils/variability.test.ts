@@ -0,0 +1,74 @@
+import { percentile, simulatePopulationBands } from './variability';
+import { calculateTotalConcentration, generateTimePoints } from './pharmacokinetics';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+import { PROGESTERONE_ROUTES } from '../data/progesteroneRoutes';
+
+describe('percentile', () => {
+  it('should interpolate between values', () => {
+    expect(percentile([0, 10], 0.5)).toBe(5);
+    expect(percentile([1, 2, 3, 4, 5], 0)).toBe(1);
+    expect(percentile([1, 2, 3, 4, 5], 1)).toBe(5);
+    expect(percentile([1, 2, 3, 4, 5], 0.25)).toBe(2);
+  });
+
+  it('should return 0 for empty input', () => {
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('simulatePopulationBands', () => {
+  const doses: Dose[] = [
+    { day: 0, dose: 5, medication: ESTRADIOL_ESTERS[1]! },
+    { day: 7, dose: 5, medication: ESTRADIOL_ESTERS[1]! }
+  ];
+  const timePoints = generateTimePoints(14, 1);
+
+  it('should return ordered percentiles for every time point', () => {
+    const bands = simulatePopulationBands(doses, timePoints, { patients: 100 });
+
+    expect(bands).toHaveLength(timePoints.length);
+    bands.forEach(band => {
+      expect(band.p5).toBeLessThanOrEqual(band.p25);
+      expect(band.p25).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p75);
+      expect(band.p75).toBeLessThanOrEqual(band.p95);
+    });
+    // Variability should produce a real spread after the first injection
+    expect(bands[3]!.p95 - bands[3]!.p5).toBeGreaterThan(0);
+  });
+
+  it('should be reproducible for the same seed', () => {
+    const first = simulatePopulationBands(doses, timePoints, { patients: 50, seed: 42 });
+    const second = simulatePopulationBands(doses, timePoints, { patients: 50, seed: 42 });
+    const other = simulatePopulationBands(doses, timePoints, { patients: 50, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('should collapse to the deterministic curve without variability', () => {
+    const bands = simulatePopulationBands(doses, timePoints, {
+      patients: 10,
+      logSd: { D: 0, k1: 0, k2: 0, k3: 0 }
+    });
+    const expected = calculateTotalConcentration(doses, timePoints);
+
+    bands.forEach((band, i) => {
+      expect(band.p5).toBeCloseTo(expected[i]!.estradiolConcentration);
+      expect(band.p95).toBeCloseTo(expected[i]!.estradiolConcentration);
+    });
+  });
+
+  it('should leave non-injectable medications out of the spread', () => {
+    const progesteroneOnly: Dose[] = [{ day: 0, dose: 100, medication: PROGESTERONE_ROUTES[0]! }];
+    const bands = simulatePopulationBands(progesteroneOnly, timePoints, { patients: 20 });
+
+    bands.forEach(band => {
+      expect(band.p95).toBe(0);
+    });
+  });
+
+  it('should return no bands for an empty schedule', () => {
+    expect(simulatePopulationBands([], timePoints)).toEqual([]);
+  });
+});
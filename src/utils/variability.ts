@@ -0,0 +1,124 @@
+import { Dose } from '../data/estradiolEsters';
+import { EstradiolMedication, isEstradiolMedication } from '../types/medication';
+import { VARIABILITY } from '../constants/pharmacokinetics';
+import { calculateTotalConcentration } from './pharmacokinetics';
+
+/**
+ * Monte Carlo simulation of between-patient variability.
+ *
+ * Each virtual patient gets their own log-normal multipliers on D, k1, k2 and k3
+ * for every ester in the schedule; other medications are modelled as usual.
+ * The spread of the resulting estradiol curves is summarised as percentiles.
+ */
+
+export interface PercentileBand {
+  time: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface VariabilityOptions {
+  patients?: number;
+  seed?: number;
+  logSd?: { D: number; k1: number; k2: number; k3: number };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via the Box-Muller transform
+ */
+function sampleNormal(random: () => number): number {
+  const u = 1 - random(); // Avoid log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Linearly interpolated percentile of an ascending array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const fraction = position - lower;
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * fraction;
+}
+
+export function simulatePopulationBands(
+  doses: Dose[],
+  timePoints: number[],
+  options: VariabilityOptions = {}
+): PercentileBand[] {
+  const {
+    patients = VARIABILITY.PATIENT_COUNT,
+    seed = VARIABILITY.SEED,
+    logSd = VARIABILITY.LOG_SD
+  } = options;
+
+  if (doses.length === 0 || timePoints.length === 0) return [];
+
+  const random = createRandom(seed);
+  const esterNames = Array.from(new Set(doses.filter(d => isEstradiolMedication(d.medication)).map(d => d.medication.name)));
+
+  // curves[t][patient]
+  const curves: number[][] = timePoints.map(() => []);
+
+  for (let patient = 0; patient < patients; patient++) {
+    const multipliers = new Map(esterNames.map(name => [name, {
+      D: Math.exp(logSd.D * sampleNormal(random)),
+      k1: Math.exp(logSd.k1 * sampleNormal(random)),
+      k2: Math.exp(logSd.k2 * sampleNormal(random)),
+      k3: Math.exp(logSd.k3 * sampleNormal(random))
+    }]));
+
+    const patientDoses = doses.map(dose => {
+      if (!isEstradiolMedication(dose.medication)) return dose;
+      const m = multipliers.get(dose.medication.name)!;
+      const ester: EstradiolMedication = {
+        ...dose.medication,
+        D: dose.medication.D * m.D,
+        k1: dose.medication.k1 * m.k1,
+        k2: dose.medication.k2 * m.k2,
+        k3: dose.medication.k3 * m.k3
+      };
+      return { ...dose, medication: ester };
+    });
+
+    const points = calculateTotalConcentration(patientDoses, timePoints);
+    points.forEach((point, i) => {
+      // Near-equal rate constants make the closed-form solution unstable; drop those samples
+      if (isFinite(point.estradiolConcentration)) {
+        curves[i]!.push(point.estradiolConcentration);
+      }
+    });
+  }
+
+  return timePoints.map((time, i) => {
+    const sorted = curves[i]!.sort((a, b) => a - b);
+    return {
+      time,
+      p5: percentile(sorted, 0.05),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p95: percentile(sorted, 0.95)
+    };
+  });
+}
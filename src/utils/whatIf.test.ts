@@ -0,0 +1,80 @@
+import { buildWhatIfSeries, simulateWhatIf, WhatIfOptions } from './whatIf';
+import { generateTimePoints } from './pharmacokinetics';
+import { ESTRADIOL_ESTERS, Dose } from '../data/estradiolEsters';
+
+const EV = ESTRADIOL_ESTERS[1]!;
+const doses: Dose[] = [{ day: 0, dose: 4, medication: EV }, { day: 7, dose: 4, medication: EV }];
+const options: WhatIfOptions = {
+  scheduleLength: 14,
+  displayDays: 28,
+  esterConcentrations: { [EV.name]: 40 },
+  granularity: 0.025
+};
+
+describe('simulateWhatIf', () => {
+  it('should move only the first-cycle copy of a late dose', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 1, kind: 'late', delayDays: 3 }, options)!;
+    const days = result.perturbedDoses.map(d => d.day);
+
+    expect(days).toContain(10);
+    expect(days).not.toContain(7);
+    expect(days).toContain(21);
+    expect(result.perturbedDeviation).toBeGreaterThan(0);
+  });
+
+  it('should keep a late dose apart from a planned dose on the same day', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 0, kind: 'late', delayDays: 7 }, options)!;
+    const days = result.suggestion!.doses.filter(d => d.day >= 0 && d.day < 28).map(d => d.day);
+
+    expect(result.suggestion!.kind).toBe('shift');
+    expect(days).toEqual([7, 14, 21]);
+  });
+
+  it('should drop a missed dose and suggest a larger next dose', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 1, kind: 'missed', delayDays: 0 }, options)!;
+
+    expect(result.perturbedDoses.filter(d => d.day >= 0 && d.day < 14)).toHaveLength(1);
+    expect(result.suggestion?.kind).toBe('catch-up');
+    expect(result.suggestion!.deviation).toBeLessThan(result.perturbedDeviation);
+    expect(result.suggestion!.doses.find(d => d.day === 14)!.dose).toBeGreaterThan(4);
+  });
+
+  it('should round catch-up doses to the syringe granularity', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 0, kind: 'missed', delayDays: 0 }, options)!;
+    const changed = result.suggestion!.doses.find((d, i) => d.dose !== result.perturbedDoses[i]!.dose)!;
+
+    expect(Number.isInteger(changed.dose)).toBe(true); // 0.025 mL of 40 mg/mL = 1 mg steps
+  });
+
+  it('should only suggest corrections that beat doing nothing', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 1, kind: 'late', delayDays: 3 }, options)!;
+
+    expect(result.suggestion).not.toBeNull();
+    expect(result.suggestion!.deviation).toBeLessThan(result.perturbedDeviation);
+  });
+
+  it('should measure deviation against the planned curve itself', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 1, kind: 'late', delayDays: 0 }, options)!;
+
+    expect(result.perturbedDeviation).toBe(0);
+    expect(result.suggestion).toBeNull();
+  });
+
+  it('should return null for an unknown dose', () => {
+    expect(simulateWhatIf(doses, { doseIndex: 5, kind: 'missed', delayDays: 0 }, options)).toBeNull();
+  });
+});
+
+describe('buildWhatIfSeries', () => {
+  it('should include the corrected curve only when there is a suggestion', () => {
+    const result = simulateWhatIf(doses, { doseIndex: 1, kind: 'missed', delayDays: 0 }, options)!;
+    const series = buildWhatIfSeries(result, generateTimePoints(28));
+
+    expect(series).toHaveLength(generateTimePoints(28).length);
+    expect(series.every(p => p.correctedEstradiol !== null)).toBe(true);
+    expect(series.every(p => p.perturbedProgesterone === null)).toBe(true);
+
+    const withoutSuggestion = buildWhatIfSeries({ ...result, suggestion: null }, generateTimePoints(28));
+    expect(withoutSuggestion.every(p => p.correctedEstradiol === null)).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import { Dose } from '../data/estradiolEsters';
+import { getDoseUnit, isEstradiolMedication, isTransdermalMedication } from '../types/medication';
+import { ConcentrationPoint, calculateTotalConcentration, expandRepeatedDoses, generateTimePoints } from './pharmacokinetics';
+import { formatNumber } from './formatters';
+import { PHARMACOKINETICS, DEFAULTS } from '../constants/pharmacokinetics';
+
+/**
+ * Missed/late dose simulation on a steady-state schedule, with recovery suggestions
+ * scored by how far their levels stray from the undisturbed baseline
+ */
+
+const WHAT_IF_CONSTANTS = {
+  FOLLOWING_CYCLES: 2, // Cycles after the disturbed one that count towards the deviation
+  CATCH_UP_SCALES: [0.5, 0.625, 0.75, 0.875, 1.125, 1.25, 1.5, 1.75, 2],
+  NON_INJECTABLE_DOSE_STEP: 0.5 // mg
+} as const;
+
+export type WhatIfKind = 'late' | 'missed';
+
+export interface WhatIfScenario {
+  doseIndex: number; // Index into the planned Dose[]
+  kind: WhatIfKind;
+  delayDays: number; // Ignored for missed doses
+}
+
+export interface RecoverySuggestion {
+  kind: 'catch-up' | 'shift';
+  description: string;
+  doses: Dose[];
+  deviation: number;
+}
+
+export interface WhatIfResult {
+  perturbedDoses: Dose[];
+  perturbedDeviation: number;
+  suggestion: RecoverySuggestion | null; // null when no correction beats leaving things as they are
+}
+
+export interface WhatIfPoint {
+  time: number;
+  perturbedEstradiol: number;
+  correctedEstradiol: number | null; // null without a suggestion
+  perturbedProgesterone: number | null; // null when the schedule has no progesterone
+  correctedProgesterone: number | null;
+}
+
+export interface WhatIfOptions {
+  scheduleLength: number;
+  displayDays: number;
+  esterConcentrations: Record<string, number>;
+  granularity: number; // mL, as in the optimizer settings
+}
+
+/**
+ * Mean squared relative difference between a candidate's levels and the planned ones,
+ * sampled at the same times. Progesterone counts only where the plan has any.
+ */
+function calculateDeviation(candidate: ConcentrationPoint[], planned: ConcentrationPoint[]): number {
+  let total = 0;
+  let count = 0;
+  planned.forEach((p, i) => {
+    const c = candidate[i]!;
+    if (p.estradiolConcentration > 0) {
+      total += ((c.estradiolConcentration - p.estradiolConcentration) / p.estradiolConcentration) ** 2;
+      count++;
+    }
+    if (p.progesteroneConcentration > 0) {
+      total += ((c.progesteroneConcentration - p.progesteroneConcentration) / p.progesteroneConcentration) ** 2;
+      count++;
+    }
+  });
+  return count > 0 ? total / count : 0;
+}
+
+function getDoseStep(dose: Dose, options: WhatIfOptions): number {
+  if (isEstradiolMedication(dose.medication)) {
+    return options.granularity * (options.esterConcentrations[dose.medication.name] || DEFAULTS.DEFAULT_CONCENTRATION_MG_PER_ML);
+  }
+  return WHAT_IF_CONSTANTS.NON_INJECTABLE_DOSE_STEP;
+}
+
+const roundToStep = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+/**
+ * Distinct catch-up amounts for a dose, rounded to what can actually be measured
+ */
+function getCatchUpAmounts(dose: Dose, options: WhatIfOptions): number[] {
+  const step = getDoseStep(dose, options);
+  const amounts = new Set(WHAT_IF_CONSTANTS.CATCH_UP_SCALES.map(scale => roundToStep(dose.dose * scale, step)));
+  amounts.delete(dose.dose);
+  return Array.from(amounts);
+}
+
+/**
+ * Simulate a late or missed dose and look for the correction that keeps levels
+ * closest to the baseline over the disturbed cycle and the following ones
+ *
+ * @param doses - The planned single-cycle schedule, treated as repeating at steady state
+ */
+export function simulateWhatIf(doses: Dose[], scenario: WhatIfScenario, options: WhatIfOptions): WhatIfResult | null {
+  const { scheduleLength } = options;
+  const target = doses[scenario.doseIndex];
+  if (!target || scheduleLength <= 0) return null;
+
+  const windowDays = scheduleLength * (WHAT_IF_CONSTANTS.FOLLOWING_CYCLES + 1);
+  const baseline = expandRepeatedDoses(doses, scheduleLength, Math.max(windowDays, options.displayDays), true, true);
+
+  // The disturbed dose is the first-cycle copy of the selected one
+  const targetIndex = baseline.findIndex(d =>
+    d.day === target.day && d.medication === target.medication && d.dose === target.dose
+  );
+  if (targetIndex < 0) return null;
+
+  const timePoints = generateTimePoints(windowDays, PHARMACOKINETICS.TIME_POINT_STEP);
+  const planned = calculateTotalConcentration(baseline, timePoints);
+  const deviation = (candidate: Dose[]) => calculateDeviation(calculateTotalConcentration(candidate, timePoints), planned);
+
+  const lateDay = target.day + scenario.delayDays;
+  const perturbed = scenario.kind === 'missed'
+    ? baseline.filter((_, i) => i !== targetIndex)
+    : baseline.map((d, i) => (i === targetIndex ? { ...d, day: lateDay } : d));
+  // A late dose keeps its index; matching by value would also hit a planned dose on the same day
+  const lateDose = scenario.kind === 'late' ? perturbed[targetIndex] : undefined;
+  const perturbedDeviation = deviation(perturbed);
+
+  const unit = getDoseUnit(target.medication);
+  const candidates: Omit<RecoverySuggestion, 'deviation'>[] = [];
+  const canScale = !isTransdermalMedication(target.medication);
+
+  // Catch-up: change the late dose itself
+  if (scenario.kind === 'late' && canScale) {
+    getCatchUpAmounts(target, options).forEach(amount => {
+      candidates.push({
+        kind: 'catch-up',
+        description: `Take ${formatNumber(amount)} ${unit} instead of ${formatNumber(target.dose)} ${unit} when taking the late dose`,
+        doses: perturbed.map(d => (d === lateDose ? { ...d, dose: amount } : d))
+      });
+    });
+  }
+
+  // Catch-up: change the next dose of the same medication
+  const effectiveDay = scenario.kind === 'late' ? lateDay : target.day;
+  const next = perturbed
+    .filter(d => d !== lateDose && d.medication === target.medication && d.day >= effectiveDay)
+    .sort((a, b) => a.day - b.day)[0];
+  if (next && canScale) {
+    getCatchUpAmounts(next, options).forEach(amount => {
+      candidates.push({
+        kind: 'catch-up',
+        description: `Take ${formatNumber(amount)} ${unit} instead of ${formatNumber(next.dose)} ${unit} at the next dose on day ${formatNumber(next.day)}`,
+        doses: perturbed.map(d => (d === next ? { ...d, dose: amount } : d))
+      });
+    });
+  }
+
+  // Shift: continue the schedule from the late dose, moving every later dose
+  if (scenario.kind === 'late') {
+    for (let shift = 1; shift <= scenario.delayDays; shift++) {
+      candidates.push({
+        kind: 'shift',
+        description: `Shift the rest of the schedule ${shift} day${shift > 1 ? 's' : ''} later`,
+        doses: perturbed.map(d => (d !== lateDose && d.day > target.day ? { ...d, day: d.day + shift } : d))
+      });
+    }
+  }
+
+  let suggestion: RecoverySuggestion | null = null;
+  candidates.forEach(candidate => {
+    const score = deviation(candidate.doses);
+    if (score < perturbedDeviation && (!suggestion || score < suggestion.deviation)) {
+      suggestion = { ...candidate, deviation: score };
+    }
+  });
+
+  return { perturbedDoses: perturbed, perturbedDeviation, suggestion };
+}
+
+/**
+ * Curves for the graph overlay: the disturbed schedule and, if any, the suggested correction
+ */
+export function buildWhatIfSeries(result: WhatIfResult, timePoints: number[]): WhatIfPoint[] {
+  const perturbed = calculateTotalConcentration(result.perturbedDoses, timePoints);
+  const corrected = result.suggestion ? calculateTotalConcentration(result.suggestion.doses, timePoints) : null;
+  const hasProgesterone = perturbed.some(p => p.progesteroneConcentration > 0);
+
+  return perturbed.map((p, i) => {
+    const c = corrected?.[i];
+    return {
+      time: p.time,
+      perturbedEstradiol: p.estradiolConcentration,
+      correctedEstradiol: c ? c.estradiolConcentration : null,
+      perturbedProgesterone: hasProgesterone ? p.progesteroneConcentration : null,
+      correctedProgesterone: hasProgesterone && c ? c.progesteroneConcentration : null
+    };
+  });
+}
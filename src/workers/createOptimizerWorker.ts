@@ -0,0 +1,7 @@
+/**
+ * Kept in its own module because `import.meta` can't be parsed by Jest;
+ * it is only loaded (via dynamic import) where workers are available.
+ */
+export function createOptimizerWorker(): Worker {
+  return new Worker(new URL('./optimizer.worker.ts', import.meta.url));
+}
@@ -0,0 +1,23 @@
+/// <reference lib="webworker" />
+import { optimizeSchedule } from '../utils/scheduleOptimizer';
+import { OptimizerRequest, OptimizerResponse } from './optimizerProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const respond = (message: OptimizerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<OptimizerRequest>) => {
+  const request = event.data;
+  if (request.type !== 'start') return;
+
+  try {
+    const result = await optimizeSchedule(
+      request.params,
+      (progress, score, iteration) => respond({ type: 'progress', progress, score, iteration }),
+      { onIntermediate: (doses, score) => respond({ type: 'intermediate', doses, score }) }
+    );
+    respond({ type: 'result', result });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,43 @@
+import { Dose } from '../data/estradiolEsters';
+import { OptimizationParams, OptimizationResult } from '../utils/scheduleOptimizer';
+
+/**
+ * Messages exchanged with the optimizer worker.
+ * A worker handles a single run; cancelling terminates it.
+ */
+
+export interface OptimizerStartMessage {
+  type: 'start';
+  params: OptimizationParams;
+}
+
+export type OptimizerRequest = OptimizerStartMessage;
+
+export interface OptimizerProgressMessage {
+  type: 'progress';
+  progress: number; // 0-100 percentage
+  score: number;
+  iteration: number;
+}
+
+export interface OptimizerIntermediateMessage {
+  type: 'intermediate';
+  doses: Dose[];
+  score: number;
+}
+
+export interface OptimizerResultMessage {
+  type: 'result';
+  result: OptimizationResult;
+}
+
+export interface OptimizerErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type OptimizerResponse =
+  | OptimizerProgressMessage
+  | OptimizerIntermediateMessage
+  | OptimizerResultMessage
+  | OptimizerErrorMessage;